@@ -1,15 +1,39 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { PreviewManager } from "../../../lib/local-container/preview-manager"
-import { getLocalContainer } from "../../../lib/local-container"
-
-let previewManager: PreviewManager | null = null
+import { getServices } from "../../../lib/local-container/services"
 
 async function getPreviewManager() {
-  if (!previewManager) {
-    const container = await getLocalContainer()
-    previewManager = new PreviewManager(container)
+  return (await getServices()).previewManager
+}
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const manager = await getPreviewManager()
+
+    if (searchParams.get("action") === "logs") {
+      const logs = manager.getPreviewLogs(params.id, {
+        since: Number.parseInt(searchParams.get("since") || "0") || 0,
+        limit: Number.parseInt(searchParams.get("limit") || "") || undefined,
+      })
+
+      if (!logs) {
+        return NextResponse.json({ success: false, error: "Preview not found" }, { status: 404 })
+      }
+
+      return NextResponse.json({ success: true, logs })
+    }
+
+    const env = manager.getPreviewEnv(params.id)
+
+    if (!env) {
+      return NextResponse.json({ success: false, error: "Preview not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, ...env })
+  } catch (error) {
+    console.error("Failed to get preview details:", error)
+    return NextResponse.json({ success: false, error: "Failed to get preview details" }, { status: 500 })
   }
-  return previewManager
 }
 
 export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
@@ -1,19 +1,11 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { PreviewManager } from "../../lib/local-container/preview-manager"
-import { getLocalContainer } from "../../lib/local-container"
-
-let previewManager: PreviewManager | null = null
+import { getServices } from "../../lib/local-container/services"
 
 export async function POST(request: NextRequest) {
   try {
     const { projectPath = ".", port, env } = await request.json()
 
-    // Initialize preview manager if not exists
-    if (!previewManager) {
-      const container = await getLocalContainer()
-      previewManager = new PreviewManager(container)
-    }
-
+    const { previewManager } = await getServices()
     const preview = await previewManager.createPreview(projectPath, { port, env })
 
     return NextResponse.json({
@@ -1,10 +1,9 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { TerminalManager } from "../../lib/local-container/terminal-manager"
-
-const terminalManager = new TerminalManager(process.cwd())
+import { getServices } from "../../lib/local-container/services"
 
 export async function POST(request: NextRequest) {
   try {
+    const { terminalManager } = await getServices()
     const { sessionId, command, args = [] } = await request.json()
 
     if (!sessionId || !command) {
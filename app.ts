@@ -1,20 +1,26 @@
 import express from "express"
-import { createServer } from "http"
-import { WebSocketServer } from "ws"
+import { createServer, type IncomingMessage } from "http"
+import { WebSocketServer, type WebSocket } from "ws"
+import { createProxyMiddleware, type RequestHandler } from "http-proxy-middleware"
 import path from "path"
-import { LocalContainerImpl } from "./lib/local-container/container"
-import { OptimizedFileSystem } from "./lib/local-container/optimized-file-system"
-import { TerminalManager } from "./lib/local-container/terminal-manager"
-import { FileManager } from "./lib/local-container/file-manager"
-import { PreviewManager } from "./lib/local-container/preview-manager"
-import { ProjectManager } from "./lib/local-container/project-manager"
+import type { Socket } from "net"
+import type { LocalContainerImpl } from "./lib/local-container/container"
+import type { TerminalManager } from "./lib/local-container/terminal-manager"
+import type { FileManager } from "./lib/local-container/file-manager"
+import type { PreviewManager, PreviewInstance } from "./lib/local-container/preview-manager"
+import type { LogLine } from "./lib/local-container/log-buffer"
+import type { ProjectManager } from "./lib/local-container/project-manager"
 import { PerformanceMonitor } from "./lib/local-container/performance-monitor"
+import { getServices, disposeServices } from "./lib/local-container/services"
+import { PathSecurityError } from "./lib/local-container/path-security"
+import { WriteConflictError } from "./lib/local-container/file-system"
 import { logger, LogLevel } from "./lib/local-container/logger"
 
 export class BoltLocalApp {
   private app: express.Application
   private server: any
   private wss: WebSocketServer | null = null
+  private previewProxy: RequestHandler
   private container: LocalContainerImpl | null = null
   private terminalManager: TerminalManager | null = null
   private fileManager: FileManager | null = null
@@ -22,11 +28,14 @@ export class BoltLocalApp {
   private projectManager: ProjectManager | null = null
   private performanceMonitor: PerformanceMonitor
   private port: number
+  // Terminal session id -> the one socket attached to it
+  private terminalSockets: Map<string, WebSocket> = new Map()
 
   constructor(port = 3000) {
     this.app = express()
     this.port = port
     this.performanceMonitor = new PerformanceMonitor()
+    this.previewProxy = this.createPreviewProxy()
 
     this.setupMiddleware()
     this.setupRoutes()
@@ -42,6 +51,37 @@ export class BoltLocalApp {
       next()
     })
 
+    // Preview reverse proxy (must run before body parsing so request bodies stream through).
+    // A preview on its subdomain owns every path there, so host routing comes first.
+    this.app.use((req: express.Request, res: express.Response, next: express.NextFunction) => {
+      const preview = this.previewManager?.getPreviewForHost(req.headers.host || "")
+      if (!preview) return next()
+
+      preview.lastActivity = new Date()
+      this.previewProxy(req, res, next)
+    })
+    this.app.use("/preview", (req: express.Request, res: express.Response, next: express.NextFunction) => {
+      const preview = this.previewManager?.getPreviewForPath(req.originalUrl)
+      if (!preview) {
+        return res.status(404).json({ error: "Preview not found" })
+      }
+
+      // A dev server that serves from the root is proxied on its subdomain of this host
+      if (!preview.server.servesBasePath()) {
+        const rest = req.originalUrl.slice(preview.url.length - 1) || "/"
+        return res.redirect(`${req.protocol}://${preview.subdomain}.${req.headers.host}${rest}`)
+      }
+
+      // Relative asset URLs only resolve against the trailing-slash form
+      if (req.originalUrl === preview.url.replace(/\/$/, "")) {
+        return res.redirect(preview.url)
+      }
+
+      preview.lastActivity = new Date()
+      next()
+    })
+    this.app.use(this.previewProxy)
+
     // JSON parsing
     this.app.use(express.json({ limit: "50mb" }))
     this.app.use(express.urlencoded({ extended: true, limit: "50mb" }))
@@ -58,6 +98,33 @@ export class BoltLocalApp {
     })
   }
 
+  private createPreviewProxy(): RequestHandler {
+    return createProxyMiddleware({
+      // Placeholder; every request is routed to its preview's own port
+      target: "http://localhost",
+      changeOrigin: true,
+      pathFilter: (pathname, req) => !!this.proxiedPreview(req),
+      // Dev servers serve under the preview's path or from the root of its subdomain, so
+      // requests are forwarded unchanged
+      router: (req) => this.proxiedPreview(req)?.targetUrl,
+      on: {
+        error: (error, req) => {
+          logger.error("Preview proxy error", error, { path: req.url })
+        },
+      },
+    })
+  }
+
+  // The preview a request is proxied to: by subdomain, or by path when its dev server serves
+  // under the preview path
+  private proxiedPreview(req: IncomingMessage): PreviewInstance | undefined {
+    const byHost = this.previewManager?.getPreviewForHost(req.headers.host || "")
+    if (byHost) return byHost
+
+    const byPath = this.previewManager?.getPreviewForPath(req.url || "")
+    return byPath?.server.servesBasePath() ? byPath : undefined
+  }
+
   private setupRoutes(): void {
     // Health check
     this.app.get("/health", (req, res) => {
@@ -78,9 +145,25 @@ export class BoltLocalApp {
         }
 
         const filePath = req.params[0]
+        const encoding = req.query.encoding || "utf-8"
+
+        if (encoding === "raw") {
+          const buffer = await this.fileManager.readFileBuffer(filePath)
+          res.setHeader("Content-Type", "application/octet-stream")
+          return res.send(buffer)
+        }
+
+        if (encoding === "base64") {
+          const buffer = await this.fileManager.readFileBuffer(filePath)
+          return res.json({ content: buffer.toString("base64"), encoding })
+        }
+
         const content = await this.fileManager.readFile(filePath)
         res.json({ content })
       } catch (error) {
+        if (error instanceof PathSecurityError) {
+          return res.status(403).json({ error: error.message })
+        }
         logger.error("File read error", error as Error, { path: req.params[0] })
         res.status(404).json({ error: "File not found" })
       }
@@ -93,10 +176,32 @@ export class BoltLocalApp {
         }
 
         const filePath = req.params[0]
-        const { content } = req.body
-        await this.fileManager.writeFile(filePath, content)
-        res.json({ success: true })
+        const { content, encoding, expectedMtime, expectedHash } = req.body
+        const preconditions = { expectedMtime, expectedHash }
+
+        const version =
+          encoding === "base64"
+            ? await this.fileManager.writeFileBuffer(filePath, Buffer.from(content || "", "base64"), preconditions)
+            : await this.fileManager.writeFile(filePath, content, preconditions)
+        res.json({ success: true, mtime: version.mtime, hash: version.hash })
       } catch (error) {
+        if (error instanceof WriteConflictError) {
+          // Send back what is on disk now so the client can merge or overwrite deliberately
+          const encoding = req.body?.encoding === "base64" ? "base64" : "utf-8"
+          const current = error.current
+            ? await this.fileManager!.readFileBuffer(error.filePath).catch(() => null)
+            : null
+          return res.status(409).json({
+            error: error.message,
+            conflict: true,
+            current: error.current,
+            content: current ? current.toString(encoding) : null,
+            encoding,
+          })
+        }
+        if (error instanceof PathSecurityError) {
+          return res.status(403).json({ error: error.message })
+        }
         logger.error("File write error", error as Error, { path: req.params[0] })
         res.status(500).json({ error: "Failed to write file" })
       }
@@ -179,22 +284,15 @@ export class BoltLocalApp {
     try {
       logger.info("Initializing Bolt Local App", { workdir, port: this.port })
 
-      // Start performance monitoring
-      this.performanceMonitor.start()
-
-      // Initialize container with optimized file system
-      this.container = new LocalContainerImpl(workdir)
-      const optimizedFS = new OptimizedFileSystem(workdir, this.performanceMonitor)
-      ;(this.container as any).fs = optimizedFS
-
-      // Initialize managers
-      this.terminalManager = new TerminalManager(workdir)
-      this.fileManager = new FileManager(optimizedFS, workdir)
-      this.previewManager = new PreviewManager(this.container)
-      this.projectManager = new ProjectManager(this.container)
+      // Resolve the shared services so the Next API routes see the same container and managers
+      const services = await getServices({ workdir, performanceMonitor: this.performanceMonitor })
 
-      // Initialize file manager
-      await this.fileManager.initialize()
+      this.container = services.container
+      this.performanceMonitor = services.performanceMonitor
+      this.terminalManager = services.terminalManager
+      this.fileManager = services.fileManager
+      this.previewManager = services.previewManager
+      this.projectManager = services.projectManager
 
       // Set up performance monitoring
       this.setupPerformanceMonitoring()
@@ -214,18 +312,6 @@ export class BoltLocalApp {
         // this.performanceMonitor.setActiveSessions(this.terminalManager.getActiveSessionCount())
       }, 5000)
     }
-
-    // Monitor cache performance
-    if (this.container?.fs) {
-      const fs = this.container.fs as any
-      if (fs.getCacheStats) {
-        this.performanceMonitor.on("systemMetrics", () => {
-          const cacheStats = fs.getCacheStats()
-          this.performanceMonitor.recordMetric("cache_hit_rate", cacheStats.fileCache.hitRate)
-          this.performanceMonitor.recordMetric("cache_size", cacheStats.fileCache.size)
-        })
-      }
-    }
   }
 
   async start(): Promise<void> {
@@ -234,9 +320,44 @@ export class BoltLocalApp {
         this.server = createServer(this.app)
 
         // Set up WebSocket server for real-time updates
-        this.wss = new WebSocketServer({ server: this.server })
+        this.wss = new WebSocketServer({ noServer: true })
+
+        // Route upgrades: preview HMR sockets go to the dev server, everything else to our own server
+        this.server.on("upgrade", (req: IncomingMessage, socket: Socket, head: Buffer) => {
+          if (this.proxiedPreview(req)) {
+            this.previewProxy.upgrade(req, socket, head)
+            return
+          }
+
+          // Browsers let any page open a WebSocket to localhost, so our own sockets (a terminal
+          // is a shell) only accept pages served from this app
+          if (!isSameOrigin(req)) {
+            logger.warn("Rejected cross-origin WebSocket", { origin: req.headers.origin, path: req.url })
+            socket.end("HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n")
+            return
+          }
+
+          this.wss!.handleUpgrade(req, socket, head, (ws: WebSocket) => {
+            this.wss!.emit("connection", ws, req)
+          })
+        })
+
+        this.wss.on("connection", (ws, req: IncomingMessage) => {
+          const url = new URL(req.url || "/", "http://localhost")
+          const terminalMatch = url.pathname.match(/^\/terminal\/([^/]+)$/)
+
+          if (terminalMatch) {
+            this.handleTerminalConnection(ws, decodeURIComponent(terminalMatch[1]), url.searchParams)
+            return
+          }
+
+          const previewLogsMatch = url.pathname.match(/^\/preview-logs\/([^/]+)$/)
+
+          if (previewLogsMatch) {
+            this.handlePreviewLogsConnection(ws, decodeURIComponent(previewLogsMatch[1]), url.searchParams)
+            return
+          }
 
-        this.wss.on("connection", (ws) => {
           logger.info("WebSocket connection established")
 
           // Send performance updates
@@ -274,25 +395,118 @@ export class BoltLocalApp {
     })
   }
 
+  private async handleTerminalConnection(ws: WebSocket, sessionId: string, params: URLSearchParams): Promise<void> {
+    if (!this.terminalManager) {
+      ws.close(1011, "Terminal manager not initialized")
+      return
+    }
+
+    // One socket per session: it owns the shell, which goes away when the socket closes
+    if (this.terminalSockets.has(sessionId)) {
+      ws.close(1008, "Terminal session is already attached")
+      return
+    }
+    this.terminalSockets.set(sessionId, ws)
+
+    const terminalManager = this.terminalManager
+    const disposers: Array<() => void> = []
+    logger.info("Terminal connection established", { sessionId })
+
+    ws.on("message", (raw: Buffer) => {
+      try {
+        const message = JSON.parse(raw.toString())
+
+        switch (message.type) {
+          case "input":
+            terminalManager.writeInput(sessionId, message.data)
+            break
+          case "resize":
+            terminalManager.resizeSession(sessionId, message.cols, message.rows)
+            break
+          case "signal":
+            terminalManager.sendSignal(sessionId, message.signal)
+            break
+          default:
+            logger.warn("Unknown terminal message", { sessionId, type: message.type })
+        }
+      } catch (error) {
+        logger.error("Invalid terminal message", error as Error, { sessionId })
+      }
+    })
+
+    ws.on("close", () => {
+      disposers.forEach((dispose) => dispose())
+      this.terminalSockets.delete(sessionId)
+      terminalManager.destroySession(sessionId)
+      logger.info("Terminal connection closed", { sessionId })
+    })
+
+    try {
+      const pty = await terminalManager.openPty(sessionId, {
+        cols: Number.parseInt(params.get("cols") || "") || undefined,
+        rows: Number.parseInt(params.get("rows") || "") || undefined,
+      })
+
+      // The client may have gone away while the shell was starting
+      if (ws.readyState !== ws.OPEN) {
+        terminalManager.destroySession(sessionId)
+        return
+      }
+
+      disposers.push(
+        pty.onData((data) => {
+          if (ws.readyState === ws.OPEN) {
+            ws.send(JSON.stringify({ type: "output", data }))
+          }
+        }),
+        pty.onExit((exitCode, signal) => {
+          if (ws.readyState === ws.OPEN) {
+            ws.send(JSON.stringify({ type: "exit", exitCode, signal }))
+            ws.close()
+          }
+        }),
+      )
+    } catch (error) {
+      logger.error("Failed to open terminal session", error as Error, { sessionId })
+      ws.close(1011, "Failed to open terminal session")
+    }
+  }
+
+  private handlePreviewLogsConnection(ws: WebSocket, previewId: string, params: URLSearchParams): void {
+    const previewManager = this.previewManager
+    const backlog = previewManager?.getPreviewLogs(previewId, {
+      since: Number.parseInt(params.get("since") || "0") || 0,
+    })
+
+    if (!previewManager || !backlog) {
+      ws.close(1008, "Preview not found")
+      return
+    }
+
+    ws.send(JSON.stringify({ type: "logs", data: backlog }))
+
+    const handleLog = (preview: PreviewInstance, line: LogLine) => {
+      if (preview.id === previewId && ws.readyState === ws.OPEN) {
+        ws.send(JSON.stringify({ type: "log", data: line }))
+      }
+    }
+
+    previewManager.on("previewLog", handleLog)
+    ws.on("close", () => {
+      previewManager.off("previewLog", handleLog)
+    })
+  }
+
   async stop(): Promise<void> {
     logger.info("Stopping Bolt Local App")
 
-    // Stop performance monitoring
-    this.performanceMonitor.stop()
-
     // Close WebSocket server
     if (this.wss) {
       this.wss.close()
     }
 
-    // Stop preview manager
-    if (this.previewManager) {
-      await this.previewManager.stopAllPreviews()
-    }
-
-    // Dispose managers
-    this.fileManager?.dispose()
-    this.performanceMonitor.dispose()
+    // Stop previews, watchers and performance monitoring
+    await disposeServices()
 
     // Close HTTP server
     if (this.server) {
@@ -324,6 +538,18 @@ export class BoltLocalApp {
   }
 }
 
+// A request without an Origin header doesn't come from a browser page, so only a present,
+// different origin is refused
+function isSameOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin
+  if (!origin) return true
+  try {
+    return new URL(origin).host === req.headers.host
+  } catch {
+    return false
+  }
+}
+
 // CLI entry point
 if (require.main === module) {
   const app = new BoltLocalApp(Number.parseInt(process.env.PORT || "3000"))
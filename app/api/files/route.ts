@@ -1,70 +1,242 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { FileManager } from "@/lib/local-container/file-manager"
-
-const fileManager = new FileManager()
+import { getServices } from "@/lib/local-container/services"
+import { PathSecurityError } from "@/lib/local-container/path-security"
+import { WriteConflictError } from "@/lib/local-container/file-system"
+import { TrashConflictError } from "@/lib/local-container/trash"
 
 export async function GET(request: NextRequest) {
   try {
+    const { fileManager } = await getServices()
     const { searchParams } = new URL(request.url)
     const path = searchParams.get("path") || "."
     const action = searchParams.get("action")
 
     if (action === "list") {
-      const files = await fileManager.listFiles(path)
-      return NextResponse.json({ files })
+      const limit = Number.parseInt(searchParams.get("limit") || "", 10)
+      const page = await fileManager.listDirectory(path, {
+        cursor: searchParams.get("cursor"),
+        limit: Number.isNaN(limit) ? undefined : limit,
+        showIgnored: searchParams.get("showIgnored") === "true",
+      })
+      return NextResponse.json(page)
+    }
+
+    if (action === "trash") {
+      return NextResponse.json({ items: await fileManager.getTrash() })
     }
 
     if (action === "read") {
-      const content = await fileManager.readFile(path)
-      return NextResponse.json({ content })
+      const encoding = searchParams.get("encoding") || "utf-8"
+
+      if (encoding === "base64") {
+        const buffer = await fileManager.readFileBuffer(path)
+        const version = await fileManager.getFileVersion(path)
+        return NextResponse.json({ content: buffer.toString("base64"), encoding, mtime: version.mtime, hash: version.hash })
+      }
+
+      if (encoding === "raw") {
+        const buffer = await fileManager.readFileBuffer(path)
+        const version = await fileManager.getFileVersion(path)
+        return new Response(buffer, {
+          headers: {
+            "Content-Type": "application/octet-stream",
+            "Content-Length": buffer.length.toString(),
+            ETag: `"${version.hash}"`,
+            "Last-Modified": version.mtime.toUTCString(),
+          },
+        })
+      }
+
+      // mtime and hash can be sent back as expectedMtime/expectedHash to make the next write conditional
+      const { content, version } = await fileManager.readFileWithVersion(path)
+      return NextResponse.json({ content, mtime: version.mtime, hash: version.hash })
     }
 
     return NextResponse.json({ error: "Invalid action" }, { status: 400 })
   } catch (error) {
+    if (error instanceof PathSecurityError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
     console.error("File operation error:", error)
     return NextResponse.json({ error: "File operation failed" }, { status: 500 })
   }
 }
 
 export async function POST(request: NextRequest) {
+  let encoding: string | undefined
+
   try {
-    const { path, content, action } = await request.json()
+    const { fileManager } = await getServices()
+    const body = await request.json()
+    const { path, content, action, expectedMtime, expectedHash, destination, overwrite, id, conflict } = body
+    encoding = body.encoding
 
     switch (action) {
-      case "write":
-        await fileManager.writeFile(path, content)
-        return NextResponse.json({ success: true })
+      case "write": {
+        const preconditions = { expectedMtime, expectedHash }
+        const version =
+          encoding === "base64"
+            ? await fileManager.writeFileBuffer(path, Buffer.from(content || "", "base64"), preconditions)
+            : await fileManager.writeFile(path, content, preconditions)
+        return NextResponse.json({ success: true, mtime: version.mtime, hash: version.hash })
+      }
 
       case "create":
-        await fileManager.createFile(path, content || "")
+        if (encoding === "base64") {
+          await fileManager.writeFileBuffer(path, Buffer.from(content || "", "base64"))
+        } else {
+          await fileManager.createFile(path, content || "")
+        }
         return NextResponse.json({ success: true })
 
       case "mkdir":
         await fileManager.createDirectory(path)
         return NextResponse.json({ success: true })
 
+      // The target goes in "destination"; copy and move take overwrite: "error" | "overwrite"
+      case "rename":
+      case "copy":
+      case "move": {
+        if (!path || !destination) {
+          return NextResponse.json({ error: "Path and destination are required" }, { status: 400 })
+        }
+
+        if (action === "rename") {
+          await fileManager.renameFile(path, destination)
+        } else if (action === "copy") {
+          await fileManager.copyFile(path, destination, { overwrite })
+        } else {
+          await fileManager.moveFile(path, destination, { overwrite })
+        }
+        return NextResponse.json({ success: true })
+      }
+
+      // Trash item "id" back to where it was deleted from; conflict: "error" | "overwrite" | "rename"
+      case "restore": {
+        if (!id) {
+          return NextResponse.json({ error: "Trash item id is required" }, { status: 400 })
+        }
+
+        const restored = await fileManager.restoreFromTrash(id, { conflict })
+        return NextResponse.json({ success: true, path: restored.path, item: restored.item })
+      }
+
+      case "empty-trash": {
+        const deleted = await fileManager.emptyTrash()
+        return NextResponse.json({ success: true, deleted })
+      }
+
       default:
         return NextResponse.json({ error: "Invalid action" }, { status: 400 })
     }
   } catch (error) {
+    if (error instanceof WriteConflictError) {
+      return conflictResponse(error, encoding)
+    }
+    if (error instanceof TrashConflictError) {
+      return NextResponse.json({ error: error.message, conflict: true, item: error.item }, { status: 409 })
+    }
+    if (error instanceof PathSecurityError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    switch ((error as NodeJS.ErrnoException).code) {
+      case "ENOENT":
+        return NextResponse.json({ error: "Not found" }, { status: 404 })
+      case "EEXIST":
+        return NextResponse.json({ error: (error as Error).message }, { status: 409 })
+      case "EINVAL":
+        return NextResponse.json({ error: (error as Error).message }, { status: 400 })
+    }
     console.error("File operation error:", error)
     return NextResponse.json({ error: "File operation failed" }, { status: 500 })
   }
 }
 
+export async function PUT(request: NextRequest) {
+  try {
+    const { fileManager } = await getServices()
+    const { searchParams } = new URL(request.url)
+    const path = searchParams.get("path")
+
+    if (!path) {
+      return NextResponse.json({ error: "Path is required" }, { status: 400 })
+    }
+
+    // Raw upload: the request body is written byte-for-byte
+    const buffer = Buffer.from(await request.arrayBuffer())
+    const version = await fileManager.writeFileBuffer(path, buffer, {
+      expectedMtime: searchParams.get("expectedMtime") || undefined,
+      expectedHash: searchParams.get("expectedHash") || undefined,
+    })
+    return NextResponse.json({ success: true, size: buffer.length, mtime: version.mtime, hash: version.hash })
+  } catch (error) {
+    if (error instanceof WriteConflictError) {
+      return conflictResponse(error, "base64")
+    }
+    if (error instanceof PathSecurityError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error("File upload error:", error)
+    return NextResponse.json({ error: "File upload failed" }, { status: 500 })
+  }
+}
+
+// Moves path to the trash (permanent=true deletes it outright); trashId= deletes one trash item for good
 export async function DELETE(request: NextRequest) {
   try {
+    const { fileManager } = await getServices()
     const { searchParams } = new URL(request.url)
     const path = searchParams.get("path")
+    const trashId = searchParams.get("trashId")
+
+    if (trashId) {
+      const item = await fileManager.deleteFromTrash(trashId)
+      return NextResponse.json({ success: true, item })
+    }
 
     if (!path) {
       return NextResponse.json({ error: "Path is required" }, { status: 400 })
     }
 
-    await fileManager.deleteFile(path)
-    return NextResponse.json({ success: true })
+    const trashItem = await fileManager.deleteFile(path, { permanent: searchParams.get("permanent") === "true" })
+    return NextResponse.json({ success: true, trashItem })
   } catch (error) {
+    if (error instanceof PathSecurityError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
     console.error("File deletion error:", error)
     return NextResponse.json({ error: "File deletion failed" }, { status: 500 })
   }
 }
+
+// 409 carrying what is on disk now, so the client can merge or overwrite deliberately
+async function conflictResponse(error: WriteConflictError, encoding?: string) {
+  let content: string | null = null
+
+  if (error.current) {
+    try {
+      const { fileManager } = await getServices()
+      const buffer = await fileManager.readFileBuffer(error.filePath)
+      content = buffer.toString(encoding === "base64" ? "base64" : "utf-8")
+    } catch {
+      // Changed again (or deleted) since the conflict was detected; report the version only
+    }
+  }
+
+  return NextResponse.json(
+    {
+      error: error.message,
+      conflict: true,
+      current: error.current,
+      content,
+      encoding: encoding === "base64" ? "base64" : "utf-8",
+    },
+    { status: 409 },
+  )
+}
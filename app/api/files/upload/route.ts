@@ -0,0 +1,107 @@
+import { type NextRequest, NextResponse } from "next/server"
+import path from "path"
+import { getServices } from "@/lib/local-container/services"
+import { PathSecurityError, sanitizeArchivePath } from "@/lib/local-container/path-security"
+import { getBoundary, parseMultipart, MultipartError, type MultipartPart } from "@/lib/local-container/multipart"
+import type { UploadConflictPolicy, UploadResult } from "@/lib/local-container/file-manager"
+
+const CONFLICT_POLICIES: UploadConflictPolicy[] = ["overwrite", "skip", "rename"]
+// Fields are short settings and paths; anything longer is refused
+const MAX_FIELD_BYTES = 64 * 1024
+
+// Streamed multipart upload. Fields, in order: targetDir (default "."), conflict ("overwrite" |
+// "skip" | "rename", default "rename"), then per file a "path" field relative to targetDir
+// (directories are created) followed by the file part itself. Without a path field the part's
+// filename is used. The whole upload is one undo step.
+export async function POST(request: NextRequest) {
+  const boundary = getBoundary(request.headers.get("content-type"))
+  const body = request.body
+  if (!boundary || !body) {
+    return NextResponse.json({ error: "Expected a multipart/form-data body" }, { status: 400 })
+  }
+
+  const result: UploadResult = { succeeded: [], skipped: [], failed: [] }
+
+  try {
+    const { fileManager } = await getServices()
+    let targetDir = "."
+    let conflict: UploadConflictPolicy = "rename"
+    let nextPath: string | null = null
+
+    await fileManager.batch("Upload files", async (batch) => {
+      for await (const part of parseMultipart(readStream(body), boundary)) {
+        if (part.filename === undefined) {
+          const value = await readField(part)
+          if (part.name === "targetDir") {
+            targetDir = value || "."
+          } else if (part.name === "conflict") {
+            if (!CONFLICT_POLICIES.includes(value as UploadConflictPolicy)) {
+              throw new MultipartError(`Unknown conflict policy ${value}`)
+            }
+            conflict = value as UploadConflictPolicy
+          } else if (part.name === "path") {
+            nextPath = value
+          }
+          continue
+        }
+
+        const relativePath: string = nextPath ?? part.filename
+        nextPath = null
+
+        try {
+          const filePath = path.posix.join(targetDir, sanitizeArchivePath(relativePath))
+          const destination = await fileManager.uploadFile(filePath, part.content, { conflict, batch })
+          if (destination) {
+            result.succeeded.push({ path: filePath, destination })
+          } else {
+            result.skipped.push({ path: filePath })
+          }
+        } catch (error) {
+          // A broken body ends the whole upload; anything else only fails this file
+          if (error instanceof MultipartError) throw error
+          result.failed.push({
+            path: relativePath,
+            error: error instanceof Error ? error.message : String(error),
+            code: (error as NodeJS.ErrnoException).code,
+          })
+        }
+      }
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    // Files written before the failure stay; report them along with the error
+    if (error instanceof MultipartError) {
+      return NextResponse.json({ error: error.message, ...result }, { status: 400 })
+    }
+    if (error instanceof PathSecurityError) {
+      return NextResponse.json({ error: error.message, ...result }, { status: 403 })
+    }
+    console.error("File upload error:", error)
+    return NextResponse.json({ error: "File upload failed", ...result }, { status: 500 })
+  }
+}
+
+async function* readStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader()
+  try {
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) return
+      yield value
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+async function readField(part: MultipartPart): Promise<string> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of part.content) {
+    size += chunk.length
+    if (size > MAX_FIELD_BYTES) throw new MultipartError(`Field ${part.name} is too large`)
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks).toString("utf-8")
+}
@@ -0,0 +1,86 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServices } from "@/lib/local-container/services"
+import { PathSecurityError } from "@/lib/local-container/path-security"
+
+// Local history of a file:
+// - no action: its versions, newest first
+// - action=files: every path with history, including deleted files
+// - action=content&id=: one version (encoding=base64 for binary files)
+// - action=diff&id=[&against=]: a version compared with a later one, or with the file on disk
+export async function GET(request: NextRequest) {
+  try {
+    const { fileManager } = await getServices()
+    const { searchParams } = new URL(request.url)
+    const path = searchParams.get("path")
+    const action = searchParams.get("action")
+    const id = searchParams.get("id")
+
+    if (action === "files") {
+      return NextResponse.json({ files: await fileManager.getHistoryFiles() })
+    }
+
+    if (!path) {
+      return NextResponse.json({ error: "Path is required" }, { status: 400 })
+    }
+
+    if (!action) {
+      return NextResponse.json({ path, entries: await fileManager.getFileHistory(path) })
+    }
+
+    if (!id) {
+      return NextResponse.json({ error: "Version id is required" }, { status: 400 })
+    }
+
+    if (action === "content") {
+      const content = await fileManager.readHistoryVersion(path, id)
+      if (!content) {
+        return NextResponse.json({ error: "Version not found" }, { status: 404 })
+      }
+      const encoding = searchParams.get("encoding") === "base64" ? "base64" : "utf-8"
+      return NextResponse.json({ content: content.toString(encoding), encoding })
+    }
+
+    if (action === "diff") {
+      const diff = await fileManager.diffHistoryVersion(path, id, searchParams.get("against") || undefined)
+      if (!diff) {
+        return NextResponse.json({ error: "Version not found" }, { status: 404 })
+      }
+      return NextResponse.json(diff)
+    }
+
+    return NextResponse.json({ error: "Invalid action" }, { status: 400 })
+  } catch (error) {
+    if (error instanceof PathSecurityError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error("History error:", error)
+    return NextResponse.json({ error: "History operation failed" }, { status: 500 })
+  }
+}
+
+// Restore a version: { action: "restore", path, id }
+export async function POST(request: NextRequest) {
+  try {
+    const { fileManager } = await getServices()
+    const { action, path, id } = await request.json()
+
+    if (action !== "restore") {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 })
+    }
+    if (!path || !id) {
+      return NextResponse.json({ error: "Path and version id are required" }, { status: 400 })
+    }
+
+    const version = await fileManager.restoreHistoryVersion(path, id)
+    if (!version) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, mtime: version.mtime, hash: version.hash })
+  } catch (error) {
+    if (error instanceof PathSecurityError) {
+      return NextResponse.json({ error: error.message }, { status: 403 })
+    }
+    console.error("History restore error:", error)
+    return NextResponse.json({ error: "Restore failed" }, { status: 500 })
+  }
+}
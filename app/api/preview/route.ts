@@ -1,17 +1,17 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { PreviewManager } from "@/lib/local-container/preview-manager"
-
-const previewManager = new PreviewManager()
+import { getServices } from "@/lib/local-container/services"
+import type { PreviewConfig } from "@/lib/local-container/preview-manager"
 
 export async function POST(request: NextRequest) {
   try {
-    const { projectPath, projectType } = await request.json()
+    const { previewManager } = await getServices()
+    const { projectPath, config = {} } = (await request.json()) as { projectPath?: string; config?: PreviewConfig }
 
     if (!projectPath) {
       return NextResponse.json({ error: "Project path is required" }, { status: 400 })
     }
 
-    const preview = await previewManager.createPreview(projectPath, projectType)
+    const preview = await previewManager.createPreview(projectPath, config)
     return NextResponse.json(preview)
   } catch (error) {
     console.error("Preview creation error:", error)
@@ -21,8 +21,29 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
+    const { previewManager } = await getServices()
     const { searchParams } = new URL(request.url)
     const previewId = searchParams.get("id")
+    const action = searchParams.get("action")
+
+    if (previewId && action === "env") {
+      const env = previewManager.getPreviewEnv(previewId)
+      if (!env) {
+        return NextResponse.json({ error: "Preview not found" }, { status: 404 })
+      }
+      return NextResponse.json(env)
+    }
+
+    if (previewId && action === "logs") {
+      const logs = previewManager.getPreviewLogs(previewId, {
+        since: Number.parseInt(searchParams.get("since") || "0") || 0,
+        limit: Number.parseInt(searchParams.get("limit") || "") || undefined,
+      })
+      if (!logs) {
+        return NextResponse.json({ error: "Preview not found" }, { status: 404 })
+      }
+      return NextResponse.json({ logs })
+    }
 
     if (previewId) {
       const preview = previewManager.getPreview(previewId)
@@ -39,6 +60,7 @@ export async function GET(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const { previewManager } = await getServices()
     const { searchParams } = new URL(request.url)
     const previewId = searchParams.get("id")
 
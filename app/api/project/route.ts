@@ -1,33 +1,45 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { ProjectManager } from "@/lib/local-container/project-manager"
-
-const projectManager = new ProjectManager()
+import { getServices } from "@/lib/local-container/services"
+import { PathSecurityError } from "@/lib/local-container/path-security"
 
 export async function POST(request: NextRequest) {
   try {
+    const { projectManager } = await getServices()
     const { action, ...data } = await request.json()
 
     switch (action) {
-      case "export":
-        const exportResult = await projectManager.exportProject(data.projectPath, data.options)
-        return NextResponse.json(exportResult)
+      case "export": {
+        const buffer = await projectManager.exportProject(data.options)
+        return new Response(buffer, {
+          headers: {
+            "Content-Type": "application/zip",
+            "Content-Disposition": "attachment; filename=project.zip",
+          },
+        })
+      }
 
+      // The archive is sent base64-encoded
       case "import":
-        const importResult = await projectManager.importProject(data.filePath, data.targetPath)
-        return NextResponse.json(importResult)
+        if (!data.content) {
+          return NextResponse.json({ error: "Archive content is required" }, { status: 400 })
+        }
+        await projectManager.importProject(Buffer.from(data.content, "base64"), data.options)
+        return NextResponse.json({ success: true })
 
       case "clone":
-        const cloneResult = await projectManager.cloneRepository(data.repoUrl, data.targetPath)
-        return NextResponse.json(cloneResult)
+        await projectManager.cloneRepository(data.repoUrl, data.targetPath)
+        return NextResponse.json({ success: true })
 
       case "backup":
-        const backupResult = await projectManager.createBackup(data.projectPath)
-        return NextResponse.json(backupResult)
+        return NextResponse.json({ path: await projectManager.createBackup() })
 
       default:
         return NextResponse.json({ error: "Invalid action" }, { status: 400 })
     }
   } catch (error) {
+    if (error instanceof PathSecurityError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error("Project operation error:", error)
     return NextResponse.json({ error: "Project operation failed" }, { status: 500 })
   }
@@ -35,20 +47,26 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
+    const { projectManager, previewManager } = await getServices()
     const { searchParams } = new URL(request.url)
     const action = searchParams.get("action")
-    const projectPath = searchParams.get("path")
 
-    if (action === "info" && projectPath) {
-      const info = await projectManager.getProjectInfo(projectPath)
+    if (action === "info") {
+      const info = await projectManager.getProjectInfo()
       return NextResponse.json({ info })
     }
 
+    // Directories in the workspace that look like runnable projects
     if (action === "list") {
-      const projects = await projectManager.listProjects()
+      const projects = await previewManager.findProjects()
       return NextResponse.json({ projects })
     }
 
+    if (action === "backups") {
+      const backups = await projectManager.listBackups()
+      return NextResponse.json({ backups })
+    }
+
     return NextResponse.json({ error: "Invalid action" }, { status: 400 })
   } catch (error) {
     console.error("Project info error:", error)
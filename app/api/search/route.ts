@@ -0,0 +1,124 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServices } from "@/lib/local-container/services"
+import { SearchQueryError, compileSearchPattern, type SearchQuery } from "@/lib/local-container/search-index"
+
+// Streams newline-delimited JSON: one {type:"result"} line per matching file as it is
+// found, then a {type:"done"} line with the summary
+export async function GET(request: NextRequest) {
+  try {
+    const { fileManager } = await getServices()
+    const { searchParams } = new URL(request.url)
+    const query = parseQuery(searchParams)
+
+    // Reject bad patterns before the stream starts, while a status code can still be sent
+    compileSearchPattern(query)
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream({
+      async start(controller) {
+        try {
+          const { summary } = await fileManager.search(query, (result) => {
+            controller.enqueue(encoder.encode(JSON.stringify({ type: "result", ...result }) + "\n"))
+          })
+          controller.enqueue(encoder.encode(JSON.stringify({ type: "done", ...summary }) + "\n"))
+        } catch (error) {
+          controller.enqueue(encoder.encode(JSON.stringify({ type: "error", error: String(error) }) + "\n"))
+        } finally {
+          controller.close()
+        }
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson",
+        "Transfer-Encoding": "chunked",
+      },
+    })
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("Search error:", error)
+    return NextResponse.json({ error: "Search failed" }, { status: 500 })
+  }
+}
+
+// Replace in files: "preview" lists the changes, "apply" writes them (pass the preview's
+// hashes as expectedHashes to skip files edited in between) and "undo" reverts an apply
+export async function POST(request: NextRequest) {
+  try {
+    const { fileManager } = await getServices()
+    const body = await request.json()
+    const { action, replacement = "", files, expectedHashes, id } = body
+
+    switch (action) {
+      case "preview": {
+        const preview = await fileManager.previewReplace(toQuery(body), replacement)
+        return NextResponse.json(preview)
+      }
+
+      case "apply": {
+        const result = await fileManager.replaceInFiles(toQuery(body), replacement, { files, expectedHashes })
+        return NextResponse.json(result)
+      }
+
+      case "undo": {
+        const result = await fileManager.undoReplace(id)
+        if (!result) {
+          return NextResponse.json({ error: "Nothing to undo for this id" }, { status: 404 })
+        }
+        return NextResponse.json(result)
+      }
+
+      default:
+        return NextResponse.json({ error: "Invalid action" }, { status: 400 })
+    }
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error("Replace error:", error)
+    return NextResponse.json({ error: "Replace failed" }, { status: 500 })
+  }
+}
+
+function parseQuery(searchParams: URLSearchParams): SearchQuery {
+  const maxResults = Number.parseInt(searchParams.get("maxResults") || "", 10)
+
+  return {
+    query: searchParams.get("q") || "",
+    isRegex: searchParams.get("regex") === "true",
+    caseSensitive: searchParams.get("caseSensitive") === "true",
+    wholeWord: searchParams.get("wholeWord") === "true",
+    include: splitGlobs(searchParams.get("include")),
+    exclude: splitGlobs(searchParams.get("exclude")),
+    maxResults: Number.isNaN(maxResults) ? undefined : maxResults,
+  }
+}
+
+function toQuery(body: unknown): SearchQuery {
+  const fields = typeof body === "object" && body !== null ? (body as Record<string, unknown>) : {}
+  return {
+    query: typeof fields.query === "string" ? fields.query : "",
+    isRegex: !!fields.isRegex,
+    caseSensitive: !!fields.caseSensitive,
+    wholeWord: !!fields.wholeWord,
+    include: toGlobs(fields.include),
+    exclude: toGlobs(fields.exclude),
+  }
+}
+
+function toGlobs(value: unknown): string[] | undefined {
+  if (typeof value === "string") return splitGlobs(value)
+  return Array.isArray(value) ? value.filter((glob): glob is string => typeof glob === "string") : undefined
+}
+
+// Comma-separated, as typed into a files-to-include box
+function splitGlobs(value: string | null): string[] | undefined {
+  const globs = (value || "")
+    .split(",")
+    .map((glob) => glob.trim())
+    .filter(Boolean)
+  return globs.length > 0 ? globs : undefined
+}
@@ -1,19 +1,36 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { TerminalManager } from "@/lib/local-container/terminal-manager"
-
-const terminalManager = new TerminalManager()
+import { getServices } from "@/lib/local-container/services"
 
 export async function POST(request: NextRequest) {
   try {
-    const { command, sessionId, workingDirectory } = await request.json()
+    const { terminalManager } = await getServices()
+    const { command, sessionId, args = [] } = await request.json()
 
     if (!command) {
       return NextResponse.json({ error: "Command is required" }, { status: 400 })
     }
+    if (!sessionId || !terminalManager.getSession(sessionId)) {
+      return NextResponse.json({ error: "Terminal session not found" }, { status: 404 })
+    }
 
-    const result = await terminalManager.executeCommand(command, sessionId, workingDirectory)
-
-    return NextResponse.json(result)
+    const { output } = await terminalManager.executeCommand(sessionId, command, args)
+
+    // One JSON chunk per line, as the command produces it
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for await (const chunk of output) {
+            controller.enqueue(encoder.encode(JSON.stringify(chunk) + "\n"))
+          }
+          controller.close()
+        } catch (error) {
+          controller.error(error)
+        }
+      },
+    })
+
+    return new Response(stream, { headers: { "Content-Type": "text/plain" } })
   } catch (error) {
     console.error("Terminal execution error:", error)
     return NextResponse.json({ error: "Failed to execute command" }, { status: 500 })
@@ -22,6 +39,7 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
+    const { terminalManager } = await getServices()
     const { searchParams } = new URL(request.url)
     const sessionId = searchParams.get("sessionId")
 
@@ -1,28 +1,36 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { FileExplorer } from "../components/file-explorer/FileExplorer"
 import { TerminalPanel } from "../components/terminal/TerminalPanel"
 import { PreviewPanel } from "../components/preview/PreviewPanel"
 import { ProjectManager } from "../components/project/ProjectManager"
-import { FileManager } from "../lib/local-container/file-manager"
-import { TerminalManager } from "../lib/local-container/terminal-manager"
-import { PreviewManager } from "../lib/local-container/preview-manager"
-import { ProjectManager as ProjectManagerClass } from "../lib/local-container/project-manager"
-import { getLocalContainer } from "../lib/local-container"
-import { OptimizedFileSystem } from "../lib/local-container/optimized-file-system"
-import { PerformanceMonitor } from "../lib/local-container/performance-monitor"
+import { EditorPanel } from "../components/editor/EditorPanel"
+import { CommandPalette } from "../components/command-palette/CommandPalette"
+import type { FileManager } from "../lib/local-container/file-manager"
+import type { TerminalManager } from "../lib/local-container/terminal-manager"
+import type { PreviewManager } from "../lib/local-container/preview-manager"
+import type { ProjectManager as ProjectManagerClass } from "../lib/local-container/project-manager"
+import type { OptimizedFileSystem } from "../lib/local-container/optimized-file-system"
+import { getServices } from "../lib/local-container"
 import { Button } from "../components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../components/ui/tabs"
 import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "../components/ui/resizable"
 import { Folder, Terminal, Globe, Settings, Play } from "lucide-react"
 
+const MAX_RECENT_FILES = 20
+
 export default function Page() {
   const [fileManager, setFileManager] = useState<FileManager | null>(null)
   const [terminalManager, setTerminalManager] = useState<TerminalManager | null>(null)
   const [previewManager, setPreviewManager] = useState<PreviewManager | null>(null)
   const [projectManager, setProjectManager] = useState<ProjectManagerClass | null>(null)
-  const [selectedFile, setSelectedFile] = useState<string | null>(null)
+  const [fileSystem, setFileSystem] = useState<OptimizedFileSystem | null>(null)
+  const [openRequest, setOpenRequest] = useState<{ path: string; id: number } | null>(null)
+  // Most recently opened first, boosted in the go-to-file palette
+  const [recentFiles, setRecentFiles] = useState<string[]>([])
+  const [newTerminalRequest, setNewTerminalRequest] = useState(0)
+  const [activeView, setActiveView] = useState("editor")
   const [isInitialized, setIsInitialized] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -32,29 +40,14 @@ export default function Page() {
 
   const initializeManagers = async () => {
     try {
-      // Initialize container
-      const container = await getLocalContainer("workspace")
-
-      // Initialize performance monitor
-      const performanceMonitor = new PerformanceMonitor()
-      performanceMonitor.start()
-
-      // Initialize optimized file system
-      const optimizedFS = new OptimizedFileSystem("workspace", performanceMonitor)
-
-      // Initialize managers
-      const fileManagerInstance = new FileManager(optimizedFS, "workspace")
-      const terminalManagerInstance = new TerminalManager("workspace")
-      const previewManagerInstance = new PreviewManager(container)
-      const projectManagerInstance = new ProjectManagerClass(container)
-
-      // Initialize file manager
-      await fileManagerInstance.initialize()
-
-      setFileManager(fileManagerInstance)
-      setTerminalManager(terminalManagerInstance)
-      setPreviewManager(previewManagerInstance)
-      setProjectManager(projectManagerInstance)
+      // Shared container, watcher-backed file system and managers
+      const services = await getServices({ workdir: "workspace" })
+
+      setFileManager(services.fileManager)
+      setTerminalManager(services.terminalManager)
+      setPreviewManager(services.previewManager)
+      setProjectManager(services.projectManager)
+      setFileSystem(services.fs)
       setIsInitialized(true)
     } catch (err) {
       console.error("Failed to initialize managers:", err)
@@ -62,14 +55,15 @@ export default function Page() {
     }
   }
 
-  const handleFileSelect = (filePath: string) => {
-    setSelectedFile(filePath)
-  }
+  const handleFileOpen = useCallback((filePath: string) => {
+    setOpenRequest({ path: filePath, id: Date.now() })
+    setActiveView("editor")
+    setRecentFiles((prev) => [filePath, ...prev.filter((recent) => recent !== filePath)].slice(0, MAX_RECENT_FILES))
+  }, [])
 
-  const handleFileOpen = (filePath: string) => {
-    // Open file in editor (would be implemented with a code editor component)
-    console.log("Opening file:", filePath)
-  }
+  const handleNewTerminal = useCallback(() => setNewTerminalRequest((value) => value + 1), [])
+
+  const handleShowPreview = useCallback(() => setActiveView("preview"), [])
 
   if (error) {
     return (
@@ -96,6 +90,19 @@ export default function Page() {
 
   return (
     <div className="h-screen flex flex-col bg-gray-50">
+      {fileManager && previewManager && projectManager && fileSystem && (
+        <CommandPalette
+          fileManager={fileManager}
+          previewManager={previewManager}
+          projectManager={projectManager}
+          fileSystem={fileSystem}
+          recentFiles={recentFiles}
+          onFileOpen={handleFileOpen}
+          onNewTerminal={handleNewTerminal}
+          onShowPreview={handleShowPreview}
+        />
+      )}
+
       {/* Header */}
       <header className="bg-white border-b border-gray-200 px-4 py-3">
         <div className="flex items-center justify-between">
@@ -140,7 +147,7 @@ export default function Page() {
                   {fileManager && (
                     <FileExplorer
                       fileManager={fileManager}
-                      onFileSelect={handleFileSelect}
+                      projectManager={projectManager || undefined}
                       onFileOpen={handleFileOpen}
                       className="h-full"
                     />
@@ -159,7 +166,7 @@ export default function Page() {
           {/* Center - Editor/Preview */}
           <ResizablePanel defaultSize={50} minSize={30}>
             <div className="h-full bg-white">
-              <Tabs defaultValue="editor" className="h-full flex flex-col">
+              <Tabs value={activeView} onValueChange={setActiveView} className="h-full flex flex-col">
                 <TabsList className="bg-gray-50 rounded-none border-b justify-start">
                   <TabsTrigger value="editor">Editor</TabsTrigger>
                   <TabsTrigger value="preview" className="flex items-center gap-2">
@@ -168,17 +175,8 @@ export default function Page() {
                   </TabsTrigger>
                 </TabsList>
 
-                <TabsContent value="editor" className="flex-1 m-0 p-0">
-                  <div className="h-full flex items-center justify-center text-gray-500">
-                    {selectedFile ? (
-                      <div className="text-center">
-                        <p className="mb-2">Selected: {selectedFile}</p>
-                        <p className="text-sm">Code editor would be implemented here</p>
-                      </div>
-                    ) : (
-                      <p>Select a file to edit</p>
-                    )}
-                  </div>
+                <TabsContent value="editor" className="flex-1 m-0 p-0 min-h-0">
+                  {fileManager && <EditorPanel fileManager={fileManager} openRequest={openRequest} className="h-full" />}
                 </TabsContent>
 
                 <TabsContent value="preview" className="flex-1 m-0 p-0">
@@ -202,7 +200,7 @@ export default function Page() {
                 </div>
 
                 <div className="flex-1">
-                  <TerminalPanel />
+                  <TerminalPanel newSessionRequest={newTerminalRequest} />
                 </div>
               </div>
             </div>
@@ -0,0 +1,447 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useMemo, useCallback } from "react"
+import type { FileManager } from "../../lib/local-container/file-manager"
+import type { PreviewManager } from "../../lib/local-container/preview-manager"
+import type { ProjectManager } from "../../lib/local-container/project-manager"
+import type { OptimizedFileSystem } from "../../lib/local-container/optimized-file-system"
+import { downloadZip } from "../../lib/utils"
+import { Dialog, DialogContent, DialogTitle } from "../ui/dialog"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "../ui/command"
+import { Archive, Download, Eraser, File, FilePlus, Globe, RotateCcw, TerminalSquare } from "lucide-react"
+
+type PaletteMode = "files" | "commands" | "newFile"
+
+interface CommandPaletteProps {
+  fileManager: FileManager
+  previewManager: PreviewManager
+  projectManager: ProjectManager
+  fileSystem: OptimizedFileSystem
+  // Most recent first
+  recentFiles: string[]
+  onFileOpen: (filePath: string) => void
+  onNewTerminal: () => void
+  onShowPreview: () => void
+}
+
+interface PaletteCommand {
+  id: string
+  label: string
+  icon: React.ElementType
+  run: () => Promise<void> | void
+}
+
+interface FileMatch {
+  path: string
+  score: number
+  positions: number[]
+}
+
+// Typing this first in file mode switches to commands, as in most editors
+const COMMAND_PREFIX = ">"
+const MAX_FILE_RESULTS = 50
+// Added to the score of the most recently opened file, one less for each older one
+const RECENT_BOOST = 20
+
+export function CommandPalette({
+  fileManager,
+  previewManager,
+  projectManager,
+  fileSystem,
+  recentFiles,
+  onFileOpen,
+  onNewTerminal,
+  onShowPreview,
+}: CommandPaletteProps) {
+  const [open, setOpen] = useState(false)
+  const [mode, setMode] = useState<PaletteMode>("files")
+  const [input, setInput] = useState("")
+  const [files, setFiles] = useState<string[]>([])
+  const [runningCommand, setRunningCommand] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const show = useCallback((nextMode: PaletteMode, nextInput = "") => {
+    setMode(nextMode)
+    setInput(nextInput)
+    setError(null)
+    setOpen(true)
+  }, [])
+
+  useEffect(() => {
+    // Capture phase, so the shortcuts win over the editor and the browser's print dialog
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== "p") return
+
+      event.preventDefault()
+      event.stopPropagation()
+      show(event.shiftKey ? "commands" : "files")
+    }
+
+    window.addEventListener("keydown", handleKeyDown, true)
+    return () => window.removeEventListener("keydown", handleKeyDown, true)
+  }, [show])
+
+  useEffect(() => {
+    // Read the workspace each time the palette opens
+    if (!open) return
+    let cancelled = false
+    fileManager
+      .listFiles()
+      .then((paths) => {
+        if (!cancelled) setFiles(paths)
+      })
+      .catch((error) => console.error("Failed to list files:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [open, fileManager])
+
+  const handleInputChange = useCallback(
+    (value: string) => {
+      if (mode === "files" && value.startsWith(COMMAND_PREFIX)) {
+        setMode("commands")
+        setInput(value.slice(COMMAND_PREFIX.length))
+        return
+      }
+      setInput(value)
+      setError(null)
+    },
+    [mode],
+  )
+
+  const openFile = useCallback(
+    (filePath: string) => {
+      setOpen(false)
+      onFileOpen(filePath)
+    },
+    [onFileOpen],
+  )
+
+  const runCommand = useCallback(async (command: PaletteCommand) => {
+    setRunningCommand(command.id)
+    setError(null)
+    try {
+      await command.run()
+    } catch (commandError) {
+      console.error(`Command "${command.label}" failed:`, commandError)
+      setError(commandError instanceof Error ? commandError.message : String(commandError))
+    } finally {
+      setRunningCommand(null)
+    }
+  }, [])
+
+  const createFile = useCallback(async () => {
+    const filePath = input.trim().replace(/^\/+/, "")
+    if (!filePath) return
+
+    setRunningCommand("newFile")
+    setError(null)
+    try {
+      if (await fileSystem.exists(filePath)) {
+        throw new Error(`${filePath} already exists`)
+      }
+      await fileManager.createFile(filePath)
+      openFile(filePath)
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : String(createError))
+    } finally {
+      setRunningCommand(null)
+    }
+  }, [input, fileManager, fileSystem, openFile])
+
+  const commands = useMemo((): PaletteCommand[] => {
+    const list: PaletteCommand[] = [
+      {
+        id: "newFile",
+        label: "New File...",
+        icon: FilePlus,
+        run: () => show("newFile"),
+      },
+      {
+        id: "startPreview",
+        label: "Start Preview",
+        icon: Globe,
+        run: async () => {
+          await previewManager.createPreview(".")
+          setOpen(false)
+          onShowPreview()
+        },
+      },
+    ]
+
+    previewManager.getAllPreviews().forEach((preview) => {
+      list.push({
+        id: `restartPreview:${preview.id}`,
+        label: `Restart Preview: ${preview.projectPath === "." ? "(root)" : preview.projectPath} on port ${preview.port}`,
+        icon: RotateCcw,
+        run: async () => {
+          if (!(await previewManager.restartPreview(preview.id))) {
+            throw new Error(`Failed to restart preview on port ${preview.port}`)
+          }
+          setOpen(false)
+          onShowPreview()
+        },
+      })
+    })
+
+    list.push(
+      {
+        id: "newTerminal",
+        label: "New Terminal",
+        icon: TerminalSquare,
+        run: () => {
+          setOpen(false)
+          onNewTerminal()
+        },
+      },
+      {
+        id: "exportProject",
+        label: "Export Project",
+        icon: Download,
+        run: async () => {
+          const buffer = await projectManager.exportProject()
+          downloadZip(buffer, "project.zip")
+          setOpen(false)
+        },
+      },
+      {
+        id: "createBackup",
+        label: "Create Backup",
+        icon: Archive,
+        run: async () => {
+          await projectManager.createBackup()
+          setOpen(false)
+        },
+      },
+      {
+        id: "clearCache",
+        label: "Clear File Cache",
+        icon: Eraser,
+        run: () => {
+          fileSystem.clearCache()
+          setOpen(false)
+        },
+      },
+    )
+
+    return list
+    // Rebuilt on open so the restart entries track the running previews
+  }, [open, previewManager, projectManager, fileSystem, show, onShowPreview, onNewTerminal])
+
+  const fileMatches = useMemo(
+    () => (mode === "files" ? rankFiles(files, input, recentFiles) : []),
+    [mode, files, input, recentFiles],
+  )
+
+  const commandMatches = useMemo(() => {
+    if (mode !== "commands") return []
+    if (!input) return commands
+
+    return commands
+      .map((command) => ({ command, match: fuzzyMatch(input, command.label) }))
+      .filter(({ match }) => match !== null)
+      .sort((a, b) => b.match!.score - a.match!.score)
+      .map(({ command }) => command)
+  }, [mode, commands, input])
+
+  const placeholder =
+    mode === "files"
+      ? `Go to file (type ${COMMAND_PREFIX} for commands)`
+      : mode === "commands"
+        ? "Run a command"
+        : "Path of the new file, e.g. src/index.ts"
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg top-[20%] translate-y-0">
+        <DialogTitle className="sr-only">Command Palette</DialogTitle>
+        <Command shouldFilter={false} loop>
+          <CommandInput
+            placeholder={placeholder}
+            value={input}
+            onValueChange={handleInputChange}
+            onKeyDown={(event) => {
+              // Backspace on an empty input steps back out of the current mode
+              if (mode !== "files" && event.key === "Backspace" && !input) {
+                event.preventDefault()
+                setMode(mode === "newFile" ? "commands" : "files")
+                setError(null)
+              }
+              if (mode === "newFile" && event.key === "Enter") {
+                event.preventDefault()
+                createFile()
+              }
+            }}
+          />
+          {error && <div className="px-3 py-2 text-xs text-red-600 border-b">{error}</div>}
+          <CommandList>
+            {mode === "files" && (
+              <>
+                <CommandEmpty>No matching files</CommandEmpty>
+                <CommandGroup heading="Files">
+                  {fileMatches.map((match) => (
+                    <CommandItem key={match.path} value={match.path} onSelect={() => openFile(match.path)}>
+                      <File />
+                      <HighlightedPath path={match.path} positions={match.positions} />
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </>
+            )}
+
+            {mode === "commands" && (
+              <>
+                <CommandEmpty>No matching commands</CommandEmpty>
+                <CommandGroup heading="Commands">
+                  {commandMatches.map((command) => {
+                    const Icon = command.icon
+                    return (
+                      <CommandItem
+                        key={command.id}
+                        value={command.id}
+                        disabled={runningCommand !== null}
+                        onSelect={() => runCommand(command)}
+                      >
+                        <Icon />
+                        <span>{command.label}</span>
+                        {runningCommand === command.id && <CommandShortcut>Running...</CommandShortcut>}
+                      </CommandItem>
+                    )
+                  })}
+                </CommandGroup>
+              </>
+            )}
+
+            {mode === "newFile" && (
+              <div className="px-3 py-4 text-xs text-gray-500">
+                {runningCommand === "newFile" ? "Creating..." : "Press Enter to create the file and open it"}
+              </div>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function HighlightedPath({ path, positions }: { path: string; positions: number[] }) {
+  const nameStart = path.lastIndexOf("/") + 1
+  const highlighted = new Set(positions)
+
+  const renderRange = (start: number, end: number) =>
+    path
+      .slice(start, end)
+      .split("")
+      .map((char, index) =>
+        highlighted.has(start + index) ? (
+          <span key={start + index} className="font-semibold text-blue-600">
+            {char}
+          </span>
+        ) : (
+          char
+        ),
+      )
+
+  return (
+    <span className="flex min-w-0 items-baseline gap-2">
+      <span className="truncate">{renderRange(nameStart, path.length)}</span>
+      {nameStart > 0 && <span className="truncate text-xs text-gray-500">{renderRange(0, nameStart - 1)}</span>}
+    </span>
+  )
+}
+
+function rankFiles(files: string[], query: string, recentFiles: string[]): FileMatch[] {
+  const recentRank = new Map<string, number>()
+  recentFiles.forEach((filePath, index) => recentRank.set(filePath, index))
+  const boost = (filePath: string) => {
+    const rank = recentRank.get(filePath)
+    return rank === undefined ? 0 : Math.max(RECENT_BOOST - rank, 1)
+  }
+
+  if (!query.trim()) {
+    // Recent files first, then the tree in order
+    const recent = recentFiles.filter((filePath) => files.includes(filePath))
+    const rest = files.filter((filePath) => !recentRank.has(filePath))
+    return recent
+      .concat(rest)
+      .slice(0, MAX_FILE_RESULTS)
+      .map((filePath) => ({ path: filePath, score: 0, positions: [] }))
+  }
+
+  const needle = query.replace(/\s+/g, "")
+  const matches: FileMatch[] = []
+  files.forEach((filePath) => {
+    const match = fuzzyMatch(needle, filePath)
+    if (match) {
+      matches.push({ path: filePath, score: match.score + boost(filePath), positions: match.positions })
+    }
+  })
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.path.length - b.path.length || a.path.localeCompare(b.path))
+    .slice(0, MAX_FILE_RESULTS)
+}
+
+// Subsequence match, case-insensitive. Consecutive characters, word starts and matches in
+// the file name score higher; matching entirely within the file name is tried first.
+function fuzzyMatch(query: string, target: string): { score: number; positions: number[] } | null {
+  if (!query) return { score: 0, positions: [] }
+
+  const nameStart = target.lastIndexOf("/") + 1
+  const inName = matchFrom(query, target, nameStart)
+  const anywhere = inName ? null : matchFrom(query, target, 0)
+  const best = inName || anywhere
+  if (!best) return null
+
+  let score = 0
+  best.forEach((position, index) => {
+    score += 1
+    if (index > 0 && best[index - 1] === position - 1) score += 5
+    if (isWordStart(target, position)) score += 3
+    if (position >= nameStart) score += 2
+  })
+  if (target.slice(nameStart).toLowerCase().startsWith(query.toLowerCase())) score += 10
+  // Shorter paths win ties between otherwise equal matches
+  score -= target.length / 100
+
+  return { score, positions: best }
+}
+
+function matchFrom(query: string, target: string, start: number): number[] | null {
+  const lowerQuery = query.toLowerCase()
+  const lowerTarget = target.toLowerCase()
+  const positions: number[] = []
+
+  let cursor = start
+  for (let i = 0; i < lowerQuery.length; i++) {
+    const position = lowerTarget.indexOf(lowerQuery[i], cursor)
+    if (position === -1) return null
+    positions.push(position)
+    cursor = position + 1
+  }
+  return positions
+}
+
+function isWordStart(target: string, position: number): boolean {
+  if (position === 0) return true
+  const previous = target[position - 1]
+  const current = target[position]
+  return (
+    previous === "/" ||
+    previous === "." ||
+    previous === "-" ||
+    previous === "_" ||
+    previous === " " ||
+    (current !== current.toLowerCase() && previous === previous.toLowerCase())
+  )
+}
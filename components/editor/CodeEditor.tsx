@@ -0,0 +1,38 @@
+"use client"
+
+import { useMemo } from "react"
+import CodeMirror from "@uiw/react-codemirror"
+import { loadLanguage, type LanguageName } from "@uiw/codemirror-extensions-langs"
+import { getFileLanguage } from "../../lib/local-container/file-types"
+
+interface CodeEditorProps {
+  filePath: string
+  value: string
+  onChange: (value: string) => void
+  readOnly?: boolean
+  className?: string
+}
+
+export function CodeEditor({ filePath, value, onChange, readOnly = false, className }: CodeEditorProps) {
+  const extensions = useMemo(() => {
+    const language = getFileLanguage(filePath)
+    const support = language ? loadLanguage(language as LanguageName) : null
+    return support ? [support] : []
+  }, [filePath])
+
+  return (
+    <CodeMirror
+      value={value}
+      height="100%"
+      extensions={extensions}
+      onChange={onChange}
+      readOnly={readOnly}
+      className={`code-editor h-full text-sm ${className || ""}`}
+      basicSetup={{
+        lineNumbers: true,
+        foldGutter: true,
+        highlightActiveLine: true,
+      }}
+    />
+  )
+}
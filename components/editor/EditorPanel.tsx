@@ -0,0 +1,307 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import type { FileManager } from "../../lib/local-container/file-manager"
+import type { FileChangeEvent } from "../../lib/local-container/file-watcher"
+import { isTextFile } from "../../lib/local-container/file-types"
+import { WriteConflictError } from "../../lib/local-container/file-system"
+import { CodeEditor } from "./CodeEditor"
+import { Button } from "../ui/button"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs"
+import { X, Save, AlertTriangle, FileCode } from "lucide-react"
+
+interface EditorBuffer {
+  path: string
+  content: string
+  savedContent: string
+  isBinary: boolean
+  externalChange: "modified" | "deleted" | null
+  // Hash of the disk content savedContent came from; saves are conditional on it
+  hash: string | null
+  // Hash of the conflicting disk content, adopted by "Keep Mine"
+  diskHash: string | null
+}
+
+interface EditorPanelProps {
+  fileManager: FileManager
+  openRequest?: { path: string; id: number } | null
+  className?: string
+}
+
+export function EditorPanel({ fileManager, openRequest, className }: EditorPanelProps) {
+  const [buffers, setBuffers] = useState<EditorBuffer[]>([])
+  const [activePath, setActivePath] = useState<string | null>(null)
+  const [savingPath, setSavingPath] = useState<string | null>(null)
+  const buffersRef = useRef<EditorBuffer[]>([])
+
+  useEffect(() => {
+    buffersRef.current = buffers
+  }, [buffers])
+
+  const updateBuffer = useCallback((filePath: string, changes: Partial<EditorBuffer>) => {
+    setBuffers((prev) => prev.map((b) => (b.path === filePath ? { ...b, ...changes } : b)))
+  }, [])
+
+  const openFile = useCallback(
+    async (filePath: string) => {
+      const normalizedPath = normalizePath(filePath)
+
+      if (buffersRef.current.some((b) => b.path === normalizedPath)) {
+        setActivePath(normalizedPath)
+        return
+      }
+
+      try {
+        const isBinary = !isTextFile(normalizedPath)
+        const { content, version } = isBinary
+          ? { content: "", version: null }
+          : await fileManager.readFileWithVersion(normalizedPath)
+
+        setBuffers((prev) =>
+          prev.some((b) => b.path === normalizedPath)
+            ? prev
+            : [
+                ...prev,
+                {
+                  path: normalizedPath,
+                  content,
+                  savedContent: content,
+                  isBinary,
+                  externalChange: null,
+                  hash: version?.hash || null,
+                  diskHash: null,
+                },
+              ],
+        )
+        setActivePath(normalizedPath)
+      } catch (error) {
+        console.error("Failed to open file:", error)
+      }
+    },
+    [fileManager],
+  )
+
+  useEffect(() => {
+    if (openRequest) {
+      openFile(openRequest.path)
+    }
+  }, [openRequest, openFile])
+
+  const saveBuffer = useCallback(
+    async (filePath: string) => {
+      const buffer = buffersRef.current.find((b) => b.path === filePath)
+      if (!buffer || buffer.isBinary) return
+
+      setSavingPath(filePath)
+      try {
+        const version = await fileManager.writeFile(
+          filePath,
+          buffer.content,
+          buffer.hash ? { expectedHash: buffer.hash } : undefined,
+        )
+        updateBuffer(filePath, { savedContent: buffer.content, externalChange: null, hash: version.hash, diskHash: null })
+      } catch (error) {
+        if (error instanceof WriteConflictError) {
+          // Someone else wrote the file since we read it; let the user choose whose version wins
+          updateBuffer(filePath, {
+            externalChange: error.current ? "modified" : "deleted",
+            diskHash: error.current?.hash || null,
+          })
+          return
+        }
+        console.error("Failed to save file:", error)
+      } finally {
+        setSavingPath(null)
+      }
+    },
+    [fileManager, updateBuffer],
+  )
+
+  const reloadBuffer = useCallback(
+    async (filePath: string) => {
+      try {
+        const { content, version } = await fileManager.readFileWithVersion(filePath)
+        updateBuffer(filePath, { content, savedContent: content, externalChange: null, hash: version.hash, diskHash: null })
+      } catch (error) {
+        console.error("Failed to reload file:", error)
+      }
+    },
+    [fileManager, updateBuffer],
+  )
+
+  const closeBuffer = useCallback((filePath: string) => {
+    const buffer = buffersRef.current.find((b) => b.path === filePath)
+    if (buffer && isDirty(buffer) && !confirm(`${filePath} has unsaved changes. Close anyway?`)) {
+      return
+    }
+
+    const remaining = buffersRef.current.filter((b) => b.path !== filePath)
+    setBuffers((prev) => prev.filter((b) => b.path !== filePath))
+    setActivePath((current) => (current === filePath ? remaining[remaining.length - 1]?.path || null : current))
+  }, [])
+
+  useEffect(() => {
+    // Keep open buffers in sync with edits made outside the editor
+    const handleFileChange = async (event: FileChangeEvent) => {
+      const filePath = normalizePath(event.path)
+      const buffer = buffersRef.current.find((b) => b.path === filePath)
+      if (!buffer || buffer.isBinary) return
+
+      if (event.type === "unlink") {
+        updateBuffer(filePath, { externalChange: "deleted", diskHash: null })
+        return
+      }
+
+      if (event.type !== "change" && event.type !== "add") return
+
+      try {
+        const { content: diskContent, version } = await fileManager.readFileWithVersion(filePath)
+        if (diskContent === buffer.savedContent) return // Our own save, or no real change
+
+        if (isDirty(buffer)) {
+          updateBuffer(filePath, { externalChange: "modified", diskHash: version.hash })
+        } else {
+          updateBuffer(filePath, {
+            content: diskContent,
+            savedContent: diskContent,
+            externalChange: null,
+            hash: version.hash,
+            diskHash: null,
+          })
+        }
+      } catch (error) {
+        console.warn(`Failed to reload ${filePath} after external change:`, error)
+      }
+    }
+
+    fileManager.on("fileChange", handleFileChange)
+
+    return () => {
+      fileManager.off("fileChange", handleFileChange)
+    }
+  }, [fileManager, updateBuffer])
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "s") {
+        event.preventDefault()
+        if (activePath) {
+          saveBuffer(activePath)
+        }
+      }
+    },
+    [activePath, saveBuffer],
+  )
+
+  if (buffers.length === 0) {
+    return (
+      <div className={`editor-panel h-full flex items-center justify-center text-gray-500 ${className || ""}`}>
+        <div className="text-center">
+          <FileCode className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-sm">Open a file to start editing</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`editor-panel h-full flex flex-col ${className || ""}`} onKeyDownCapture={handleKeyDown}>
+      <Tabs value={activePath || ""} onValueChange={setActivePath} className="flex-1 flex flex-col min-h-0">
+        <TabsList className="bg-gray-50 border-b border-gray-200 rounded-none justify-start overflow-x-auto">
+          {buffers.map((buffer) => (
+            <TabsTrigger
+              key={buffer.path}
+              value={buffer.path}
+              title={buffer.path}
+              className="relative group data-[state=active]:bg-white"
+            >
+              <span className="text-xs">{buffer.path.split("/").pop()}</span>
+              {isDirty(buffer) && <span className="ml-1 text-xs text-blue-500">●</span>}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-2 p-0 h-4 w-4 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-400"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  closeBuffer(buffer.path)
+                }}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </TabsTrigger>
+          ))}
+        </TabsList>
+
+        {buffers.map((buffer) => (
+          <TabsContent key={buffer.path} value={buffer.path} className="flex-1 m-0 p-0 flex flex-col min-h-0">
+            {/* Editor Controls */}
+            <div className="editor-controls px-3 py-1 border-b border-gray-200 flex items-center justify-between">
+              <span className="text-xs text-gray-500 truncate">{buffer.path}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => saveBuffer(buffer.path)}
+                disabled={buffer.isBinary || !isDirty(buffer) || savingPath === buffer.path}
+                className="h-6 px-2 text-xs"
+              >
+                <Save className="w-3 h-3 mr-1" />
+                Save
+              </Button>
+            </div>
+
+            {buffer.externalChange && (
+              <div className="px-3 py-2 bg-yellow-50 border-b border-yellow-200 flex items-center justify-between text-xs">
+                <div className="flex items-center gap-2 text-yellow-800">
+                  <AlertTriangle className="w-3 h-3" />
+                  {buffer.externalChange === "deleted"
+                    ? "This file was deleted on disk."
+                    : "This file changed on disk and you have unsaved changes."}
+                </div>
+                <div className="flex items-center gap-2">
+                  {buffer.externalChange === "modified" && (
+                    <Button variant="outline" size="sm" className="h-6 text-xs" onClick={() => reloadBuffer(buffer.path)}>
+                      Reload
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 text-xs"
+                    // The next save overwrites what is on disk now
+                    onClick={() => updateBuffer(buffer.path, { externalChange: null, hash: buffer.diskHash, diskHash: null })}
+                  >
+                    Keep Mine
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="flex-1 min-h-0 overflow-hidden">
+              {buffer.isBinary ? (
+                <div className="h-full flex items-center justify-center text-gray-500 text-sm">
+                  Binary file cannot be edited
+                </div>
+              ) : (
+                <CodeEditor
+                  filePath={buffer.path}
+                  value={buffer.content}
+                  onChange={(content) => updateBuffer(buffer.path, { content })}
+                />
+              )}
+            </div>
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  )
+}
+
+function isDirty(buffer: EditorBuffer): boolean {
+  return buffer.content !== buffer.savedContent
+}
+
+function normalizePath(filePath: string): string {
+  return filePath.replace(/\\/g, "/").replace(/^\.\//, "")
+}
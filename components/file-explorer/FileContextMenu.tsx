@@ -5,17 +5,38 @@ import type React from "react"
 import { useState, useEffect, useRef } from "react"
 import { Button } from "../ui/button"
 import { Input } from "../ui/input"
-import { Edit, Trash2, Plus, FolderPlus } from "lucide-react"
+import {
+  Edit,
+  Trash2,
+  Plus,
+  FolderPlus,
+  Scissors,
+  Copy,
+  ClipboardPaste,
+  History,
+  Files,
+  Archive,
+} from "lucide-react"
 
 interface FileContextMenuProps {
   x: number
   y: number
   filePath: string
   isDirectory: boolean
+  // Entries the actions apply to; above 1 only the actions that work on many are offered
+  selectionCount?: number
   onClose: () => void
   onDelete: (filePath: string) => void
   onRename: (oldPath: string, newName: string) => void
   onCreate: (type: "file" | "directory") => void
+  onCut: (filePath: string) => void
+  onCopy: (filePath: string) => void
+  // Pastes into the directory, or next to the file; omitted when the clipboard is empty
+  onPaste?: (filePath: string) => void
+  onShowHistory: (filePath: string) => void
+  onOpenAll: (filePath: string) => void
+  // Omitted when exporting isn't available
+  onExport?: (filePath: string) => void
 }
 
 export function FileContextMenu({
@@ -23,14 +44,22 @@ export function FileContextMenu({
   y,
   filePath,
   isDirectory,
+  selectionCount = 1,
   onClose,
   onDelete,
   onRename,
   onCreate,
+  onCut,
+  onCopy,
+  onPaste,
+  onShowHistory,
+  onOpenAll,
+  onExport,
 }: FileContextMenuProps) {
   const [isRenaming, setIsRenaming] = useState(false)
   const [newName, setNewName] = useState("")
   const menuRef = useRef<HTMLDivElement>(null)
+  const isMultiple = selectionCount > 1
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -73,6 +102,36 @@ export function FileContextMenu({
     onClose()
   }
 
+  const handleCut = () => {
+    onCut(filePath)
+    onClose()
+  }
+
+  const handleCopy = () => {
+    onCopy(filePath)
+    onClose()
+  }
+
+  const handlePaste = () => {
+    onPaste?.(filePath)
+    onClose()
+  }
+
+  const handleShowHistory = () => {
+    onShowHistory(filePath)
+    onClose()
+  }
+
+  const handleOpenAll = () => {
+    onOpenAll(filePath)
+    onClose()
+  }
+
+  const handleExport = () => {
+    onExport?.(filePath)
+    onClose()
+  }
+
   const handleCreateFile = () => {
     onCreate("file")
     onClose()
@@ -101,10 +160,14 @@ export function FileContextMenu({
         </form>
       ) : (
         <>
-          <Button variant="ghost" size="sm" className="w-full justify-start h-8 px-3 text-xs" onClick={handleRename}>
-            <Edit className="w-3 h-3 mr-2" />
-            Rename
-          </Button>
+          {isMultiple ? (
+            <div className="px-3 py-1 text-xs text-gray-500">{selectionCount} items selected</div>
+          ) : (
+            <Button variant="ghost" size="sm" className="w-full justify-start h-8 px-3 text-xs" onClick={handleRename}>
+              <Edit className="w-3 h-3 mr-2" />
+              Rename
+            </Button>
+          )}
 
           <Button
             variant="ghost"
@@ -116,7 +179,55 @@ export function FileContextMenu({
             Delete
           </Button>
 
-          {isDirectory && (
+          <div className="border-t border-gray-100 my-1" />
+          <Button variant="ghost" size="sm" className="w-full justify-start h-8 px-3 text-xs" onClick={handleCut}>
+            <Scissors className="w-3 h-3 mr-2" />
+            Cut
+          </Button>
+
+          <Button variant="ghost" size="sm" className="w-full justify-start h-8 px-3 text-xs" onClick={handleCopy}>
+            <Copy className="w-3 h-3 mr-2" />
+            Copy
+          </Button>
+
+          {onPaste && (
+            <Button variant="ghost" size="sm" className="w-full justify-start h-8 px-3 text-xs" onClick={handlePaste}>
+              <ClipboardPaste className="w-3 h-3 mr-2" />
+              Paste
+            </Button>
+          )}
+
+          {(isMultiple || onExport) && <div className="border-t border-gray-100 my-1" />}
+          {isMultiple && (
+            <Button variant="ghost" size="sm" className="w-full justify-start h-8 px-3 text-xs" onClick={handleOpenAll}>
+              <Files className="w-3 h-3 mr-2" />
+              Open All
+            </Button>
+          )}
+
+          {onExport && (
+            <Button variant="ghost" size="sm" className="w-full justify-start h-8 px-3 text-xs" onClick={handleExport}>
+              <Archive className="w-3 h-3 mr-2" />
+              Export as Zip
+            </Button>
+          )}
+
+          {!isDirectory && !isMultiple && (
+            <>
+              <div className="border-t border-gray-100 my-1" />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start h-8 px-3 text-xs"
+                onClick={handleShowHistory}
+              >
+                <History className="w-3 h-3 mr-2" />
+                Local History
+              </Button>
+            </>
+          )}
+
+          {isDirectory && !isMultiple && (
             <>
               <div className="border-t border-gray-100 my-1" />
               <Button
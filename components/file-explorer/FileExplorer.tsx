@@ -2,28 +2,56 @@
 
 import type React from "react"
 
-import { useState, useEffect, useCallback } from "react"
-import type { FileNode, FileManager } from "../../lib/local-container/file-manager"
-import { FileTree } from "./FileTree"
+import { useState, useEffect, useCallback, useRef, useMemo } from "react"
+import {
+  DIRECTORY_PAGE_SIZE,
+  type BatchResult,
+  type FileNode,
+  type FileManager,
+  type FileTreeDiff,
+  type UploadConflictPolicy,
+} from "../../lib/local-container/file-manager"
+import type { ProjectManager } from "../../lib/local-container/project-manager"
+import { downloadZip } from "../../lib/utils"
+import { FileTree, type DirectoryListing, type SelectMode } from "./FileTree"
 import { FileContextMenu } from "./FileContextMenu"
 import { CreateFileDialog } from "./CreateFileDialog"
+import { SearchPanel } from "./SearchPanel"
+import { LocalHistoryDialog } from "./LocalHistoryDialog"
+import { TrashDialog } from "./TrashDialog"
+import {
+  collectDroppedFiles,
+  uploadFiles,
+  UploadConflictDialog,
+  UploadProgress,
+  type DroppedFile,
+  type UploadProgressState,
+} from "./FileUpload"
 import { Button } from "../ui/button"
 import { Input } from "../ui/input"
-import { Search, Plus, FolderPlus, RefreshCw } from "lucide-react"
+import { Search, Plus, FolderPlus, RefreshCw, Eye, EyeOff, Trash2 } from "lucide-react"
 
 interface FileExplorerProps {
   fileManager: FileManager
+  // Enables exporting the selection as a zip
+  projectManager?: ProjectManager
   onFileSelect?: (filePath: string) => void
   onFileOpen?: (filePath: string) => void
   className?: string
 }
 
-export function FileExplorer({ fileManager, onFileSelect, onFileOpen, className }: FileExplorerProps) {
-  const [fileTree, setFileTree] = useState<FileNode | null>(null)
+const ROOT_NODE: FileNode = { name: ".", path: ".", type: "directory" }
+const EMPTY_LISTING: DirectoryListing = { entries: [], total: 0, nextCursor: null, loading: false }
+
+export function FileExplorer({ fileManager, projectManager, onFileSelect, onFileOpen, className }: FileExplorerProps) {
+  // Only directories the user has opened are listed, a page at a time
+  const [directories, setDirectories] = useState<Record<string, DirectoryListing>>({})
+  const directoriesRef = useRef(directories)
   const [searchQuery, setSearchQuery] = useState("")
-  const [searchResults, setSearchResults] = useState<any[]>([])
-  const [isSearching, setIsSearching] = useState(false)
-  const [selectedFile, setSelectedFile] = useState<string | null>(null)
+  const [selection, setSelection] = useState<Set<string>>(new Set())
+  // Last entry clicked without Shift; ranges extend from it and pastes land next to it
+  const [anchor, setAnchor] = useState<string | null>(null)
+  const contentRef = useRef<HTMLDivElement>(null)
   const [contextMenu, setContextMenu] = useState<{
     x: number
     y: number
@@ -35,24 +63,121 @@ export function FileExplorer({ fileManager, onFileSelect, onFileOpen, className
     parentPath: string
   } | null>(null)
   const [isRefreshing, setIsRefreshing] = useState(false)
+  // Entries waiting to be pasted; cut entries are moved on paste, copied ones duplicated
+  const [clipboard, setClipboard] = useState<{ paths: string[]; cut: boolean } | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [historyPath, setHistoryPath] = useState<string | null>(null)
+  const [showTrash, setShowTrash] = useState(false)
+  // Dropped files waiting for the user to decide what happens to existing ones
+  const [pendingUpload, setPendingUpload] = useState<{
+    files: DroppedFile[]
+    targetDir: string
+    conflicts: string[]
+  } | null>(null)
+  const [uploadProgress, setUploadProgress] = useState<UploadProgressState | null>(null)
+  // Also list files matched by .gitignore, .boltignore and the default ignore rules
+  const [showIgnored, setShowIgnored] = useState(false)
 
   useEffect(() => {
-    // Initialize file manager and load file tree
-    const initializeFileManager = async () => {
+    directoriesRef.current = directories
+  }, [directories])
+
+  const loadChildren = useCallback(
+    async (dirPath: string, cursor?: string) => {
+      setDirectories((prev) => ({
+        ...prev,
+        [dirPath]: { ...(prev[dirPath] || EMPTY_LISTING), loading: true },
+      }))
+
       try {
-        await fileManager.initialize()
-        const tree = fileManager.getFileTree()
-        setFileTree(tree)
+        const page = await fileManager.listDirectory(dirPath, { cursor, showIgnored })
+        setDirectories((prev) => ({
+          ...prev,
+          [dirPath]: {
+            entries: cursor && prev[dirPath] ? [...prev[dirPath].entries, ...page.entries] : page.entries,
+            total: page.total,
+            nextCursor: page.nextCursor,
+            loading: false,
+          },
+        }))
       } catch (error) {
-        console.error("Failed to initialize file manager:", error)
+        console.error(`Failed to list ${dirPath}:`, error)
+        setDirectories((prev) => ({
+          ...prev,
+          [dirPath]: { ...(prev[dirPath] || EMPTY_LISTING), loading: false },
+        }))
       }
-    }
+    },
+    [fileManager, showIgnored],
+  )
+
+  // Re-list open directories, keeping as many entries as were already shown
+  const reloadDirectories = useCallback(
+    async (dirPaths: string[]) => {
+      await Promise.all(
+        dirPaths.map(async (dirPath) => {
+          const listing = directoriesRef.current[dirPath]
+          if (!listing) return
+
+          try {
+            const page = await fileManager.listDirectory(dirPath, {
+              limit: Math.max(listing.entries.length, DIRECTORY_PAGE_SIZE),
+              showIgnored,
+            })
+            setDirectories((prev) =>
+              prev[dirPath]
+                ? {
+                    ...prev,
+                    [dirPath]: { entries: page.entries, total: page.total, nextCursor: page.nextCursor, loading: false },
+                  }
+                : prev,
+            )
+          } catch (error) {
+            // Removed along with a parent; the removal drops it from the listing
+            console.warn(`Failed to reload ${dirPath}:`, error)
+          }
+        }),
+      )
+    },
+    [fileManager, showIgnored],
+  )
+
+  useEffect(() => {
+    fileManager.initialize().catch((error) => {
+      console.error("Failed to initialize file manager:", error)
+    })
+
+    const handleTreeUpdate = (diff: FileTreeDiff) => {
+      if (diff.rebuilt) {
+        reloadDirectories(Object.keys(directoriesRef.current))
+        return
+      }
+
+      // Forget listings of removed directories, then refresh the parents that changed
+      if (diff.removed.length > 0) {
+        const isRemoved = (entryPath: string) =>
+          diff.removed.some((removed) => entryPath === removed || entryPath.startsWith(`${removed}/`))
+        setSelection((prev) => {
+          const next = new Set(Array.from(prev).filter((entryPath) => !isRemoved(entryPath)))
+          return next.size === prev.size ? prev : next
+        })
 
-    initializeFileManager()
+        setDirectories((prev) => {
+          const next = { ...prev }
+          Object.keys(next).forEach((dirPath) => {
+            if (diff.removed.some((removed) => dirPath === removed || dirPath.startsWith(`${removed}/`))) {
+              delete next[dirPath]
+            }
+          })
+          return next
+        })
+      }
 
-    // Listen for file tree updates
-    const handleTreeUpdate = (tree: FileNode) => {
-      setFileTree(tree)
+      const parents = new Set<string>()
+      diff.added.forEach((node) => parents.add(parentOf(node.path)))
+      diff.changed.forEach((node) => parents.add(parentOf(node.path)))
+      diff.removed.forEach((removedPath) => parents.add(parentOf(removedPath)))
+      reloadDirectories(Array.from(parents))
     }
 
     fileManager.on("treeUpdated", handleTreeUpdate)
@@ -60,41 +185,57 @@ export function FileExplorer({ fileManager, onFileSelect, onFileOpen, className
     return () => {
       fileManager.off("treeUpdated", handleTreeUpdate)
     }
-  }, [fileManager])
+  }, [fileManager, reloadDirectories])
 
-  const handleSearch = useCallback(
-    async (query: string) => {
-      if (!query.trim()) {
-        setSearchResults([])
-        setIsSearching(false)
+  // Paths of the rows on screen, top to bottom
+  const visibleRows = useCallback((): string[] => {
+    const rows = contentRef.current?.querySelectorAll<HTMLElement>("[data-path]")
+    return Array.from(rows || []).map((row) => row.dataset.path || "")
+  }, [])
+
+  const handleSelect = useCallback(
+    (filePath: string, isDirectory: boolean, mode: SelectMode) => {
+      if (mode === "toggle") {
+        setSelection((prev) => {
+          const next = new Set(prev)
+          if (next.has(filePath)) {
+            next.delete(filePath)
+          } else {
+            next.add(filePath)
+          }
+          return next
+        })
+        setAnchor(filePath)
         return
       }
 
-      setIsSearching(true)
-      try {
-        const results = await fileManager.searchFiles(query, {
-          includeContent: true,
-          maxResults: 50,
-        })
-        setSearchResults(results)
-      } catch (error) {
-        console.error("Search failed:", error)
-        setSearchResults([])
-      } finally {
-        setIsSearching(false)
+      if (mode === "range" && anchor) {
+        const rows = visibleRows()
+        const from = rows.indexOf(anchor)
+        const to = rows.indexOf(filePath)
+        if (from !== -1 && to !== -1) {
+          setSelection(new Set(rows.slice(Math.min(from, to), Math.max(from, to) + 1)))
+          return
+        }
+      }
+
+      setSelection(new Set([filePath]))
+      setAnchor(filePath)
+      if (!isDirectory) {
+        onFileSelect?.(filePath)
       }
     },
-    [fileManager],
+    [anchor, visibleRows, onFileSelect],
   )
 
-  const handleFileSelect = useCallback(
-    (filePath: string) => {
-      setSelectedFile(filePath)
-      onFileSelect?.(filePath)
-    },
-    [onFileSelect],
+  // What an action on filePath applies to: the whole selection if filePath is part of it
+  const targetsOf = useCallback(
+    (filePath: string): string[] => (selection.has(filePath) ? Array.from(selection) : [filePath]),
+    [selection],
   )
 
+  const cutPaths = useMemo(() => (clipboard?.cut ? new Set(clipboard.paths) : undefined), [clipboard])
+
   const handleFileOpen = useCallback(
     (filePath: string) => {
       onFileOpen?.(filePath)
@@ -104,6 +245,8 @@ export function FileExplorer({ fileManager, onFileSelect, onFileOpen, className
 
   const handleContextMenu = useCallback((event: React.MouseEvent, filePath: string, isDirectory: boolean) => {
     event.preventDefault()
+    // Right-clicking outside the selection acts on that entry alone
+    setSelection((prev) => (prev.has(filePath) ? prev : new Set([filePath])))
     setContextMenu({
       x: event.clientX,
       y: event.clientY,
@@ -131,19 +274,44 @@ export function FileExplorer({ fileManager, onFileSelect, onFileOpen, className
     [fileManager],
   )
 
-  const handleDeleteFile = useCallback(
-    async (filePath: string) => {
-      if (confirm(`Are you sure you want to delete ${filePath}?`)) {
-        try {
-          await fileManager.deleteFile(filePath)
-        } catch (error) {
-          console.error("Failed to delete file:", error)
-        }
+  const handleDeleteFiles = useCallback(
+    async (filePaths: string[]) => {
+      const description = filePaths.length === 1 ? filePaths[0] : `${filePaths.length} items`
+      if (confirm(`Move ${description} to the trash?`)) {
+        reportFailures("delete", await fileManager.deleteFiles(filePaths))
       }
     },
     [fileManager],
   )
 
+  // Open every selected file in the editor; directories are skipped
+  const handleOpenAll = useCallback(
+    (filePaths: string[]) => {
+      filePaths
+        .filter((filePath) => {
+          const node = directoriesRef.current[parentOf(filePath)]?.entries.find((entry) => entry.path === filePath)
+          return node?.type === "file"
+        })
+        .forEach((filePath) => onFileOpen?.(filePath))
+    },
+    [onFileOpen],
+  )
+
+  const handleExport = useCallback(
+    async (filePaths: string[]) => {
+      if (!projectManager) return
+
+      try {
+        const buffer = await projectManager.exportProject({ paths: filePaths })
+        const name = filePaths.length === 1 ? filePaths[0].split("/").pop() || "export" : "selection"
+        downloadZip(buffer, `${name}.zip`)
+      } catch (error) {
+        console.error("Failed to export selection:", error)
+      }
+    },
+    [projectManager],
+  )
+
   const handleRenameFile = useCallback(
     async (oldPath: string, newName: string) => {
       try {
@@ -157,6 +325,143 @@ export function FileExplorer({ fileManager, onFileSelect, onFileOpen, className
     [fileManager],
   )
 
+  // Copy or move entries into targetDir; what lands there becomes the selection. Copies never
+  // overwrite: a taken name gets a " copy" suffix. Moves ask before replacing existing entries.
+  const transferEntries = useCallback(
+    async (srcPaths: string[], targetDir: string, copy: boolean) => {
+      try {
+        let result: BatchResult
+        if (copy) {
+          result = await fileManager.copyFiles(srcPaths, targetDir, { conflict: "rename" })
+        } else {
+          // Skip entries dropped back where they came from, or onto themselves
+          const moving = srcPaths.filter((srcPath) => parentOf(srcPath) !== targetDir && srcPath !== targetDir)
+          if (moving.length === 0) return
+
+          const taken: string[] = []
+          for (const srcPath of moving) {
+            const destPath = joinPath(targetDir, srcPath.split("/").pop() || srcPath)
+            if (await fileManager.fileExists(destPath)) taken.push(destPath)
+          }
+          if (taken.length > 0) {
+            const question =
+              taken.length === 1
+                ? `${taken[0]} already exists. Replace it?`
+                : `${taken.length} items already exist in ${targetDir}. Replace them?`
+            if (!confirm(question)) return
+          }
+
+          result = await fileManager.moveFiles(moving, targetDir, { conflict: taken.length > 0 ? "overwrite" : "error" })
+        }
+
+        reportFailures(copy ? "copy" : "move", result)
+        if (result.succeeded.length > 0) {
+          setSelection(new Set(result.succeeded.map((item) => item.destination || item.path)))
+        }
+      } catch (error) {
+        console.error(`Failed to ${copy ? "copy" : "move"} ${srcPaths.join(", ")}:`, error)
+      }
+    },
+    [fileManager],
+  )
+
+  const startUpload = useCallback(async (files: DroppedFile[], targetDir: string, conflict: UploadConflictPolicy) => {
+    const total = files.reduce((sum, { file }) => sum + file.size, 0)
+    setUploadProgress({ fileCount: files.length, loaded: 0, total })
+
+    try {
+      const result = await uploadFiles(files, targetDir, conflict, (loaded, requestTotal) =>
+        setUploadProgress({ fileCount: files.length, loaded, total: requestTotal }),
+      )
+      reportFailures("upload", result)
+      if (result.succeeded.length > 0) {
+        setSelection(new Set(result.succeeded.map((item) => item.destination || item.path)))
+      }
+    } catch (error) {
+      console.error("Failed to upload files:", error)
+      alert(error instanceof Error ? error.message : String(error))
+    } finally {
+      setUploadProgress(null)
+    }
+  }, [])
+
+  // Files and folders dropped from the desktop; asks first if any of them already exist
+  const handleUpload = useCallback(
+    async (entries: FileSystemEntry[], targetDir: string) => {
+      try {
+        const files = await collectDroppedFiles(entries)
+        if (files.length === 0) return
+
+        const conflicts: string[] = []
+        for (const { path } of files) {
+          const targetPath = joinPath(targetDir, path)
+          if (await fileManager.fileExists(targetPath)) conflicts.push(targetPath)
+        }
+
+        if (conflicts.length > 0) {
+          setPendingUpload({ files, targetDir, conflicts })
+        } else {
+          await startUpload(files, targetDir, "rename")
+        }
+      } catch (error) {
+        console.error("Failed to read dropped files:", error)
+      }
+    },
+    [fileManager, startUpload],
+  )
+
+  const handlePaste = useCallback(
+    async (targetDir: string) => {
+      if (!clipboard) return
+
+      await transferEntries(clipboard.paths, targetDir, !clipboard.cut)
+      // A cut entry has moved, so it can't be pasted again
+      if (clipboard.cut) {
+        setClipboard(null)
+      }
+    },
+    [clipboard, transferEntries],
+  )
+
+  // Delete trashes the selection; Ctrl/Cmd+X, C and V act on it (paste goes next to the last
+  // clicked entry) and Ctrl/Cmd+A selects every visible entry
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement) return
+
+      if (event.key === "Delete" && selection.size > 0) {
+        event.preventDefault()
+        handleDeleteFiles(Array.from(selection))
+        return
+      }
+      if (!(event.ctrlKey || event.metaKey)) return
+
+      const key = event.key.toLowerCase()
+      if (key === "z" || key === "y") {
+        event.preventDefault()
+        const redo = key === "y" || event.shiftKey
+        const step = redo ? fileManager.redo() : fileManager.undo()
+        step.catch((error) => console.error(`Failed to ${redo ? "redo" : "undo"}:`, error))
+      } else if ((key === "x" || key === "c") && selection.size > 0) {
+        event.preventDefault()
+        setClipboard({ paths: Array.from(selection), cut: key === "x" })
+      } else if (key === "v" && clipboard) {
+        event.preventDefault()
+        handlePaste(anchor ? parentOf(anchor) : ".")
+      } else if (key === "a") {
+        event.preventDefault()
+        setSelection(new Set(visibleRows()))
+      }
+    },
+    [fileManager, selection, anchor, clipboard, handlePaste, handleDeleteFiles, visibleRows],
+  )
+
+  const toggleShowIgnored = useCallback(() => {
+    setShowIgnored((current) => !current)
+    // Open directories list themselves again with the new setting
+    setDirectories({})
+  }, [])
+
   const handleRefresh = useCallback(async () => {
     setIsRefreshing(true)
     try {
@@ -191,6 +496,18 @@ export function FileExplorer({ fileManager, onFileSelect, onFileOpen, className
             >
               <FolderPlus className="w-3 h-3" />
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={toggleShowIgnored}
+              title={showIgnored ? "Hide ignored files" : "Show ignored files"}
+              className="h-6 w-6 p-0"
+            >
+              {showIgnored ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setShowTrash(true)} title="Trash" className="h-6 w-6 p-0">
+              <Trash2 className="w-3 h-3" />
+            </Button>
             <Button variant="ghost" size="sm" onClick={handleRefresh} disabled={isRefreshing} className="h-6 w-6 p-0">
               <RefreshCw className={`w-3 h-3 ${isRefreshing ? "animate-spin" : ""}`} />
             </Button>
@@ -205,7 +522,6 @@ export function FileExplorer({ fileManager, onFileSelect, onFileOpen, className
             value={searchQuery}
             onChange={(e) => {
               setSearchQuery(e.target.value)
-              handleSearch(e.target.value)
             }}
             className="pl-7 h-7 text-xs"
           />
@@ -213,43 +529,39 @@ export function FileExplorer({ fileManager, onFileSelect, onFileOpen, className
       </div>
 
       {/* Content */}
-      <div className="file-explorer-content flex-1 overflow-auto">
-        {searchQuery && searchResults.length > 0 ? (
-          <div className="search-results p-2">
-            <div className="text-xs text-gray-500 mb-2">
-              {searchResults.length} result{searchResults.length !== 1 ? "s" : ""}
-            </div>
-            {searchResults.map((result, index) => (
-              <div
-                key={index}
-                className="search-result p-2 hover:bg-gray-100 cursor-pointer rounded text-xs"
-                onClick={() => handleFileOpen(result.path)}
-              >
-                <div className="font-medium text-gray-900">{result.name}</div>
-                <div className="text-gray-500 truncate">{result.path}</div>
-                {result.matches.length > 0 && (
-                  <div className="text-gray-400 text-xs mt-1">
-                    {result.matches.length} match{result.matches.length !== 1 ? "es" : ""}
-                  </div>
-                )}
-              </div>
-            ))}
-          </div>
-        ) : searchQuery && !isSearching ? (
-          <div className="p-4 text-center text-gray-500 text-sm">No files found</div>
+      <div
+        ref={contentRef}
+        className="file-explorer-content flex-1 overflow-auto outline-none"
+        tabIndex={0}
+        onKeyDown={searchQuery ? undefined : handleKeyDown}
+        onDragLeave={(event) => {
+          if (!event.currentTarget.contains(event.relatedTarget as Node)) {
+            setDropTarget(null)
+          }
+        }}
+      >
+        {searchQuery ? (
+          <SearchPanel fileManager={fileManager} query={searchQuery} onFileOpen={handleFileOpen} />
         ) : (
-          fileTree && (
-            <FileTree
-              node={fileTree}
-              selectedFile={selectedFile}
-              onFileSelect={handleFileSelect}
-              onFileOpen={handleFileOpen}
-              onContextMenu={handleContextMenu}
-            />
-          )
+          <FileTree
+            node={ROOT_NODE}
+            directories={directories}
+            onLoadChildren={loadChildren}
+            selectedPaths={selection}
+            onSelect={handleSelect}
+            onFileOpen={handleFileOpen}
+            onContextMenu={handleContextMenu}
+            onMove={transferEntries}
+            onUpload={uploadProgress ? undefined : handleUpload}
+            dropTarget={dropTarget}
+            onDropTargetChange={setDropTarget}
+            cutPaths={cutPaths}
+          />
         )}
       </div>
 
+      {uploadProgress && <UploadProgress {...uploadProgress} />}
+
       {/* Context Menu */}
       {contextMenu && (
         <FileContextMenu
@@ -257,16 +569,49 @@ export function FileExplorer({ fileManager, onFileSelect, onFileOpen, className
           y={contextMenu.y}
           filePath={contextMenu.filePath}
           isDirectory={contextMenu.isDirectory}
+          selectionCount={targetsOf(contextMenu.filePath).length}
           onClose={() => setContextMenu(null)}
-          onDelete={handleDeleteFile}
+          onDelete={(filePath) => handleDeleteFiles(targetsOf(filePath))}
           onRename={handleRenameFile}
           onCreate={(type) => {
             setCreateDialog({ type, parentPath: contextMenu.filePath })
             setContextMenu(null)
           }}
+          onCut={(filePath) => setClipboard({ paths: targetsOf(filePath), cut: true })}
+          onCopy={(filePath) => setClipboard({ paths: targetsOf(filePath), cut: false })}
+          onPaste={
+            clipboard
+              ? (filePath) => handlePaste(contextMenu.isDirectory ? filePath : parentOf(filePath))
+              : undefined
+          }
+          onShowHistory={setHistoryPath}
+          onOpenAll={(filePath) => handleOpenAll(targetsOf(filePath))}
+          onExport={projectManager ? (filePath) => handleExport(targetsOf(filePath)) : undefined}
         />
       )}
 
+      {/* Local History */}
+      {historyPath && (
+        <LocalHistoryDialog fileManager={fileManager} filePath={historyPath} onClose={() => setHistoryPath(null)} />
+      )}
+
+      {/* Upload conflicts */}
+      {pendingUpload && (
+        <UploadConflictDialog
+          targetDir={pendingUpload.targetDir}
+          conflicts={pendingUpload.conflicts}
+          fileCount={pendingUpload.files.length}
+          onChoose={(conflict) => {
+            setPendingUpload(null)
+            startUpload(pendingUpload.files, pendingUpload.targetDir, conflict)
+          }}
+          onCancel={() => setPendingUpload(null)}
+        />
+      )}
+
+      {/* Trash */}
+      {showTrash && <TrashDialog fileManager={fileManager} onClose={() => setShowTrash(false)} />}
+
       {/* Create Dialog */}
       {createDialog && (
         <CreateFileDialog
@@ -279,3 +624,23 @@ export function FileExplorer({ fileManager, onFileSelect, onFileOpen, className
     </div>
   )
 }
+
+function parentOf(filePath: string): string {
+  const index = filePath.lastIndexOf("/")
+  return index === -1 ? "." : filePath.slice(0, index)
+}
+
+function joinPath(dirPath: string, name: string): string {
+  return dirPath === "." ? name : `${dirPath}/${name}`
+}
+
+// Bulk operations carry on past failures; tell the user which entries didn't make it
+function reportFailures(action: string, result: BatchResult) {
+  if (result.failed.length === 0) return
+
+  console.error(`Failed to ${action} some entries:`, result.failed)
+  alert(
+    `Couldn't ${action} ${result.failed.length === 1 ? "1 item" : `${result.failed.length} items`}:\n` +
+      result.failed.map((item) => `${item.path}: ${item.error}`).join("\n"),
+  )
+}
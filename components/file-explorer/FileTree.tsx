@@ -2,33 +2,86 @@
 
 import type React from "react"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useEffect } from "react"
 import type { FileNode } from "../../lib/local-container/file-manager"
 import { ChevronRight, ChevronDown, File, Folder, FolderOpen } from "lucide-react"
 
+// Marks drags started in the explorer, telling them apart from files dropped from the desktop
+const DRAG_TYPE = "application/x-bolt-path"
+
+// How a click changes the selection: plain click selects just the entry, Ctrl/Cmd toggles it,
+// Shift extends from the last clicked entry
+export type SelectMode = "replace" | "toggle" | "range"
+
+// Loaded pages of one directory, keyed by directory path in the explorer
+export interface DirectoryListing {
+  entries: FileNode[]
+  total: number
+  nextCursor: string | null
+  loading: boolean
+}
+
 interface FileTreeProps {
   node: FileNode
-  selectedFile?: string | null
-  onFileSelect?: (filePath: string) => void
+  directories: Record<string, DirectoryListing>
+  // Load the first page of a directory, or the page after cursor
+  onLoadChildren: (dirPath: string, cursor?: string) => void
+  selectedPaths?: Set<string>
+  onSelect?: (filePath: string, isDirectory: boolean, mode: SelectMode) => void
   onFileOpen?: (filePath: string) => void
   onContextMenu?: (event: React.MouseEvent, filePath: string, isDirectory: boolean) => void
+  // Dropping entries on a directory (or anything inside it) moves them there, or copies them
+  // with Ctrl/Alt held. Dragging a selected entry drags the whole selection.
+  onMove?: (srcPaths: string[], targetDir: string, copy: boolean) => void
+  // Files and folders dropped from the desktop onto a directory (or anything inside it)
+  onUpload?: (entries: FileSystemEntry[], targetDir: string) => void
+  // Directory highlighted while something is dragged over it
+  dropTarget?: string | null
+  onDropTargetChange?: (dirPath: string | null) => void
+  // Entries on the clipboard waiting to be moved, shown dimmed
+  cutPaths?: Set<string>
   level?: number
 }
 
-export function FileTree({ node, selectedFile, onFileSelect, onFileOpen, onContextMenu, level = 0 }: FileTreeProps) {
-  const [expanded, setExpanded] = useState(node.expanded ?? level < 2)
+export function FileTree({
+  node,
+  directories,
+  onLoadChildren,
+  selectedPaths,
+  onSelect,
+  onFileOpen,
+  onContextMenu,
+  onMove,
+  onUpload,
+  dropTarget,
+  onDropTargetChange,
+  cutPaths,
+  level = 0,
+}: FileTreeProps) {
+  const [expanded, setExpanded] = useState(node.expanded ?? level < 1)
+  const listing = directories[node.path]
+
+  // Children are fetched the first time a directory is opened
+  useEffect(() => {
+    if (node.type === "directory" && expanded && !listing) {
+      onLoadChildren(node.path)
+    }
+  }, [node.type, node.path, expanded, listing, onLoadChildren])
 
   const handleClick = useCallback(
     (event: React.MouseEvent) => {
       event.stopPropagation()
 
-      if (node.type === "directory") {
+      const mode: SelectMode = event.shiftKey ? "range" : event.ctrlKey || event.metaKey ? "toggle" : "replace"
+      // A plain click opens or closes a directory; the root itself is never selected
+      if (node.type === "directory" && mode === "replace") {
         setExpanded(!expanded)
-      } else {
-        onFileSelect?.(node.path)
+      }
+      if (level > 0) {
+        onSelect?.(node.path, node.type === "directory", mode)
       }
     },
-    [node.type, node.path, expanded, onFileSelect],
+    [node.type, node.path, expanded, level, onSelect],
   )
 
   const handleDoubleClick = useCallback(
@@ -49,16 +102,78 @@ export function FileTree({ node, selectedFile, onFileSelect, onFileOpen, onConte
     [node.path, node.type, onContextMenu],
   )
 
-  const isSelected = selectedFile === node.path
+  const handleDragStart = useCallback(
+    (event: React.DragEvent) => {
+      event.stopPropagation()
+      const paths = selectedPaths?.has(node.path) ? Array.from(selectedPaths) : [node.path]
+      event.dataTransfer.setData(DRAG_TYPE, paths.join("\n"))
+      event.dataTransfer.effectAllowed = "copyMove"
+    },
+    [node.path, selectedPaths],
+  )
+
+  const handleDragEnd = useCallback(() => onDropTargetChange?.(null), [onDropTargetChange])
+
+  // Only directories take drops; a drop on a file row bubbles up to its directory
+  const handleDragOver = useCallback(
+    (event: React.DragEvent) => {
+      if (node.type !== "directory") return
+      const isUpload = !!onUpload && isDesktopDrag(event)
+      if (!isUpload && !event.dataTransfer.types.includes(DRAG_TYPE)) return
+
+      event.preventDefault()
+      event.stopPropagation()
+      event.dataTransfer.dropEffect = isUpload || isCopyDrag(event) ? "copy" : "move"
+      onDropTargetChange?.(node.path)
+    },
+    [node.type, node.path, onUpload, onDropTargetChange],
+  )
+
+  const handleDrop = useCallback(
+    (event: React.DragEvent) => {
+      if (node.type !== "directory") return
+      const isUpload = !!onUpload && isDesktopDrag(event)
+      if (!isUpload && !event.dataTransfer.types.includes(DRAG_TYPE)) return
+
+      event.preventDefault()
+      event.stopPropagation()
+      onDropTargetChange?.(null)
+
+      if (isUpload) {
+        // Entries are only readable while the drop event is being handled
+        const entries = Array.from(event.dataTransfer.items)
+          .map((item) => item.webkitGetAsEntry())
+          .filter((entry): entry is FileSystemEntry => !!entry)
+        onUpload?.(entries, node.path)
+        return
+      }
+
+      const srcPaths = event.dataTransfer.getData(DRAG_TYPE).split("\n").filter(Boolean)
+      if (srcPaths.length > 0) {
+        onMove?.(srcPaths, node.path, isCopyDrag(event))
+      }
+    },
+    [node.type, node.path, onMove, onUpload, onDropTargetChange],
+  )
+
+  const isSelected = !!selectedPaths?.has(node.path)
   const paddingLeft = level * 12 + 8
 
   return (
-    <div className="file-tree-node">
+    <div
+      className={`file-tree-node ${dropTarget === node.path ? "bg-blue-50" : ""}`}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
       <div
         className={`file-tree-item flex items-center py-1 px-2 cursor-pointer hover:bg-gray-100 ${
           isSelected ? "bg-blue-100 text-blue-900" : "text-gray-700"
         }`}
         style={{ paddingLeft }}
+        data-path={level > 0 ? node.path : undefined}
+        draggable={level > 0}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
         onClick={handleClick}
         onDoubleClick={handleDoubleClick}
         onContextMenu={handleContextMenu}
@@ -81,32 +196,70 @@ export function FileTree({ node, selectedFile, onFileSelect, onFileOpen, onConte
           )}
         </div>
 
-        <span className="ml-2 text-xs truncate flex-1">{node.name}</span>
+        <span
+          className={`ml-2 text-xs truncate flex-1 ${node.ignored || cutPaths?.has(node.path) ? "opacity-50" : ""}`}
+        >{node.name}</span>
 
         {node.type === "file" && node.size !== undefined && (
           <span className="text-xs text-gray-400 ml-2">{formatFileSize(node.size)}</span>
         )}
+
+        {node.type === "directory" && !expanded && node.childCount !== undefined && node.childCount > 0 && (
+          <span className="text-xs text-gray-400 ml-2">{node.childCount}</span>
+        )}
       </div>
 
-      {node.type === "directory" && expanded && node.children && (
+      {node.type === "directory" && expanded && listing && (
         <div className="file-tree-children">
-          {node.children.map((child) => (
+          {listing.entries.map((child) => (
             <FileTree
               key={child.path}
               node={child}
-              selectedFile={selectedFile}
-              onFileSelect={onFileSelect}
+              directories={directories}
+              onLoadChildren={onLoadChildren}
+              selectedPaths={selectedPaths}
+              onSelect={onSelect}
               onFileOpen={onFileOpen}
               onContextMenu={onContextMenu}
+              onMove={onMove}
+              onUpload={onUpload}
+              dropTarget={dropTarget}
+              onDropTargetChange={onDropTargetChange}
+              cutPaths={cutPaths}
               level={level + 1}
             />
           ))}
+
+          {listing.nextCursor && (
+            <button
+              className="w-full text-left py-1 px-2 text-xs text-blue-600 hover:bg-gray-100 disabled:text-gray-400"
+              style={{ paddingLeft: (level + 1) * 12 + 8 }}
+              disabled={listing.loading}
+              onClick={() => onLoadChildren(node.path, listing.nextCursor || undefined)}
+            >
+              {listing.loading ? "Loading..." : `Show more (${listing.total - listing.entries.length} remaining)`}
+            </button>
+          )}
+        </div>
+      )}
+
+      {node.type === "directory" && expanded && (!listing || (listing.loading && listing.entries.length === 0)) && (
+        <div className="py-1 px-2 text-xs text-gray-400" style={{ paddingLeft: (level + 1) * 12 + 8 }}>
+          Loading...
         </div>
       )}
     </div>
   )
 }
 
+function isCopyDrag(event: React.DragEvent): boolean {
+  return event.ctrlKey || event.altKey
+}
+
+function isDesktopDrag(event: React.DragEvent): boolean {
+  return event.dataTransfer.types.includes("Files") && !event.dataTransfer.types.includes(DRAG_TYPE)
+}
+
 function formatFileSize(bytes: number): string {
   if (bytes === 0) return "0 B"
 
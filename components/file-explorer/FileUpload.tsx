@@ -0,0 +1,159 @@
+"use client"
+
+import type { UploadConflictPolicy, UploadResult } from "../../lib/local-container/file-manager"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "../ui/dialog"
+import { Button } from "../ui/button"
+import { Upload } from "lucide-react"
+
+// A dropped file and where it goes, relative to the directory it was dropped on
+export interface DroppedFile {
+  file: File
+  path: string
+}
+
+export interface UploadProgressState {
+  fileCount: number
+  loaded: number
+  total: number
+}
+
+// Conflicts listed by name before the rest are summarized
+const MAX_LISTED_CONFLICTS = 5
+
+// Expand dropped entries into files, walking into folders. Empty folders are left out.
+export async function collectDroppedFiles(entries: FileSystemEntry[]): Promise<DroppedFile[]> {
+  const files: DroppedFile[] = []
+
+  const visit = async (entry: FileSystemEntry, parentPath: string) => {
+    const entryPath = parentPath ? `${parentPath}/${entry.name}` : entry.name
+
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))
+      files.push({ file, path: entryPath })
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader()
+      // Each call returns the next batch of children, and an empty batch at the end
+      let batch: FileSystemEntry[]
+      do {
+        batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+        for (const child of batch) {
+          await visit(child, entryPath)
+        }
+      } while (batch.length > 0)
+    }
+  }
+
+  for (const entry of entries) {
+    await visit(entry, "")
+  }
+  return files
+}
+
+// Send files to /api/files/upload in one streamed multipart request. The browser reads each
+// file from disk as it is sent, so contents arrive byte-for-byte.
+export function uploadFiles(
+  files: DroppedFile[],
+  targetDir: string,
+  conflict: UploadConflictPolicy,
+  onProgress: (loaded: number, total: number) => void,
+): Promise<UploadResult> {
+  const form = new FormData()
+  form.append("targetDir", targetDir)
+  form.append("conflict", conflict)
+  files.forEach(({ file, path }) => {
+    form.append("path", path)
+    form.append("file", file, file.name)
+  })
+
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest()
+    request.open("POST", "/api/files/upload")
+    request.responseType = "json"
+
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded, event.total)
+    }
+    request.onload = () => {
+      if (request.status >= 200 && request.status < 300) {
+        resolve(request.response as UploadResult)
+      } else {
+        reject(new Error(request.response?.error || `Upload failed with status ${request.status}`))
+      }
+    }
+    request.onerror = () => reject(new Error("Upload failed: network error"))
+
+    request.send(form)
+  })
+}
+
+interface UploadConflictDialogProps {
+  targetDir: string
+  // Workspace paths that already exist
+  conflicts: string[]
+  fileCount: number
+  onChoose: (conflict: UploadConflictPolicy) => void
+  onCancel: () => void
+}
+
+// Asked once per drop when some dropped files already exist
+export function UploadConflictDialog({ targetDir, conflicts, fileCount, onChoose, onCancel }: UploadConflictDialogProps) {
+  const listed = conflicts.slice(0, MAX_LISTED_CONFLICTS)
+
+  return (
+    <Dialog open={true} onOpenChange={() => onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Replace existing files?</DialogTitle>
+          <DialogDescription>
+            {conflicts.length === 1 ? "1 file" : `${conflicts.length} files`} of the {fileCount} being uploaded to{" "}
+            {targetDir === "." ? "the workspace root" : targetDir} already {conflicts.length === 1 ? "exists" : "exist"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="text-xs font-mono text-gray-600 space-y-1">
+          {listed.map((conflictPath) => (
+            <div key={conflictPath} className="truncate">
+              {conflictPath}
+            </div>
+          ))}
+          {conflicts.length > listed.length && (
+            <div className="text-gray-400">and {conflicts.length - listed.length} more</div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={() => onChoose("skip")}>
+            Skip
+          </Button>
+          <Button variant="outline" onClick={() => onChoose("rename")}>
+            Keep Both
+          </Button>
+          <Button onClick={() => onChoose("overwrite")}>Replace</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function UploadProgress({ fileCount, loaded, total }: UploadProgressState) {
+  const percent = total > 0 ? Math.round((loaded / total) * 100) : 0
+
+  return (
+    <div className="px-3 py-2 border-t border-gray-200 text-xs text-gray-600">
+      <div className="flex items-center gap-2 mb-1">
+        <Upload className="w-3 h-3" />
+        <span className="flex-1">
+          Uploading {fileCount === 1 ? "1 file" : `${fileCount} files`}
+          {percent === 100 ? ", writing..." : ""}
+        </span>
+        <span>{percent}%</span>
+      </div>
+      <div className="h-1 bg-gray-200 rounded">
+        <div className="h-1 bg-blue-500 rounded transition-all" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  )
+}
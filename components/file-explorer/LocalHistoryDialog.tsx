@@ -0,0 +1,181 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { FileManager, HistoryDiff } from "../../lib/local-container/file-manager"
+import type { HistoryEntry, HistoryReason } from "../../lib/local-container/local-history"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../ui/dialog"
+import { Button } from "../ui/button"
+import { History, RotateCcw } from "lucide-react"
+
+interface LocalHistoryDialogProps {
+  fileManager: FileManager
+  filePath: string
+  onClose: () => void
+}
+
+const REASON_LABELS: Record<HistoryReason, string> = {
+  write: "Saved",
+  external: "Changed on disk",
+  delete: "Before delete",
+  restore: "Restored",
+}
+
+// Versions of one file, each diffed against what is on disk now
+export function LocalHistoryDialog({ fileManager, filePath, onClose }: LocalHistoryDialogProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [diff, setDiff] = useState<HistoryDiff | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Bumped after a restore, which changes the file every diff is taken against
+  const [revision, setRevision] = useState(0)
+
+  const loadEntries = useCallback(async () => {
+    try {
+      const history = await fileManager.getFileHistory(filePath)
+      setEntries(history)
+      setSelectedId((current) =>
+        current && history.some((entry) => entry.id === current) ? current : history[0]?.id || null,
+      )
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [fileManager, filePath])
+
+  useEffect(() => {
+    loadEntries()
+  }, [loadEntries])
+
+  useEffect(() => {
+    if (!selectedId) {
+      setDiff(null)
+      return
+    }
+
+    let cancelled = false
+    fileManager
+      .diffHistoryVersion(filePath, selectedId)
+      .then((result) => {
+        if (!cancelled) setDiff(result)
+      })
+      .catch((diffError) => {
+        if (!cancelled) setError(diffError instanceof Error ? diffError.message : String(diffError))
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [fileManager, filePath, selectedId, revision])
+
+  const handleRestore = useCallback(async () => {
+    if (!selectedId) return
+
+    setIsRestoring(true)
+    setError(null)
+    try {
+      await fileManager.restoreHistoryVersion(filePath, selectedId)
+      // The restore itself is a new version at the top
+      await loadEntries()
+      setRevision((value) => value + 1)
+    } catch (restoreError) {
+      setError(restoreError instanceof Error ? restoreError.message : String(restoreError))
+    } finally {
+      setIsRestoring(false)
+    }
+  }, [fileManager, filePath, selectedId, loadEntries])
+
+  return (
+    <Dialog open={true} onOpenChange={() => onClose()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            Local History: {filePath}
+          </DialogTitle>
+        </DialogHeader>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {isLoading ? (
+          <div className="py-8 text-center text-sm text-gray-500">Loading...</div>
+        ) : entries.length === 0 ? (
+          <div className="py-8 text-center text-sm text-gray-500">No history for this file yet</div>
+        ) : (
+          <div className="flex gap-4 h-96">
+            {/* Versions */}
+            <div className="w-56 flex-shrink-0 overflow-auto border rounded">
+              {entries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className={`px-3 py-2 text-xs cursor-pointer border-b last:border-b-0 ${
+                    entry.id === selectedId ? "bg-blue-100 text-blue-900" : "hover:bg-gray-50"
+                  }`}
+                  onClick={() => setSelectedId(entry.id)}
+                >
+                  <div className="font-medium">{new Date(entry.timestamp).toLocaleString()}</div>
+                  <div className="text-gray-500">
+                    {REASON_LABELS[entry.reason]} • {formatFileSize(entry.size)}
+                  </div>
+                  {entry.path !== filePath && <div className="text-gray-400 truncate">as {entry.path}</div>}
+                </div>
+              ))}
+            </div>
+
+            {/* Diff against the file on disk */}
+            <div className="flex-1 min-w-0 flex flex-col">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs text-gray-500">Changes from this version to the current file</span>
+                <Button size="sm" onClick={handleRestore} disabled={!selectedId || isRestoring}>
+                  <RotateCcw className="w-3 h-3 mr-2" />
+                  Restore
+                </Button>
+              </div>
+
+              <div className="flex-1 overflow-auto border rounded bg-gray-50 font-mono text-xs">
+                {!diff ? (
+                  <div className="p-4 text-gray-500">Loading...</div>
+                ) : diff.binary ? (
+                  <div className="p-4 text-gray-500">Binary file, no diff shown</div>
+                ) : diff.hunks.length === 0 ? (
+                  <div className="p-4 text-gray-500">Identical to the current file</div>
+                ) : (
+                  diff.hunks.map((hunk, hunkIndex) => (
+                    <div key={hunkIndex}>
+                      <div className="px-2 py-1 bg-blue-50 text-blue-700">
+                        @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+                      </div>
+                      {hunk.lines.map((line, lineIndex) => (
+                        <div
+                          key={lineIndex}
+                          className={`px-2 whitespace-pre ${
+                            line.type === "add"
+                              ? "bg-green-50 text-green-800"
+                              : line.type === "remove"
+                                ? "bg-red-50 text-red-800"
+                                : "text-gray-700"
+                          }`}
+                        >
+                          {line.type === "add" ? "+" : line.type === "remove" ? "-" : " "}
+                          {line.content}
+                        </div>
+                      ))}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
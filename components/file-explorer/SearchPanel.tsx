@@ -0,0 +1,308 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useRef, useCallback } from "react"
+import type { FileManager, ReplacePreview, ReplaceResult } from "../../lib/local-container/file-manager"
+import type { SearchFileResult, SearchQuery, SearchSummary } from "../../lib/local-container/search-index"
+import { Button } from "../ui/button"
+import { Input } from "../ui/input"
+import { CaseSensitive, WholeWord, Regex, Replace, Undo2 } from "lucide-react"
+
+interface SearchPanelProps {
+  fileManager: FileManager
+  query: string
+  onFileOpen?: (filePath: string) => void
+}
+
+// Delay between the last keystroke and running the search
+const SEARCH_DEBOUNCE = 200
+// Matches shown per file before collapsing into a count
+const VISIBLE_MATCHES = 20
+
+export function SearchPanel({ fileManager, query, onFileOpen }: SearchPanelProps) {
+  const [caseSensitive, setCaseSensitive] = useState(false)
+  const [wholeWord, setWholeWord] = useState(false)
+  const [isRegex, setIsRegex] = useState(false)
+  const [include, setInclude] = useState("")
+  const [exclude, setExclude] = useState("")
+  const [results, setResults] = useState<SearchFileResult[]>([])
+  const [summary, setSummary] = useState<SearchSummary | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [showReplace, setShowReplace] = useState(false)
+  const [replacement, setReplacement] = useState("")
+  const [preview, setPreview] = useState<ReplacePreview | null>(null)
+  const [lastReplace, setLastReplace] = useState<ReplaceResult | null>(null)
+  const [isReplacing, setIsReplacing] = useState(false)
+  const [generation, setGeneration] = useState(0)
+  // Results of superseded searches are dropped
+  const searchIdRef = useRef(0)
+
+  const buildQuery = useCallback(
+    (): SearchQuery => ({
+      query,
+      isRegex,
+      caseSensitive,
+      wholeWord,
+      include: splitGlobs(include),
+      exclude: splitGlobs(exclude),
+    }),
+    [query, isRegex, caseSensitive, wholeWord, include, exclude],
+  )
+
+  useEffect(() => {
+    const searchId = ++searchIdRef.current
+    setPreview(null)
+
+    if (!query) {
+      setResults([])
+      setSummary(null)
+      setError(null)
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      setResults([])
+      setSummary(null)
+      setError(null)
+
+      try {
+        const response = await fileManager.search(buildQuery(), (result) => {
+          // Stream each file in as soon as it is found
+          if (searchId === searchIdRef.current) {
+            setResults((prev) => [...prev, result])
+          }
+        })
+        if (searchId === searchIdRef.current) {
+          setSummary(response.summary)
+        }
+      } catch (searchError) {
+        if (searchId === searchIdRef.current) {
+          setError(searchError instanceof Error ? searchError.message : String(searchError))
+        }
+      }
+    }, SEARCH_DEBOUNCE)
+
+    return () => clearTimeout(timer)
+  }, [fileManager, query, buildQuery, generation])
+
+  const handlePreview = useCallback(async () => {
+    try {
+      setPreview(await fileManager.previewReplace(buildQuery(), replacement))
+    } catch (previewError) {
+      setError(previewError instanceof Error ? previewError.message : String(previewError))
+    }
+  }, [fileManager, buildQuery, replacement])
+
+  const handleApply = useCallback(async () => {
+    if (!preview) return
+
+    setIsReplacing(true)
+    try {
+      const expectedHashes: Record<string, string> = {}
+      preview.files.forEach((file) => {
+        expectedHashes[file.path] = file.hash
+      })
+
+      const result = await fileManager.replaceInFiles(buildQuery(), replacement, {
+        files: preview.files.map((file) => file.path),
+        expectedHashes,
+      })
+      setLastReplace(result)
+      setPreview(null)
+      setGeneration((value) => value + 1)
+    } catch (replaceError) {
+      setError(replaceError instanceof Error ? replaceError.message : String(replaceError))
+    } finally {
+      setIsReplacing(false)
+    }
+  }, [fileManager, buildQuery, replacement, preview])
+
+  const handleUndo = useCallback(async () => {
+    if (!lastReplace) return
+
+    setIsReplacing(true)
+    try {
+      const result = await fileManager.undoReplace(lastReplace.id)
+      if (result && result.conflicts.length > 0) {
+        setError(`Not restored, edited since the replace: ${result.conflicts.join(", ")}`)
+      }
+      setLastReplace(null)
+      setGeneration((value) => value + 1)
+    } finally {
+      setIsReplacing(false)
+    }
+  }, [fileManager, lastReplace])
+
+  const matchCount = results.reduce((total, result) => total + result.matches.length, 0)
+
+  return (
+    <div className="search-panel p-2 text-xs">
+      {/* Options */}
+      <div className="flex items-center gap-1 mb-2">
+        <ToggleButton active={caseSensitive} title="Match case" onClick={() => setCaseSensitive(!caseSensitive)}>
+          <CaseSensitive className="w-3 h-3" />
+        </ToggleButton>
+        <ToggleButton active={wholeWord} title="Match whole word" onClick={() => setWholeWord(!wholeWord)}>
+          <WholeWord className="w-3 h-3" />
+        </ToggleButton>
+        <ToggleButton active={isRegex} title="Use regular expression" onClick={() => setIsRegex(!isRegex)}>
+          <Regex className="w-3 h-3" />
+        </ToggleButton>
+        <ToggleButton active={showReplace} title="Replace" onClick={() => setShowReplace(!showReplace)}>
+          <Replace className="w-3 h-3" />
+        </ToggleButton>
+      </div>
+
+      <div className="space-y-1 mb-2">
+        <Input
+          placeholder="Files to include (e.g. src, *.ts)"
+          value={include}
+          onChange={(e) => setInclude(e.target.value)}
+          className="h-6 text-xs"
+        />
+        <Input
+          placeholder="Files to exclude"
+          value={exclude}
+          onChange={(e) => setExclude(e.target.value)}
+          className="h-6 text-xs"
+        />
+        {showReplace && (
+          <div className="flex items-center gap-1">
+            <Input
+              placeholder={isRegex ? "Replace ($1 for groups)" : "Replace"}
+              value={replacement}
+              onChange={(e) => {
+                setReplacement(e.target.value)
+                setPreview(null)
+              }}
+              className="h-6 text-xs"
+            />
+            <Button variant="outline" size="sm" className="h-6 text-xs" onClick={handlePreview} disabled={!query}>
+              Preview
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {error && <div className="mb-2 text-red-600">{error}</div>}
+
+      {lastReplace && (
+        <div className="mb-2 flex items-center justify-between text-gray-600">
+          <span>
+            Replaced in {lastReplace.files.length} file{lastReplace.files.length !== 1 ? "s" : ""}
+            {lastReplace.conflicts.length > 0 && `, skipped ${lastReplace.conflicts.length} changed on disk`}
+          </span>
+          <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={handleUndo} disabled={isReplacing}>
+            <Undo2 className="w-3 h-3 mr-1" />
+            Undo
+          </Button>
+        </div>
+      )}
+
+      {preview ? (
+        <div className="replace-preview">
+          <div className="flex items-center justify-between mb-2 text-gray-500">
+            <span>
+              {preview.total} replacement{preview.total !== 1 ? "s" : ""} in {preview.files.length} file
+              {preview.files.length !== 1 ? "s" : ""}
+            </span>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => setPreview(null)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                className="h-6 text-xs"
+                onClick={handleApply}
+                disabled={isReplacing || preview.total === 0}
+              >
+                Replace All
+              </Button>
+            </div>
+          </div>
+          {preview.files.map((file) => (
+            <div key={file.path} className="mb-2">
+              <div className="font-medium text-gray-900 truncate">{file.path}</div>
+              {file.matches.slice(0, VISIBLE_MATCHES).map((match, index) => (
+                <div key={index} className="pl-2 font-mono">
+                  <div className="text-red-700 line-through truncate">{match.content.trim()}</div>
+                  <div className="text-green-700 truncate">{match.replaced.trim()}</div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="search-results">
+          {(summary || results.length > 0) && (
+            <div className="text-gray-500 mb-2">
+              {matchCount} match{matchCount !== 1 ? "es" : ""} in {results.length} file
+              {results.length !== 1 ? "s" : ""}
+              {summary?.truncated && " (more not shown)"}
+            </div>
+          )}
+          {summary && results.length === 0 && <div className="p-4 text-center text-gray-500 text-sm">No results</div>}
+          {results.map((result) => (
+            <div key={result.path} className="search-result mb-2">
+              <div
+                className="font-medium text-gray-900 truncate cursor-pointer hover:underline"
+                title={result.path}
+                onClick={() => onFileOpen?.(result.path)}
+              >
+                {result.path}
+              </div>
+              {result.matches.slice(0, VISIBLE_MATCHES).map((match, index) => (
+                <div
+                  key={index}
+                  className="pl-2 py-0.5 font-mono text-gray-600 truncate cursor-pointer hover:bg-gray-100 rounded"
+                  onClick={() => onFileOpen?.(result.path)}
+                >
+                  <span className="text-gray-400 mr-2">{match.line}</span>
+                  {match.content.slice(Math.max(0, match.start - 40), match.start)}
+                  <mark className="bg-yellow-200">{match.content.slice(match.start, match.end)}</mark>
+                  {match.content.slice(match.end, match.end + 80)}
+                </div>
+              ))}
+              {result.matches.length > VISIBLE_MATCHES && (
+                <div className="pl-2 text-gray-400">{result.matches.length - VISIBLE_MATCHES} more</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ToggleButton({
+  active,
+  title,
+  onClick,
+  children,
+}: {
+  active: boolean
+  title: string
+  onClick: () => void
+  children: React.ReactNode
+}) {
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      title={title}
+      onClick={onClick}
+      className={`h-6 w-6 p-0 ${active ? "bg-blue-100 text-blue-700" : ""}`}
+    >
+      {children}
+    </Button>
+  )
+}
+
+function splitGlobs(value: string): string[] | undefined {
+  const globs = value
+    .split(",")
+    .map((glob) => glob.trim())
+    .filter(Boolean)
+  return globs.length > 0 ? globs : undefined
+}
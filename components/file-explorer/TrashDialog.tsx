@@ -0,0 +1,174 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { FileManager } from "../../lib/local-container/file-manager"
+import { TrashConflictError, type TrashItem, type RestoreConflictPolicy } from "../../lib/local-container/trash"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../ui/dialog"
+import { Button } from "../ui/button"
+import { Trash2, RotateCcw, File, Folder, X } from "lucide-react"
+
+interface TrashDialogProps {
+  fileManager: FileManager
+  onClose: () => void
+}
+
+// Deleted entries, newest first, with restore and permanent delete
+export function TrashDialog({ fileManager, onClose }: TrashDialogProps) {
+  const [items, setItems] = useState<TrashItem[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  // Item whose original path is taken, waiting for the user to pick replace or keep both
+  const [conflictId, setConflictId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadItems = useCallback(async () => {
+    try {
+      setItems(await fileManager.getTrash())
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : String(loadError))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [fileManager])
+
+  useEffect(() => {
+    loadItems()
+    fileManager.on("trashChanged", loadItems)
+    return () => {
+      fileManager.off("trashChanged", loadItems)
+    }
+  }, [fileManager, loadItems])
+
+  const handleRestore = useCallback(
+    async (item: TrashItem, conflict: RestoreConflictPolicy = "error") => {
+      setBusyId(item.id)
+      setError(null)
+      try {
+        await fileManager.restoreFromTrash(item.id, { conflict })
+        setConflictId(null)
+      } catch (restoreError) {
+        if (restoreError instanceof TrashConflictError) {
+          setConflictId(item.id)
+        } else {
+          setError(restoreError instanceof Error ? restoreError.message : String(restoreError))
+        }
+      } finally {
+        setBusyId(null)
+      }
+    },
+    [fileManager],
+  )
+
+  const handleDelete = useCallback(
+    async (item: TrashItem) => {
+      if (!confirm(`Permanently delete ${item.originalPath}? This can't be undone.`)) return
+
+      setBusyId(item.id)
+      setError(null)
+      try {
+        await fileManager.deleteFromTrash(item.id)
+      } catch (deleteError) {
+        setError(deleteError instanceof Error ? deleteError.message : String(deleteError))
+      } finally {
+        setBusyId(null)
+      }
+    },
+    [fileManager],
+  )
+
+  const handleEmpty = useCallback(async () => {
+    if (!confirm(`Permanently delete all ${items.length} items in the trash? This can't be undone.`)) return
+
+    setError(null)
+    try {
+      await fileManager.emptyTrash()
+    } catch (emptyError) {
+      setError(emptyError instanceof Error ? emptyError.message : String(emptyError))
+    }
+  }, [fileManager, items.length])
+
+  return (
+    <Dialog open={true} onOpenChange={() => onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trash2 className="w-4 h-4" />
+            Trash
+          </DialogTitle>
+        </DialogHeader>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {isLoading ? (
+          <div className="py-8 text-center text-sm text-gray-500">Loading...</div>
+        ) : items.length === 0 ? (
+          <div className="py-8 text-center text-sm text-gray-500">The trash is empty</div>
+        ) : (
+          <>
+            <div className="max-h-96 overflow-auto border rounded">
+              {items.map((item) => (
+                <div key={item.id} className="px-3 py-2 text-xs border-b last:border-b-0">
+                  <div className="flex items-center gap-2">
+                    {item.type === "directory" ? (
+                      <Folder className="w-4 h-4 text-blue-500 flex-shrink-0" />
+                    ) : (
+                      <File className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{item.name}</div>
+                      <div className="text-gray-500 truncate">
+                        {item.originalPath} • {new Date(item.deletedAt).toLocaleString()}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRestore(item)}
+                      disabled={busyId === item.id}
+                      className="h-6 px-2"
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(item)}
+                      disabled={busyId === item.id}
+                      title="Delete permanently"
+                      className="h-6 w-6 p-0 text-red-600"
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+
+                  {conflictId === item.id && (
+                    <div className="flex items-center gap-2 mt-2 pl-6">
+                      <span className="flex-1 text-amber-700">{item.originalPath} already exists</span>
+                      <Button size="sm" variant="outline" onClick={() => handleRestore(item, "overwrite")} className="h-6 px-2">
+                        Replace
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleRestore(item, "rename")} className="h-6 px-2">
+                        Keep Both
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setConflictId(null)} className="h-6 px-2">
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-500">Items are deleted permanently after 30 days</span>
+              <Button size="sm" variant="destructive" onClick={handleEmpty}>
+                Empty Trash
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
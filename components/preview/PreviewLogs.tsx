@@ -0,0 +1,81 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import type { PreviewInstance, PreviewManager } from "../../lib/local-container/preview-manager"
+import type { LogLine } from "../../lib/local-container/log-buffer"
+import { Button } from "../ui/button"
+import { Trash2 } from "lucide-react"
+
+interface PreviewLogsProps {
+  previewManager: PreviewManager
+  previewId: string
+  maxLines?: number
+  className?: string
+}
+
+export function PreviewLogs({ previewManager, previewId, maxLines = 1000, className }: PreviewLogsProps) {
+  const [lines, setLines] = useState<LogLine[]>([])
+  const [clearedAt, setClearedAt] = useState(0)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    setLines(previewManager.getPreviewLogs(previewId, { since: clearedAt, limit: maxLines }) || [])
+
+    const handleLog = (preview: PreviewInstance, line: LogLine) => {
+      if (preview.id !== previewId) return
+      setLines((prev) => [...prev, line].slice(-maxLines))
+    }
+
+    previewManager.on("previewLog", handleLog)
+
+    return () => {
+      previewManager.off("previewLog", handleLog)
+    }
+  }, [previewManager, previewId, maxLines, clearedAt])
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" })
+  }, [lines])
+
+  const getLineColor = (line: LogLine) => {
+    switch (line.stream) {
+      case "stderr":
+        return "text-red-400"
+      case "system":
+        return "text-blue-400"
+      default:
+        return "text-gray-200"
+    }
+  }
+
+  return (
+    <div className={`preview-logs h-full flex flex-col bg-gray-900 ${className || ""}`}>
+      <div className="flex items-center justify-between px-2 py-1 border-b border-gray-700">
+        <span className="text-xs text-gray-400">{lines.length} lines</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs text-gray-400 hover:text-white"
+          onClick={() => setClearedAt(lines[lines.length - 1]?.seq || clearedAt)}
+        >
+          <Trash2 className="w-3 h-3 mr-1" />
+          Clear
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-2 font-mono text-xs">
+        {lines.length === 0 ? (
+          <div className="text-gray-500">No output yet</div>
+        ) : (
+          lines.map((line) => (
+            <div key={line.seq} className={`whitespace-pre-wrap break-all ${getLineColor(line)}`}>
+              <span className="text-gray-500 mr-2">{new Date(line.timestamp).toLocaleTimeString()}</span>
+              {line.text}
+            </div>
+          ))
+        )}
+        <div ref={bottomRef} />
+      </div>
+    </div>
+  )
+}
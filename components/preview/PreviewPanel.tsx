@@ -1,11 +1,12 @@
 "use client"
 
 import { useState, useEffect, useCallback } from "react"
-import type { PreviewInstance, PreviewManager } from "../../lib/local-container/preview-manager"
+import type { PreviewInstance, PreviewManager, PreviewStatus } from "../../lib/local-container/preview-manager"
 import { Button } from "../ui/button"
 import { Input } from "../ui/input"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs"
-import { Play, Square, RotateCcw, ExternalLink, Plus, X, Globe, AlertCircle } from "lucide-react"
+import { PreviewLogs } from "./PreviewLogs"
+import { Play, Square, RotateCcw, ExternalLink, Plus, X, Globe, AlertCircle, ScrollText } from "lucide-react"
 
 interface PreviewPanelProps {
   previewManager: PreviewManager
@@ -17,6 +18,16 @@ export function PreviewPanel({ previewManager, className }: PreviewPanelProps) {
   const [activePreviewId, setActivePreviewId] = useState<string | null>(null)
   const [isCreating, setIsCreating] = useState(false)
   const [newPreviewPort, setNewPreviewPort] = useState("")
+  const [projects, setProjects] = useState<string[]>(["."])
+  const [projectPath, setProjectPath] = useState(".")
+
+  useEffect(() => {
+    // Discover sub-projects so monorepo apps can be previewed individually
+    previewManager
+      .findProjects()
+      .then((found) => setProjects(found.length > 0 ? found : ["."]))
+      .catch((error) => console.error("Failed to find projects:", error))
+  }, [previewManager])
 
   useEffect(() => {
     // Load existing previews
@@ -27,14 +38,17 @@ export function PreviewPanel({ previewManager, className }: PreviewPanelProps) {
       setActivePreviewId(existingPreviews[0].id)
     }
 
-    // Listen for preview events
-    const handlePreviewStarted = (preview: PreviewInstance) => {
+    // Listen for preview events. Instances are mutated in place by the manager, so
+    // copy them to make React re-render on every lifecycle transition.
+    const handleStatusChange = (preview: PreviewInstance) => {
+      if (preview.status === "stopped") return
+
       setPreviews((prev) => {
         const existing = prev.find((p) => p.id === preview.id)
         if (existing) {
-          return prev.map((p) => (p.id === preview.id ? preview : p))
+          return prev.map((p) => (p.id === preview.id ? { ...preview } : p))
         }
-        return [...prev, preview]
+        return [...prev, { ...preview }]
       })
     }
 
@@ -48,18 +62,15 @@ export function PreviewPanel({ previewManager, className }: PreviewPanelProps) {
 
     const handlePreviewError = (preview: PreviewInstance, error: any) => {
       console.error("Preview error:", error)
-      setPreviews((prev) => prev.map((p) => (p.id === preview.id ? { ...p, status: "error" } : p)))
     }
 
-    previewManager.on("previewStarted", handlePreviewStarted)
+    previewManager.on("statusChange", handleStatusChange)
     previewManager.on("previewStopped", handlePreviewStopped)
-    previewManager.on("previewRestarted", handlePreviewStarted)
     previewManager.on("previewError", handlePreviewError)
 
     return () => {
-      previewManager.off("previewStarted", handlePreviewStarted)
+      previewManager.off("statusChange", handleStatusChange)
       previewManager.off("previewStopped", handlePreviewStopped)
-      previewManager.off("previewRestarted", handlePreviewStarted)
       previewManager.off("previewError", handlePreviewError)
     }
   }, [previewManager, activePreviewId, previews])
@@ -68,7 +79,7 @@ export function PreviewPanel({ previewManager, className }: PreviewPanelProps) {
     try {
       setIsCreating(true)
       const port = newPreviewPort ? Number.parseInt(newPreviewPort) : undefined
-      const preview = await previewManager.createPreview(".", { port })
+      const preview = await previewManager.createPreview(projectPath, { port })
       setActivePreviewId(preview.id)
       setNewPreviewPort("")
     } catch (error) {
@@ -76,7 +87,7 @@ export function PreviewPanel({ previewManager, className }: PreviewPanelProps) {
     } finally {
       setIsCreating(false)
     }
-  }, [previewManager, newPreviewPort])
+  }, [previewManager, newPreviewPort, projectPath])
 
   const handleStopPreview = useCallback(
     async (previewId: string) => {
@@ -92,14 +103,15 @@ export function PreviewPanel({ previewManager, className }: PreviewPanelProps) {
     [previewManager],
   )
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: PreviewStatus) => {
     switch (status) {
-      case "running":
+      case "ready":
         return "text-green-600"
       case "starting":
         return "text-yellow-600"
       case "stopped":
         return "text-gray-600"
+      case "crashed":
       case "error":
         return "text-red-600"
       default:
@@ -107,12 +119,13 @@ export function PreviewPanel({ previewManager, className }: PreviewPanelProps) {
     }
   }
 
-  const getStatusIcon = (status: string) => {
+  const getStatusIcon = (status: PreviewStatus) => {
     switch (status) {
-      case "running":
+      case "ready":
         return <Globe className="w-3 h-3" />
       case "starting":
         return <RotateCcw className="w-3 h-3 animate-spin" />
+      case "crashed":
       case "error":
         return <AlertCircle className="w-3 h-3" />
       default:
@@ -127,6 +140,18 @@ export function PreviewPanel({ previewManager, className }: PreviewPanelProps) {
         <div className="flex items-center justify-between mb-2">
           <h3 className="text-sm font-medium text-gray-900">Preview</h3>
           <div className="flex items-center gap-2">
+            <select
+              value={projectPath}
+              onChange={(e) => setProjectPath(e.target.value)}
+              className="h-6 max-w-32 rounded-md border border-input bg-background px-1 text-xs"
+              title="Project to preview"
+            >
+              {projects.map((project) => (
+                <option key={project} value={project}>
+                  {project === "." ? "(root)" : project}
+                </option>
+              ))}
+            </select>
             <Input
               placeholder="Port (optional)"
               value={newPreviewPort}
@@ -160,7 +185,9 @@ export function PreviewPanel({ previewManager, className }: PreviewPanelProps) {
               <TabsTrigger key={preview.id} value={preview.id} className="relative group data-[state=active]:bg-white">
                 <div className="flex items-center gap-2">
                   <div className={getStatusColor(preview.status)}>{getStatusIcon(preview.status)}</div>
-                  <span className="text-xs">:{preview.port}</span>
+                  <span className="text-xs">
+                    {preview.projectPath !== "." ? `${preview.projectPath} ` : ""}:{preview.port}
+                  </span>
                 </div>
                 <Button
                   variant="ghost"
@@ -194,7 +221,7 @@ export function PreviewPanel({ previewManager, className }: PreviewPanelProps) {
                     variant="ghost"
                     size="sm"
                     onClick={() => window.open(preview.url, "_blank")}
-                    disabled={preview.status !== "running"}
+                    disabled={preview.status !== "ready"}
                   >
                     <ExternalLink className="w-3 h-3" />
                   </Button>
@@ -207,46 +234,75 @@ export function PreviewPanel({ previewManager, className }: PreviewPanelProps) {
                 </div>
               </div>
 
-              {/* Preview Frame */}
-              <div className="preview-frame flex-1">
-                {preview.status === "running" ? (
-                  <iframe
-                    src={preview.url}
-                    className="w-full h-full border-0"
-                    title={`Preview ${preview.port}`}
-                    sandbox="allow-same-origin allow-scripts allow-forms allow-popups allow-modals"
-                  />
-                ) : preview.status === "starting" ? (
-                  <div className="flex items-center justify-center h-full">
-                    <div className="text-center">
-                      <RotateCcw className="w-8 h-8 text-gray-400 mx-auto mb-2 animate-spin" />
-                      <p className="text-gray-500 text-sm">Starting server...</p>
-                    </div>
-                  </div>
-                ) : preview.status === "error" ? (
-                  <div className="flex items-center justify-center h-full">
-                    <div className="text-center">
-                      <AlertCircle className="w-8 h-8 text-red-400 mx-auto mb-2" />
-                      <p className="text-red-600 text-sm">Server failed to start</p>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="mt-2 bg-transparent"
-                        onClick={() => handleRestartPreview(preview.id)}
-                      >
-                        Try Again
-                      </Button>
-                    </div>
-                  </div>
-                ) : (
-                  <div className="flex items-center justify-center h-full">
-                    <div className="text-center">
-                      <Square className="w-8 h-8 text-gray-400 mx-auto mb-2" />
-                      <p className="text-gray-500 text-sm">Server stopped</p>
-                    </div>
+              <Tabs defaultValue="preview" className="flex-1 flex flex-col min-h-0">
+                <TabsList className="bg-gray-50 border-b border-gray-200 rounded-none justify-start h-8">
+                  <TabsTrigger value="preview" className="text-xs">
+                    Preview
+                  </TabsTrigger>
+                  <TabsTrigger value="logs" className="text-xs flex items-center gap-1">
+                    <ScrollText className="w-3 h-3" />
+                    Logs
+                  </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="preview" className="flex-1 m-0 p-0 min-h-0">
+                  {/* Preview Frame */}
+                  <div className="preview-frame h-full">
+                    {preview.status === "ready" ? (
+                      <iframe
+                        src={preview.url}
+                        className="w-full h-full border-0"
+                        title={`Preview ${preview.port}`}
+                        sandbox="allow-same-origin allow-scripts allow-forms allow-popups allow-modals"
+                      />
+                    ) : preview.status === "starting" ? (
+                      <div className="flex items-center justify-center h-full">
+                        <div className="text-center">
+                          <RotateCcw className="w-8 h-8 text-gray-400 mx-auto mb-2 animate-spin" />
+                          <p className="text-gray-500 text-sm">Starting server...</p>
+                        </div>
+                      </div>
+                    ) : preview.status === "error" || preview.status === "crashed" ? (
+                      <div className="flex items-center justify-center h-full">
+                        <div className="text-center max-w-md">
+                          <AlertCircle className="w-8 h-8 text-red-400 mx-auto mb-2" />
+                          <p className="text-red-600 text-sm">
+                            {preview.status === "crashed" ? "Server crashed" : "Server failed to start"}
+                          </p>
+                          {preview.error && <p className="text-gray-500 text-xs mt-1">{preview.error}</p>}
+                          <ol className="text-left text-xs text-gray-400 mt-3 space-y-0.5">
+                            {preview.statusHistory.slice(-5).map((event, index) => (
+                              <li key={index}>
+                                {new Date(event.timestamp).toLocaleTimeString()} — {event.status}
+                                {event.exitCode !== undefined ? ` (exit ${event.exitCode})` : ""}
+                              </li>
+                            ))}
+                          </ol>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="mt-2 bg-transparent"
+                            onClick={() => handleRestartPreview(preview.id)}
+                          >
+                            Try Again
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex items-center justify-center h-full">
+                        <div className="text-center">
+                          <Square className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+                          <p className="text-gray-500 text-sm">Server stopped</p>
+                        </div>
+                      </div>
+                    )}
                   </div>
-                )}
-              </div>
+                </TabsContent>
+
+                <TabsContent value="logs" className="flex-1 m-0 p-0 min-h-0">
+                  <PreviewLogs previewManager={previewManager} previewId={preview.id} className="h-full" />
+                </TabsContent>
+              </Tabs>
             </TabsContent>
           ))}
         </Tabs>
@@ -121,6 +121,11 @@ export function ProjectManager({ projectManager, className }: ProjectManagerProp
               <div>
                 <strong>Type:</strong> {projectInfo.metadata.type}
               </div>
+              {projectInfo.metadata.framework && (
+                <div>
+                  <strong>Framework:</strong> {projectInfo.metadata.framework}
+                </div>
+              )}
               <div>
                 <strong>Files:</strong> {projectInfo.stats.totalFiles}
               </div>
@@ -8,16 +8,61 @@ import "@xterm/xterm/css/xterm.css"
 
 interface TerminalProps {
   sessionId: string
-  onCommand?: (command: string) => void
+  onExit?: (exitCode: number) => void
   className?: string
 }
 
-export function Terminal({ sessionId, onCommand, className }: TerminalProps) {
+export function Terminal({ sessionId, onExit, className }: TerminalProps) {
   const terminalRef = useRef<HTMLDivElement>(null)
   const xtermRef = useRef<XTerm | null>(null)
   const fitAddonRef = useRef<FitAddon | null>(null)
-  const [currentLine, setCurrentLine] = useState("")
-  const [isReady, setIsReady] = useState(false)
+  const socketRef = useRef<WebSocket | null>(null)
+  const [isConnected, setIsConnected] = useState(false)
+
+  const sendMessage = useCallback((message: Record<string, unknown>) => {
+    const socket = socketRef.current
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message))
+    }
+  }, [])
+
+  const connect = useCallback(
+    (terminal: XTerm) => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:"
+      const url = `${protocol}//${window.location.host}/terminal/${encodeURIComponent(sessionId)}?cols=${terminal.cols}&rows=${terminal.rows}`
+      const socket = new WebSocket(url)
+
+      socket.onopen = () => {
+        setIsConnected(true)
+      }
+
+      socket.onmessage = (event) => {
+        try {
+          const message = JSON.parse(event.data)
+
+          if (message.type === "output") {
+            terminal.write(message.data)
+          } else if (message.type === "exit") {
+            terminal.write(`\r\n\x1b[90m[process exited with code ${message.exitCode}]\x1b[0m\r\n`)
+            onExit?.(message.exitCode)
+          }
+        } catch (error) {
+          console.error("Invalid terminal message:", error)
+        }
+      }
+
+      socket.onclose = () => {
+        setIsConnected(false)
+      }
+
+      socket.onerror = () => {
+        terminal.write("\r\n\x1b[31mTerminal connection error\x1b[0m\r\n")
+      }
+
+      socketRef.current = socket
+    },
+    [sessionId, onExit],
+  )
 
   const initializeTerminal = useCallback(() => {
     if (!terminalRef.current || xtermRef.current) return
@@ -27,7 +72,7 @@ export function Terminal({ sessionId, onCommand, className }: TerminalProps) {
         background: "#1a1a1a",
         foreground: "#ffffff",
         cursor: "#ffffff",
-        selection: "#3e3e3e",
+        selectionBackground: "#3e3e3e",
       },
       fontFamily: "JetBrains Mono, Consolas, Monaco, monospace",
       fontSize: 14,
@@ -45,152 +90,20 @@ export function Terminal({ sessionId, onCommand, className }: TerminalProps) {
     terminal.open(terminalRef.current)
     fitAddon.fit()
 
-    // Set up terminal event handlers
+    // Raw keystrokes (including Ctrl+C, arrows, tab) go straight to the PTY
     terminal.onData((data) => {
-      handleTerminalInput(data)
+      sendMessage({ type: "input", data })
     })
 
-    terminal.onKey(({ key, domEvent }) => {
-      handleKeyPress(key, domEvent)
+    terminal.onResize(({ cols, rows }) => {
+      sendMessage({ type: "resize", cols, rows })
     })
 
     xtermRef.current = terminal
     fitAddonRef.current = fitAddon
-    setIsReady(true)
-
-    // Write initial prompt
-    writePrompt()
-  }, [sessionId])
-
-  const handleTerminalInput = useCallback(
-    (data: string) => {
-      const terminal = xtermRef.current
-      if (!terminal) return
-
-      const code = data.charCodeAt(0)
-
-      // Handle special keys
-      if (code === 13) {
-        // Enter
-        terminal.write("\r\n")
-        if (currentLine.trim()) {
-          executeCommand(currentLine.trim())
-          setCurrentLine("")
-        }
-        writePrompt()
-      } else if (code === 127) {
-        // Backspace
-        if (currentLine.length > 0) {
-          setCurrentLine((prev) => prev.slice(0, -1))
-          terminal.write("\b \b")
-        }
-      } else if (code === 3) {
-        // Ctrl+C
-        terminal.write("^C\r\n")
-        setCurrentLine("")
-        writePrompt()
-      } else if (code >= 32) {
-        // Printable characters
-        setCurrentLine((prev) => prev + data)
-        terminal.write(data)
-      }
-    },
-    [currentLine],
-  )
 
-  const handleKeyPress = useCallback((key: string, domEvent: KeyboardEvent) => {
-    // Handle special key combinations
-    if (domEvent.ctrlKey) {
-      switch (domEvent.key) {
-        case "c":
-          // Ctrl+C handled in handleTerminalInput
-          break
-        case "l":
-          // Ctrl+L - clear screen
-          domEvent.preventDefault()
-          clearTerminal()
-          break
-      }
-    }
-  }, [])
-
-  const executeCommand = useCallback(
-    async (command: string) => {
-      onCommand?.(command)
-
-      try {
-        const response = await fetch("/api/terminal/execute", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            sessionId,
-            command: command.split(" ")[0],
-            args: command.split(" ").slice(1),
-          }),
-        })
-
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`)
-        }
-
-        // Handle streaming response
-        const reader = response.body?.getReader()
-        if (!reader) return
-
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) break
-
-          const text = new TextDecoder().decode(value)
-          const lines = text.split("\n")
-
-          for (const line of lines) {
-            if (line.trim()) {
-              try {
-                const output = JSON.parse(line)
-                writeOutput(output.data, output.type === "stderr")
-              } catch {
-                // If not JSON, write as plain text
-                writeOutput(line)
-              }
-            }
-          }
-        }
-      } catch (error) {
-        writeOutput(`Error executing command: ${error}`, true)
-      }
-    },
-    [sessionId, onCommand],
-  )
-
-  const writeOutput = useCallback((text: string, isError = false) => {
-    const terminal = xtermRef.current
-    if (!terminal) return
-
-    if (isError) {
-      terminal.write(`\x1b[31m${text}\x1b[0m\r\n`) // Red text
-    } else {
-      terminal.write(`${text}\r\n`)
-    }
-  }, [])
-
-  const writePrompt = useCallback(() => {
-    const terminal = xtermRef.current
-    if (!terminal) return
-
-    const prompt = "\x1b[32m$\x1b[0m " // Green $ prompt
-    terminal.write(prompt)
-  }, [])
-
-  const clearTerminal = useCallback(() => {
-    const terminal = xtermRef.current
-    if (!terminal) return
-
-    terminal.clear()
-    writePrompt()
-  }, [writePrompt])
+    connect(terminal)
+  }, [connect, sendMessage])
 
   const resizeTerminal = useCallback(() => {
     if (fitAddonRef.current && xtermRef.current) {
@@ -206,8 +119,11 @@ export function Terminal({ sessionId, onCommand, className }: TerminalProps) {
 
     return () => {
       window.removeEventListener("resize", resizeTerminal)
+      socketRef.current?.close()
+      socketRef.current = null
       if (xtermRef.current) {
         xtermRef.current.dispose()
+        xtermRef.current = null
       }
     }
   }, [initializeTerminal, resizeTerminal])
@@ -218,8 +134,17 @@ export function Terminal({ sessionId, onCommand, className }: TerminalProps) {
     return () => clearTimeout(timer)
   }, [resizeTerminal])
 
+  useEffect(() => {
+    // Panels can change size without a window resize (e.g. dragging a ResizableHandle)
+    if (!terminalRef.current) return
+
+    const observer = new ResizeObserver(() => resizeTerminal())
+    observer.observe(terminalRef.current)
+    return () => observer.disconnect()
+  }, [resizeTerminal])
+
   return (
-    <div className={`terminal-container ${className || ""}`}>
+    <div className={`terminal-container ${className || ""}`} data-connected={isConnected}>
       <div
         ref={terminalRef}
         className="terminal-content"
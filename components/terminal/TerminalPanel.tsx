@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useEffect } from "react"
 import { Terminal } from "./Terminal"
 import { Button } from "../ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../ui/tabs"
@@ -12,7 +12,12 @@ interface TerminalSession {
   active: boolean
 }
 
-export function TerminalPanel() {
+interface TerminalPanelProps {
+  // Bumped by the page to open another session, e.g. from the command palette
+  newSessionRequest?: number
+}
+
+export function TerminalPanel({ newSessionRequest }: TerminalPanelProps = {}) {
   const [sessions, setSessions] = useState<TerminalSession[]>([{ id: "default", name: "Terminal 1", active: true }])
   const [activeSessionId, setActiveSessionId] = useState("default")
 
@@ -28,6 +33,13 @@ export function TerminalPanel() {
     setActiveSessionId(newId)
   }, [sessions.length])
 
+  useEffect(() => {
+    if (newSessionRequest) {
+      createNewSession()
+    }
+    // Only a new request opens a session, not a changed callback
+  }, [newSessionRequest])
+
   const closeSession = useCallback(
     (sessionId: string) => {
       if (sessions.length <= 1) return // Keep at least one session
@@ -37,21 +49,15 @@ export function TerminalPanel() {
         if (sessionId === activeSessionId && filtered.length > 0) {
           setActiveSessionId(filtered[0].id)
         }
+        // Unmounting the Terminal closes its socket, which tears down the server-side PTY
         return filtered
       })
-
-      // Clean up session on server
-      fetch("/api/terminal/session", {
-        method: "DELETE",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ sessionId }),
-      })
     },
     [sessions.length, activeSessionId],
   )
 
-  const handleCommand = useCallback((command: string) => {
-    console.log(`Executed command: ${command}`)
+  const handleExit = useCallback((exitCode: number) => {
+    console.log(`Terminal shell exited with code ${exitCode}`)
   }, [])
 
   return (
@@ -90,7 +96,7 @@ export function TerminalPanel() {
 
         {sessions.map((session) => (
           <TabsContent key={session.id} value={session.id} className="flex-1 m-0 p-0">
-            <Terminal sessionId={session.id} onCommand={handleCommand} className="h-full" />
+            <Terminal sessionId={session.id} onExit={handleExit} className="h-full" />
           </TabsContent>
         ))}
       </Tabs>
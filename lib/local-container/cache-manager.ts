@@ -5,19 +5,67 @@ export interface CacheEntry<T> {
   timestamp: number
   ttl: number
   hits: number
+  // Estimated size in bytes
+  size: number
 }
 
+export interface CacheOptions<T> {
+  // Total size budget; least recently used entries are evicted to stay under it
+  maxBytes?: number
+  // Values larger than this are not cached at all
+  maxEntryBytes?: number
+  // Size estimate for a value, in bytes
+  sizeOf?: (value: T) => number
+}
+
+export interface CacheStats {
+  size: number
+  maxSize: number
+  bytes: number
+  maxBytes: number
+  hitRate: number
+  totalHits: number
+  totalMisses: number
+  evictions: number
+  expirations: number
+  // set() calls rejected for exceeding maxEntryBytes
+  bypassed: number
+}
+
+// Rough in-memory size: JS strings are UTF-16, so two bytes per character
+export function estimateSize(value: unknown): number {
+  if (typeof value === "string") return value.length * 2
+  if (Buffer.isBuffer(value) || value instanceof Uint8Array) return value.byteLength
+  if (Array.isArray(value)) return value.reduce((total: number, item) => total + estimateSize(item) + 8, 16)
+  return 64
+}
+
+// LRU cache bounded by entry count and total bytes. The Map's insertion order is the
+// recency order: reads move an entry to the end, eviction takes from the front, so every
+// operation is O(1).
 export class CacheManager<T = any> extends EventEmitter {
   private cache: Map<string, CacheEntry<T>> = new Map()
   private maxSize: number
   private defaultTTL: number
+  private maxBytes: number
+  private maxEntryBytes: number
+  private sizeOf: (value: T) => number
+  private bytes = 0
+  private hits = 0
+  private misses = 0
+  private evictions = 0
+  private expirations = 0
+  private bypassed = 0
   private cleanupInterval: NodeJS.Timeout
 
-  constructor(maxSize = 1000, defaultTTL = 300000) {
+  constructor(maxSize = 1000, defaultTTL = 300000, options: CacheOptions<T> = {}) {
     // 5 minutes default TTL
     super()
     this.maxSize = maxSize
     this.defaultTTL = defaultTTL
+    this.maxBytes = options.maxBytes ?? Number.POSITIVE_INFINITY
+    this.maxEntryBytes = options.maxEntryBytes ?? this.maxBytes
+    this.sizeOf = options.sizeOf ?? estimateSize
 
     // Cleanup expired entries every minute
     this.cleanupInterval = setInterval(() => {
@@ -25,10 +73,21 @@ export class CacheManager<T = any> extends EventEmitter {
     }, 60000)
   }
 
-  set(key: string, value: T, ttl?: number): void {
-    // Remove oldest entries if cache is full
-    if (this.cache.size >= this.maxSize) {
-      this.evictOldest()
+  // Returns false when the value is too large to cache
+  set(key: string, value: T, ttl?: number): boolean {
+    const size = this.sizeOf(value)
+
+    // Never keep a stale value around for a key we failed to update
+    this.remove(key)
+
+    if (size > this.maxEntryBytes) {
+      this.bypassed++
+      this.emit("bypass", key, size)
+      return false
+    }
+
+    while (this.cache.size > 0 && (this.cache.size >= this.maxSize || this.bytes + size > this.maxBytes)) {
+      this.evictLeastRecent()
     }
 
     const entry: CacheEntry<T> = {
@@ -36,28 +95,39 @@ export class CacheManager<T = any> extends EventEmitter {
       timestamp: Date.now(),
       ttl: ttl || this.defaultTTL,
       hits: 0,
+      size,
     }
 
     this.cache.set(key, entry)
+    this.bytes += size
     this.emit("set", key, value)
+    return true
   }
 
   get(key: string): T | undefined {
     const entry = this.cache.get(key)
 
     if (!entry) {
+      this.misses++
       this.emit("miss", key)
       return undefined
     }
 
     // Check if entry has expired
     if (Date.now() - entry.timestamp > entry.ttl) {
-      this.cache.delete(key)
+      this.remove(key)
+      this.expirations++
+      this.misses++
       this.emit("expired", key)
       return undefined
     }
 
+    // Mark as most recently used
+    this.cache.delete(key)
+    this.cache.set(key, entry)
+
     entry.hits++
+    this.hits++
     this.emit("hit", key)
     return entry.value
   }
@@ -68,7 +138,8 @@ export class CacheManager<T = any> extends EventEmitter {
 
     // Check if expired
     if (Date.now() - entry.timestamp > entry.ttl) {
-      this.cache.delete(key)
+      this.remove(key)
+      this.expirations++
       return false
     }
 
@@ -76,49 +147,61 @@ export class CacheManager<T = any> extends EventEmitter {
   }
 
   delete(key: string): boolean {
-    const deleted = this.cache.delete(key)
+    const deleted = this.remove(key)
     if (deleted) {
       this.emit("delete", key)
     }
     return deleted
   }
 
+  // Delete every key the predicate matches, e.g. all entries below a removed directory
+  deleteWhere(predicate: (key: string) => boolean): number {
+    const keys: string[] = []
+    this.cache.forEach((_, key) => {
+      if (predicate(key)) keys.push(key)
+    })
+
+    keys.forEach((key) => this.delete(key))
+    return keys.length
+  }
+
   clear(): void {
     this.cache.clear()
+    this.bytes = 0
     this.emit("clear")
   }
 
-  private evictOldest(): void {
-    // Find entry with lowest hits and oldest timestamp
-    let oldestKey: string | null = null
-    let oldestScore = Number.POSITIVE_INFINITY
+  private remove(key: string): boolean {
+    const entry = this.cache.get(key)
+    if (!entry) return false
 
-    for (const [key, entry] of this.cache.entries()) {
-      const score = entry.hits + (Date.now() - entry.timestamp) / 1000
-      if (score < oldestScore) {
-        oldestScore = score
-        oldestKey = key
-      }
-    }
+    this.cache.delete(key)
+    this.bytes -= entry.size
+    return true
+  }
 
-    if (oldestKey) {
-      this.cache.delete(oldestKey)
-      this.emit("evicted", oldestKey)
-    }
+  private evictLeastRecent(): void {
+    const oldestKey = this.cache.keys().next().value
+    if (oldestKey === undefined) return
+
+    this.remove(oldestKey)
+    this.evictions++
+    this.emit("evicted", oldestKey)
   }
 
   private cleanup(): void {
     const now = Date.now()
     const expiredKeys: string[] = []
 
-    for (const [key, entry] of this.cache.entries()) {
+    this.cache.forEach((entry, key) => {
       if (now - entry.timestamp > entry.ttl) {
         expiredKeys.push(key)
       }
-    }
+    })
 
     for (const key of expiredKeys) {
-      this.cache.delete(key)
+      this.remove(key)
+      this.expirations++
       this.emit("expired", key)
     }
 
@@ -127,32 +210,31 @@ export class CacheManager<T = any> extends EventEmitter {
     }
   }
 
-  getStats(): {
-    size: number
-    maxSize: number
-    hitRate: number
-    totalHits: number
-    totalMisses: number
-  } {
-    let totalHits = 0
-    let totalMisses = 0
-
-    for (const entry of this.cache.values()) {
-      totalHits += entry.hits
-    }
-
-    // Estimate misses (this is approximate)
-    totalMisses = Math.max(0, totalHits * 0.1) // Assume 10% miss rate
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses
 
     return {
       size: this.cache.size,
       maxSize: this.maxSize,
-      hitRate: totalHits / (totalHits + totalMisses) || 0,
-      totalHits,
-      totalMisses,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      totalHits: this.hits,
+      totalMisses: this.misses,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      bypassed: this.bypassed,
     }
   }
 
+  resetStats(): void {
+    this.hits = 0
+    this.misses = 0
+    this.evictions = 0
+    this.expirations = 0
+    this.bypassed = 0
+  }
+
   dispose(): void {
     clearInterval(this.cleanupInterval)
     this.clear()
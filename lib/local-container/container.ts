@@ -2,6 +2,7 @@ import path from "path"
 import type { LocalContainer, LocalFileSystem, LocalTerminal } from "./types"
 import { NodeFileSystem } from "./file-system"
 import { NodeTerminal } from "./terminal"
+import { isWithin, PathSecurityError } from "./path-security"
 
 export class LocalContainerImpl implements LocalContainer {
   public fs: LocalFileSystem
@@ -11,7 +12,7 @@ export class LocalContainerImpl implements LocalContainer {
 
   constructor(workdir: string) {
     this.workdir = path.resolve(workdir)
-    this.fs = new NodeFileSystem(this.workdir)
+    this.fs = new NodeFileSystem(this.workdir, { mountRoots: () => this.getMountRoots() })
     this.terminal = new NodeTerminal(this.workdir)
   }
 
@@ -20,11 +21,17 @@ export class LocalContainerImpl implements LocalContainer {
     const fullHostPath = path.resolve(hostPath)
     const fullContainerPath = path.resolve(this.workdir, mountPath)
 
-    this.mountPoints.set(fullContainerPath, fullHostPath)
+    if (!isWithin(this.workdir, fullContainerPath) || fullContainerPath === this.workdir) {
+      throw new PathSecurityError(`Mount point ${mountPath} is outside of the workspace`)
+    }
+
+    const { promises: fs } = await import("fs")
+
+    // Record the real host path: the file system's symlink policy checks resolved paths against it
+    this.mountPoints.set(fullContainerPath, await fs.realpath(fullHostPath))
 
     // Create symbolic link or copy files
     try {
-      const { promises: fs } = await import("fs")
       await fs.symlink(fullHostPath, fullContainerPath)
     } catch (error) {
       console.warn(`Failed to create symlink, copying files instead: ${error}`)
@@ -42,6 +49,11 @@ export class LocalContainerImpl implements LocalContainer {
     }
   }
 
+  // Host directories that symlinks in the workspace may point into
+  getMountRoots(): string[] {
+    return Array.from(this.mountPoints.values())
+  }
+
   private async copyDirectory(src: string, dest: string): Promise<void> {
     const { promises: fs } = await import("fs")
 
@@ -1,8 +1,11 @@
-import { createServer, type ViteDevServer } from "vite"
+import { createServer, createLogger, type Logger, type ViteDevServer } from "vite"
 import express from "express"
 import { createProxyMiddleware } from "http-proxy-middleware"
-import type { LocalContainer } from "./types"
+import type { LocalContainer, LocalFileSystem } from "./types"
+import { EventEmitter } from "events"
+import net from "net"
 import path from "path"
+import { isWithin } from "./path-security"
 
 export interface DevServerConfig {
   port?: number
@@ -10,9 +13,328 @@ export interface DevServerConfig {
   https?: boolean
   proxy?: Record<string, string>
   env?: Record<string, string>
+  basePath?: string
+  // Project directory relative to the container workdir (e.g. "apps/web")
+  projectPath?: string
 }
 
-export class LocalDevServer {
+export interface DevServerOutput {
+  stream: "stdout" | "stderr"
+  text: string
+}
+
+export interface DevServerExit {
+  code: number
+  // True when the exit was caused by stop()
+  expected: boolean
+}
+
+// Console output that dev servers print once they accept connections, used when a
+// framework does not declare its own ready pattern
+const READY_PATTERNS = [
+  /ready in \d/i, // Vite
+  /Local:\s+https?:\/\//i, // Vite, Next.js 13+
+  /ready - started server/i, // Next.js 12
+  /compiled successfully/i, // Create React App, webpack
+  /listening on/i,
+]
+
+export type PackageManager = "npm" | "pnpm" | "yarn" | "bun"
+
+// Checked in order at each directory level; the first match wins
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["bun.lockb", "bun"],
+  ["bun.lock", "bun"],
+  ["package-lock.json", "npm"],
+]
+
+// Prefix for running a package binary that has no package.json script
+const EXEC_ARGS: Record<PackageManager, string[]> = {
+  npm: ["exec", "--"],
+  pnpm: ["exec"],
+  yarn: [],
+  bun: ["x"],
+}
+
+export type ProjectType = "web" | "node" | "react" | "vue" | "angular" | "static" | "other"
+
+export interface PackageJson {
+  name?: string
+  description?: string
+  version?: string
+  author?: string
+  dependencies?: Record<string, string>
+  devDependencies?: Record<string, string>
+  scripts?: Record<string, string>
+}
+
+export interface ProjectContext {
+  packageJson: PackageJson | null
+  // dependencies and devDependencies merged
+  deps: Record<string, string>
+  // Entry names in the project directory
+  files: string[]
+}
+
+export type FrameworkStart =
+  // Embedded Vite server
+  | { kind: "vite" }
+  // Embedded static file server
+  | { kind: "static" }
+  // First of `scripts` that package.json defines, otherwise the `fallback` package binary
+  | { kind: "script"; scripts: string[]; fallback?: string[] }
+
+export interface FrameworkDetector {
+  id: string
+  name: string
+  detect: (project: ProjectContext) => boolean
+  projectType: ProjectType | ((project: ProjectContext) => ProjectType)
+  start: FrameworkStart
+  // Extra arguments for the start command; {port} and {host} are substituted
+  portArgs?: string[]
+  // Environment variables that receive the port
+  portEnv?: string[]
+  // Arguments that make the server serve under a base path; {basePath} is substituted. A
+  // server that takes neither these nor basePathEnv is previewed on its own subdomain.
+  basePathArgs?: string[]
+  // Environment variables that receive the base path
+  basePathEnv?: string[]
+  // Output line that means the server accepts connections
+  readyPattern?: RegExp
+}
+
+const hasDep = (project: ProjectContext, ...names: string[]) => names.some((name) => name in project.deps)
+const hasScript = (project: ProjectContext, ...names: string[]) => names.some((name) => !!project.packageJson?.scripts?.[name])
+const hasFile = (project: ProjectContext, ...names: string[]) => names.some((name) => project.files.includes(name))
+
+// Projects on a general-purpose toolchain are categorised by their UI library
+const uiProjectType = (fallback: ProjectType) => (project: ProjectContext): ProjectType => {
+  if (hasDep(project, "react")) return "react"
+  if (hasDep(project, "vue")) return "vue"
+  if (hasDep(project, "@angular/core")) return "angular"
+  return fallback
+}
+
+const VITE_PORT_ARGS = ["--port", "{port}", "--host", "{host}"]
+const VITE_READY = /ready in \d|Local:\s+https?:\/\//i
+
+// Checked in order; the first detector that matches wins, so more specific frameworks
+// come before the toolchains they build on. The static detector always matches.
+const frameworkRegistry: FrameworkDetector[] = [
+  {
+    id: "next",
+    name: "Next.js",
+    detect: (project) => hasDep(project, "next"),
+    projectType: "react",
+    start: { kind: "script", scripts: ["dev"], fallback: ["next", "dev"] },
+    portArgs: ["--port", "{port}", "--hostname", "{host}"],
+    portEnv: ["PORT"],
+    readyPattern: /ready in \d|ready - started server|Local:\s+https?:\/\//i,
+  },
+  {
+    id: "nuxt",
+    name: "Nuxt",
+    detect: (project) => hasDep(project, "nuxt", "nuxt3"),
+    projectType: "vue",
+    start: { kind: "script", scripts: ["dev"], fallback: ["nuxi", "dev"] },
+    portArgs: ["--port", "{port}", "--host", "{host}"],
+    portEnv: ["PORT", "NUXT_PORT"],
+    basePathEnv: ["NUXT_APP_BASE_URL"],
+    readyPattern: /Local:\s+https?:\/\//i,
+  },
+  {
+    id: "remix-vite",
+    name: "Remix (Vite)",
+    detect: (project) => hasDep(project, "@remix-run/dev") && hasDep(project, "vite"),
+    projectType: "react",
+    start: { kind: "script", scripts: ["dev"], fallback: ["remix", "vite:dev"] },
+    portArgs: VITE_PORT_ARGS,
+    readyPattern: VITE_READY,
+  },
+  {
+    id: "remix",
+    name: "Remix",
+    detect: (project) => hasDep(project, "@remix-run/dev"),
+    projectType: "react",
+    start: { kind: "script", scripts: ["dev"], fallback: ["remix", "dev"] },
+    portEnv: ["PORT"],
+    readyPattern: /\[remix-serve\] https?:\/\/|Local:\s+https?:\/\//i,
+  },
+  {
+    id: "sveltekit",
+    name: "SvelteKit",
+    detect: (project) => hasDep(project, "@sveltejs/kit"),
+    projectType: "web",
+    start: { kind: "script", scripts: ["dev"], fallback: ["vite", "dev"] },
+    portArgs: VITE_PORT_ARGS,
+    readyPattern: VITE_READY,
+  },
+  {
+    id: "astro",
+    name: "Astro",
+    detect: (project) => hasDep(project, "astro"),
+    projectType: "web",
+    start: { kind: "script", scripts: ["dev", "start"], fallback: ["astro", "dev"] },
+    portArgs: VITE_PORT_ARGS,
+    basePathArgs: ["--base", "{basePath}"],
+    readyPattern: /ready in \d|Local\s+https?:\/\//i,
+  },
+  {
+    id: "gatsby",
+    name: "Gatsby",
+    detect: (project) => hasDep(project, "gatsby"),
+    projectType: "react",
+    start: { kind: "script", scripts: ["develop", "dev", "start"], fallback: ["gatsby", "develop"] },
+    portArgs: ["--port", "{port}", "--host", "{host}"],
+    readyPattern: /You can now view .* in the browser/i,
+  },
+  {
+    id: "angular",
+    name: "Angular CLI",
+    detect: (project) => hasDep(project, "@angular/cli") || hasFile(project, "angular.json"),
+    projectType: "angular",
+    start: { kind: "script", scripts: ["start"], fallback: ["ng", "serve"] },
+    portArgs: ["--port", "{port}", "--host", "{host}"],
+    readyPattern: /Compiled successfully|Local:\s+https?:\/\/|Development Server is listening/i,
+  },
+  {
+    id: "vue-cli",
+    name: "Vue CLI",
+    detect: (project) => hasDep(project, "@vue/cli-service"),
+    projectType: "vue",
+    start: { kind: "script", scripts: ["serve", "dev"], fallback: ["vue-cli-service", "serve"] },
+    portArgs: ["--port", "{port}", "--host", "{host}"],
+    readyPattern: /App running at|Compiled successfully/i,
+  },
+  {
+    id: "create-react-app",
+    name: "Create React App",
+    detect: (project) => hasDep(project, "react-scripts"),
+    projectType: "react",
+    start: { kind: "script", scripts: ["start"], fallback: ["react-scripts", "start"] },
+    portEnv: ["PORT"],
+    basePathEnv: ["PUBLIC_URL"],
+    readyPattern: /Compiled successfully|You can now view/i,
+  },
+  {
+    id: "parcel",
+    name: "Parcel",
+    detect: (project) => hasDep(project, "parcel", "parcel-bundler"),
+    projectType: uiProjectType("web"),
+    start: { kind: "script", scripts: ["dev", "start"], fallback: ["parcel", "index.html"] },
+    portArgs: ["--port", "{port}", "--host", "{host}"],
+    basePathArgs: ["--public-url", "{basePath}"],
+    readyPattern: /Server running at/i,
+  },
+  {
+    id: "eleventy",
+    name: "Eleventy",
+    detect: (project) => hasDep(project, "@11ty/eleventy"),
+    projectType: "static",
+    start: { kind: "script", scripts: ["dev", "start", "serve"], fallback: ["eleventy", "--serve"] },
+    portArgs: ["--port", "{port}"],
+    basePathArgs: ["--pathprefix", "{basePath}"],
+    readyPattern: /Server at https?:\/\//i,
+  },
+  {
+    id: "vite",
+    name: "Vite",
+    detect: (project) => hasDep(project, "vite"),
+    projectType: uiProjectType("web"),
+    start: { kind: "vite" },
+  },
+  {
+    // index.html with TypeScript sources and no bundler: Vite transpiles the TypeScript
+    id: "typescript-html",
+    name: "HTML + TypeScript",
+    detect: (project) =>
+      hasFile(project, "index.html") &&
+      (hasFile(project, "tsconfig.json") || project.files.some((file) => /\.tsx?$/.test(file))),
+    projectType: "web",
+    start: { kind: "vite" },
+  },
+  {
+    id: "node",
+    name: "Node.js",
+    detect: (project) => hasScript(project, "dev", "start"),
+    projectType: (project) =>
+      hasDep(project, "express", "fastify", "koa") ? "node" : uiProjectType("web")(project),
+    start: { kind: "script", scripts: ["dev", "start"] },
+    portEnv: ["PORT"],
+  },
+  {
+    id: "static",
+    name: "Static",
+    detect: () => true,
+    projectType: (project) => (project.packageJson ? uiProjectType("static")(project) : "other"),
+    start: { kind: "static" },
+  },
+]
+
+// Registers a detector ahead of the built-in ones, replacing any with the same id
+export function registerFramework(detector: FrameworkDetector): void {
+  unregisterFramework(detector.id)
+  frameworkRegistry.unshift(detector)
+}
+
+export function unregisterFramework(id: string): boolean {
+  const index = frameworkRegistry.findIndex((detector) => detector.id === id)
+  if (index === -1) return false
+
+  frameworkRegistry.splice(index, 1)
+  return true
+}
+
+export function getFrameworks(): FrameworkDetector[] {
+  return [...frameworkRegistry]
+}
+
+export function resolveProjectType(framework: FrameworkDetector, project: ProjectContext): ProjectType {
+  return typeof framework.projectType === "function" ? framework.projectType(project) : framework.projectType
+}
+
+export async function loadProjectContext(fs: LocalFileSystem, projectPath = "."): Promise<ProjectContext> {
+  const project: ProjectContext = { packageJson: null, deps: {}, files: [] }
+
+  try {
+    project.files = await fs.readdir(projectPath)
+  } catch {
+    return project
+  }
+
+  if (project.files.includes("package.json")) {
+    try {
+      project.packageJson = JSON.parse(await fs.readFile(path.join(projectPath, "package.json")))
+      project.deps = { ...project.packageJson?.dependencies, ...project.packageJson?.devDependencies }
+    } catch (error) {
+      console.warn("Failed to read package.json:", error)
+    }
+  }
+
+  return project
+}
+
+export async function detectFramework(
+  fs: LocalFileSystem,
+  projectPath = ".",
+): Promise<{ framework: FrameworkDetector; project: ProjectContext }> {
+  const project = await loadProjectContext(fs, projectPath)
+  const framework = frameworkRegistry.find((detector) => {
+    try {
+      return detector.detect(project)
+    } catch (error) {
+      console.warn(`Framework detector ${detector.id} failed:`, error)
+      return false
+    }
+  })
+
+  // The static detector matches everything unless it was unregistered
+  return { framework: framework || frameworkRegistry[frameworkRegistry.length - 1], project }
+}
+
+export class LocalDevServer extends EventEmitter {
   private server: ViteDevServer | null = null
   private expressApp: express.Application | null = null
   private httpServer: any = null
@@ -20,28 +342,39 @@ export class LocalDevServer {
   private port: number
   private config: DevServerConfig
   private process: any = null // Declare process variable here
+  private mountedAtBasePath = false
+  private readySignalled = false
+  private stopping = false
+  private projectPath: string
+  private projectDir: string
+  private framework: FrameworkDetector | null = null
 
   constructor(container: LocalContainer, port = 3000, config: DevServerConfig = {}) {
+    super()
     this.container = container
     this.port = port
     this.config = { port, host: "0.0.0.0", ...config }
+    this.projectPath = path.normalize(config.projectPath || ".")
+    this.projectDir = path.resolve(container.workdir, this.projectPath)
+
+    if (!isWithin(container.workdir, this.projectDir)) {
+      throw new Error(`Project path ${this.projectPath} is outside of the workspace`)
+    }
   }
 
   async start(): Promise<void> {
-    const projectType = await this.detectProjectType()
+    this.readySignalled = false
+    this.stopping = false
 
-    switch (projectType) {
+    const { framework, project } = await detectFramework(this.container.fs, this.projectPath)
+    this.framework = framework
+
+    switch (framework.start.kind) {
       case "vite":
         await this.startViteServer()
         break
-      case "next":
-        await this.startNextServer()
-        break
-      case "react":
-        await this.startReactServer()
-        break
-      case "node":
-        await this.startNodeServer()
+      case "script":
+        await this.startFrameworkScript(framework, framework.start, project)
         break
       case "static":
       default:
@@ -50,46 +383,30 @@ export class LocalDevServer {
     }
   }
 
-  private async detectProjectType(): Promise<string> {
-    try {
-      const packageJsonExists = await this.container.fs.exists("package.json")
-
-      if (!packageJsonExists) {
-        return "static"
-      }
-
-      const packageJson = JSON.parse(await this.container.fs.readFile("package.json"))
-
-      // Check dependencies for project type
-      const deps = { ...packageJson.dependencies, ...packageJson.devDependencies }
-
-      if (deps.next) return "next"
-      if (deps.vite) return "vite"
-      if (deps["react-scripts"]) return "react"
-      if (packageJson.scripts?.start || packageJson.scripts?.dev) return "node"
-
-      return "static"
-    } catch (error) {
-      console.warn("Failed to detect project type:", error)
-      return "static"
-    }
+  getFramework(): FrameworkDetector | null {
+    return this.framework
   }
 
   private async startViteServer(): Promise<void> {
     try {
       this.server = await createServer({
-        root: this.container.workdir,
+        root: this.projectDir,
+        base: this.config.basePath || "/",
+        customLogger: this.createViteLogger(),
         server: {
           port: this.port,
           host: this.config.host,
           https: this.config.https,
         },
         define: {
-          "process.env": JSON.stringify(this.config.env || {}),
+          // Only VITE_-prefixed values reach client code, as with Vite's own env handling
+          "process.env": JSON.stringify(this.getPublicEnv()),
         },
       })
 
       await this.server.listen()
+      this.mountedAtBasePath = !!this.config.basePath
+      this.markReady()
       console.log(`Vite dev server running on http://${this.config.host}:${this.port}`)
     } catch (error) {
       console.error("Failed to start Vite server:", error)
@@ -97,39 +414,62 @@ export class LocalDevServer {
     }
   }
 
-  private async startNextServer(): Promise<void> {
-    // For Next.js, we'll use the npm script approach
-    await this.startWithNpmScript("dev")
+  private getPublicEnv(): Record<string, string> {
+    return Object.fromEntries(Object.entries(this.config.env || {}).filter(([key]) => key.startsWith("VITE_")))
   }
 
-  private async startReactServer(): Promise<void> {
-    // For Create React App, use npm start
-    await this.startWithNpmScript("start")
-  }
+  private async startFrameworkScript(
+    framework: FrameworkDetector,
+    start: Extract<FrameworkStart, { kind: "script" }>,
+    project: ProjectContext,
+  ): Promise<void> {
+    const script = start.scripts.find((name) => !!project.packageJson?.scripts?.[name])
 
-  private async startNodeServer(): Promise<void> {
-    // Try dev script first, then start
-    const hasDevScript = await this.hasNpmScript("dev")
-    const script = hasDevScript ? "dev" : "start"
-    await this.startWithNpmScript(script)
-  }
+    if (!script && !start.fallback) {
+      throw new Error(`No ${start.scripts.join(" or ")} script found for ${framework.name} project`)
+    }
+
+    // A server that can't be told the base path is left serving from the root
+    const basePath = (framework.basePathArgs || framework.basePathEnv) && this.config.basePath
+    const serverArgs = [...(framework.portArgs || []), ...(basePath ? framework.basePathArgs || [] : [])].map((arg) =>
+      arg
+        .replace("{port}", this.port.toString())
+        .replace("{host}", this.config.host || "localhost")
+        .replace("{basePath}", basePath || "/"),
+    )
+    const portEnv = Object.fromEntries((framework.portEnv || []).map((name) => [name, this.port.toString()]))
+    const basePathEnv = basePath ? Object.fromEntries((framework.basePathEnv || []).map((name) => [name, basePath])) : {}
 
-  private async startWithNpmScript(scriptName: string): Promise<void> {
     try {
-      // Set environment variables
-      const env = { ...process.env, ...this.config.env, PORT: this.port.toString() }
+      const env = { ...process.env, ...this.config.env, ...portEnv, ...basePathEnv } as Record<string, string>
+      const packageManager = await this.detectPackageManager()
 
-      this.process = await this.container.terminal.spawn("npm", ["run", scriptName], {
-        cwd: this.container.workdir,
+      // npm needs "--" to forward arguments to the script; the others pass them through
+      const args = script
+        ? ["run", script, ...(packageManager === "npm" && serverArgs.length > 0 ? ["--"] : []), ...serverArgs]
+        : [...EXEC_ARGS[packageManager], ...start.fallback!, ...serverArgs]
+
+      const childProcess = await this.container.terminal.spawn(packageManager, args, {
+        cwd: this.projectDir,
         env,
       })
+      this.process = childProcess
+
+      childProcess.onExit((code) => {
+        if (this.process === childProcess) {
+          this.process = null
+        }
+        this.emit("exit", { code, expected: this.stopping } as DevServerExit)
+      })
+
+      this.mountedAtBasePath = !!basePath
 
       // Log output
       this.logProcessOutput(this.process)
 
-      console.log(`Started ${scriptName} script on port ${this.port}`)
+      console.log(`Started ${framework.name} with ${packageManager} ${args.join(" ")} in ${this.projectPath}`)
     } catch (error) {
-      console.error(`Failed to start with npm script ${scriptName}:`, error)
+      console.error(`Failed to start ${framework.name} dev server:`, error)
       throw error
     }
   }
@@ -153,19 +493,22 @@ export class LocalDevServer {
       })
     }
 
-    // Serve static files
-    this.expressApp.use(express.static(this.container.workdir))
+    // Serve static files under the base path so proxied asset URLs resolve
+    const basePath = this.config.basePath || "/"
+    this.expressApp.use(basePath, express.static(this.projectDir))
 
     // SPA fallback
-    this.expressApp.get("*", (req, res) => {
-      res.sendFile(path.join(this.container.workdir, "index.html"), (err) => {
+    this.expressApp.use(basePath, (req: express.Request, res: express.Response) => {
+      res.sendFile(path.join(this.projectDir, "index.html"), (err?: Error) => {
         if (err) {
           res.status(404).send("File not found")
         }
       })
     })
 
+    this.mountedAtBasePath = !!this.config.basePath
     this.httpServer = this.expressApp.listen(this.port, this.config.host, () => {
+      this.markReady()
       console.log(`Static server running on http://${this.config.host}:${this.port}`)
     })
   }
@@ -182,32 +525,141 @@ export class LocalDevServer {
   }
 
   private async readStream(reader: ReadableStreamDefaultReader<string>, type: "stdout" | "stderr"): Promise<void> {
+    let partial = ""
+
     try {
       while (true) {
         const { done, value } = await reader.read()
         if (done) break
 
-        if (type === "stderr") {
-          console.error(value)
-        } else {
-          console.log(value)
+        if (!this.readySignalled && this.getReadyPatterns().some((pattern) => pattern.test(stripAnsi(value)))) {
+          this.markReady()
         }
+
+        // Emit complete lines; keep a trailing fragment until the rest arrives
+        const lines = (partial + value).split(/\r?\n/)
+        partial = lines.pop() || ""
+        lines.forEach((line) => this.emitOutput(type, line))
+      }
+
+      if (partial) {
+        this.emitOutput(type, partial)
       }
     } catch (error) {
-      console.error(`Error reading ${type}:`, error)
+      this.emitOutput("stderr", `Error reading ${type}: ${error}`)
     }
   }
 
-  private async hasNpmScript(scriptName: string): Promise<boolean> {
-    try {
-      const packageJson = JSON.parse(await this.container.fs.readFile("package.json"))
-      return !!packageJson.scripts?.[scriptName]
-    } catch {
-      return false
+  private emitOutput(stream: "stdout" | "stderr", text: string): void {
+    this.emit("output", { stream, text } as DevServerOutput)
+  }
+
+  // Routes Vite's own logging into the output stream alongside the console
+  private createViteLogger(): Logger {
+    const viteLogger = createLogger()
+
+    return {
+      ...viteLogger,
+      info: (msg, options) => {
+        this.emitOutput("stdout", stripAnsi(msg))
+        viteLogger.info(msg, options)
+      },
+      warn: (msg, options) => {
+        this.emitOutput("stderr", stripAnsi(msg))
+        viteLogger.warn(msg, options)
+      },
+      warnOnce: (msg, options) => {
+        this.emitOutput("stderr", stripAnsi(msg))
+        viteLogger.warnOnce(msg, options)
+      },
+      error: (msg, options) => {
+        this.emitOutput("stderr", stripAnsi(msg))
+        viteLogger.error(msg, options)
+      },
+    }
+  }
+
+  private getReadyPatterns(): RegExp[] {
+    return this.framework?.readyPattern ? [this.framework.readyPattern] : READY_PATTERNS
+  }
+
+  // Walk up from the project to the workspace root so monorepo packages use the root lockfile
+  async detectPackageManager(): Promise<PackageManager> {
+    let dir = this.projectPath
+
+    while (true) {
+      for (const [lockfile, packageManager] of LOCKFILES) {
+        if (await this.container.fs.exists(path.join(dir, lockfile))) {
+          return packageManager
+        }
+      }
+
+      if (dir === ".") break
+      dir = path.dirname(dir)
     }
+
+    return "npm"
+  }
+
+  private markReady(): void {
+    if (this.readySignalled) return
+    this.readySignalled = true
+    this.emit("ready")
+  }
+
+  // Resolves once the server logs a ready message or its port accepts connections;
+  // rejects if it exits, is stopped or times out first
+  waitUntilReady(timeoutMs = 120000): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let settled = false
+
+      const finish = (error?: Error) => {
+        if (settled) return
+        settled = true
+        clearTimeout(timeout)
+        clearInterval(poll)
+        this.off("ready", onReady)
+        this.off("exit", onExit)
+        if (error) {
+          reject(error)
+        } else {
+          resolve()
+        }
+      }
+
+      const onReady = () => finish()
+      const onExit = ({ code }: DevServerExit) => finish(new Error(`Dev server exited with code ${code} before it was ready`))
+
+      const timeout = setTimeout(
+        () => finish(new Error(`Dev server was not ready after ${Math.round(timeoutMs / 1000)}s`)),
+        timeoutMs,
+      )
+
+      const poll = setInterval(async () => {
+        if (!this.isRunning()) {
+          finish(new Error("Dev server stopped before it was ready"))
+        } else if (await probePort(this.port, this.getProbeHost())) {
+          this.markReady()
+        }
+      }, 500)
+
+      this.on("ready", onReady)
+      this.on("exit", onExit)
+
+      if (this.readySignalled) {
+        finish()
+      }
+    })
+  }
+
+  private getProbeHost(): string {
+    const host = this.config.host
+    return !host || host === "0.0.0.0" || host === "::" ? "127.0.0.1" : host
   }
 
   async stop(): Promise<void> {
+    this.stopping = true
+
     if (this.server) {
       await this.server.close()
       this.server = null
@@ -222,6 +674,8 @@ export class LocalDevServer {
       this.process.kill()
       this.process = null
     }
+
+    this.mountedAtBasePath = false
   }
 
   getUrl(): string {
@@ -229,7 +683,32 @@ export class LocalDevServer {
     return `${protocol}://${this.config.host}:${this.port}`
   }
 
+  // Whether the server itself serves under config.basePath. When false it serves from the
+  // root, and root-absolute asset URLs rule out proxying it under a path.
+  servesBasePath(): boolean {
+    return this.mountedAtBasePath
+  }
+
   isRunning(): boolean {
     return this.server !== null || this.httpServer !== null || this.process !== null
   }
 }
+
+function probePort(port: number, host: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ port, host })
+
+    const done = (result: boolean) => {
+      socket.destroy()
+      resolve(result)
+    }
+
+    socket.setTimeout(1000, () => done(false))
+    socket.once("connect", () => done(true))
+    socket.once("error", () => done(false))
+  })
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*m/g, "")
+}
@@ -0,0 +1,59 @@
+import path from "path"
+import type { LocalFileSystem } from "./types"
+
+// Loaded in order; later files override earlier ones
+export const DEV_ENV_FILES = [".env", ".env.development", ".env.local"]
+
+export interface LoadedEnv {
+  env: Record<string, string>
+  files: string[]
+}
+
+export function parseEnvFile(content: string): Record<string, string> {
+  const env: Record<string, string> = {}
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith("#")) continue
+
+    const match = line.match(/^(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/)
+    if (!match) continue
+
+    const [, key, rawValue] = match
+    let value = rawValue
+
+    const quote = value[0]
+    if ((quote === '"' || quote === "'" || quote === "`") && value.lastIndexOf(quote) > 0) {
+      value = value.slice(1, value.lastIndexOf(quote))
+      if (quote === '"') {
+        value = value.replace(/\\n/g, "\n").replace(/\\r/g, "\r").replace(/\\t/g, "\t")
+      }
+    } else {
+      // Strip inline comments from unquoted values
+      value = value.replace(/\s+#.*$/, "").trim()
+    }
+
+    env[key] = value
+  }
+
+  return env
+}
+
+export async function loadEnvFiles(fs: LocalFileSystem, dirPath: string, files = DEV_ENV_FILES): Promise<LoadedEnv> {
+  const result: LoadedEnv = { env: {}, files: [] }
+
+  for (const file of files) {
+    const filePath = path.join(dirPath, file)
+
+    try {
+      if (!(await fs.exists(filePath))) continue
+
+      Object.assign(result.env, parseEnvFile(await fs.readFile(filePath)))
+      result.files.push(filePath)
+    } catch (error) {
+      console.warn(`Failed to load env file ${filePath}:`, error)
+    }
+  }
+
+  return result
+}
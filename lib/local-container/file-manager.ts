@@ -1,7 +1,38 @@
-import type { LocalFileSystem, FileStats } from "./types"
+import type {
+  LocalFileSystem,
+  FileStats,
+  FileVersion,
+  WritePreconditions,
+  CopyOptions,
+  OverwritePolicy,
+} from "./types"
 import { FileWatcher, type FileChangeEvent } from "./file-watcher"
+import { isTextFile } from "./file-types"
+import { hashContent, WriteConflictError } from "./file-system"
+import { isWithin } from "./path-security"
+import type { IgnoreEngine } from "./ignore"
+import { LocalHistory, type HistoryEntry, type HistoryReason } from "./local-history"
+import { diffLines, type DiffHunk } from "./line-diff"
+import { Trash, type TrashItem, type RestoreOptions } from "./trash"
+import {
+  OperationJournal,
+  type JournalBatch,
+  type JournalEntry,
+  type JournalOperation,
+  type JournalState,
+} from "./operation-journal"
+import {
+  SearchIndex,
+  compileSearchPattern,
+  findMatches,
+  type SearchQuery,
+  type SearchMatch,
+  type SearchFileResult,
+  type SearchSummary,
+} from "./search-index"
 import { EventEmitter } from "events"
 import path from "path"
+import { Readable } from "stream"
 
 export interface FileNode {
   name: string
@@ -11,6 +42,27 @@ export interface FileNode {
   mtime?: Date
   children?: FileNode[]
   expanded?: boolean
+  // Visible entries in a directory, set by listDirectory where children aren't loaded
+  childCount?: number
+  // Matched by ignore rules, listed only because ignored files were requested
+  ignored?: boolean
+}
+
+export interface ListDirectoryOptions {
+  // nextCursor from the previous page
+  cursor?: string | null
+  limit?: number
+  // Include entries matched by .gitignore, .boltignore and the default rules
+  showIgnored?: boolean
+}
+
+export interface DirectoryPage {
+  path: string
+  // Tree order: directories first, then by name
+  entries: FileNode[]
+  total: number
+  // Pass back to get the next page; null on the last page
+  nextCursor: string | null
 }
 
 export interface FileSearchResult {
@@ -25,153 +77,684 @@ export interface FileSearchResult {
   }>
 }
 
+export interface ReplacePreviewFile {
+  path: string
+  // Hash of the content the preview was computed from; applying skips the file if it changed
+  hash: string
+  matches: Array<SearchMatch & { replaced: string }>
+}
+
+export interface ReplacePreview {
+  files: ReplacePreviewFile[]
+  total: number
+}
+
+export interface ReplaceResult {
+  // Pass to undoReplace to restore the previous contents
+  id: string
+  files: Array<{ path: string; count: number }>
+  // Files that changed since the preview (or since the replace, for undo) and were left alone
+  conflicts: string[]
+}
+
+// A history version compared with a later one, or with the file on disk
+export interface HistoryDiff {
+  from: HistoryEntry
+  // null when compared with the file on disk
+  to: HistoryEntry | null
+  // Binary contents are not diffed
+  binary: boolean
+  hunks: DiffHunk[]
+}
+
+// Outcome for one entry of a bulk operation
+export interface BatchItemResult {
+  path: string
+  // Where a moved or copied entry ended up
+  destination?: string
+  error?: string
+  // Error code (ENOENT, EEXIST, EINVAL, ...) when the failure has one
+  code?: string
+}
+
+// Bulk operations carry on past failures and report every entry
+export interface BatchResult {
+  succeeded: BatchItemResult[]
+  failed: BatchItemResult[]
+}
+
+export interface BatchTransferOptions {
+  // "rename" keeps both, giving the new entry a free "name copy.ext" style name
+  conflict?: OverwritePolicy | "rename"
+}
+
+// What an upload does when its target exists: replace it, leave it, or write "name copy.ext"
+export type UploadConflictPolicy = "overwrite" | "skip" | "rename"
+
+// Uploads also report files left alone under the "skip" policy
+export interface UploadResult extends BatchResult {
+  skipped: BatchItemResult[]
+}
+
+// With a batch from batch(), the operation becomes part of that undo step instead of its own
+export interface JournalOptions {
+  batch?: JournalBatch
+}
+
+// Nodes touched by one batch of watcher events. Removed entries are reported by path.
+export interface FileTreeDiff {
+  added: FileNode[]
+  removed: string[]
+  changed: FileNode[]
+  // True when the whole tree was rebuilt rather than patched
+  rebuilt: boolean
+}
+
+// Quiet period before a batch of watcher events is applied, and the longest a
+// continuous stream (npm install, git checkout) can hold the tree back
+const TREE_UPDATE_DEBOUNCE = 100
+const TREE_UPDATE_MAX_WAIT = 1000
+
+export const DIRECTORY_PAGE_SIZE = 200
+const MAX_PAGE_SIZE = 1000
+
+// Replace operations that can still be undone
+const MAX_REPLACE_HISTORY = 20
+
 export class FileManager extends EventEmitter {
   private fs: LocalFileSystem
   private watcher: FileWatcher
+  private ignore: IgnoreEngine
+  private searchIndex: SearchIndex
+  private history: LocalHistory
+  private trash: Trash
+  private journal = new OperationJournal()
+  private replaceHistory: Array<{ id: string; files: Array<{ path: string; before: string; afterHash: string }> }> = []
   private fileTree: FileNode | null = null
+  // Latest event per path, applied together once events settle
+  private pendingEvents: Map<string, FileChangeEvent> = new Map()
+  private flushTimer: NodeJS.Timeout | null = null
+  private firstPendingAt = 0
+  // Serializes tree rebuilds and patches
+  private treeTask: Promise<unknown> = Promise.resolve()
 
-  constructor(fs: LocalFileSystem, workdir: string) {
+  // Pass a watcher to share one with other consumers (e.g. OptimizedFileSystem cache invalidation)
+  constructor(fs: LocalFileSystem, workdir: string, watcher?: FileWatcher) {
     super()
     this.fs = fs
-    this.watcher = new FileWatcher(workdir)
+    this.watcher = watcher || new FileWatcher(workdir)
+    this.ignore = this.watcher.ignore
+    this.searchIndex = new SearchIndex(fs, this.watcher)
+    this.history = new LocalHistory(fs, workdir)
+    this.trash = new Trash(fs)
 
     // Forward file change events
     this.watcher.on("change", (event: FileChangeEvent) => {
       this.emit("fileChange", event)
-      this.refreshFileTree() // Refresh tree on changes
+
+      if (this.ignore.isIgnoreFile(event.path)) {
+        // Rules changed, so any part of the tree may have appeared or disappeared
+        this.refreshFileTree().catch((error) => console.error("Failed to rebuild file tree:", error))
+      } else {
+        this.queueTreeUpdate(event)
+      }
     })
   }
 
   async initialize(): Promise<void> {
     await this.refreshFileTree()
     this.watcher.start()
+    // Built in the background; searches wait for it
+    this.searchIndex.start().catch((error) => console.error("Failed to build search index:", error))
   }
 
+  // Rebuild the root and every directory loaded so far; watcher events patch the existing
+  // tree instead
   async refreshFileTree(): Promise<FileNode> {
-    this.fileTree = await this.buildFileTree(".")
-    this.emit("treeUpdated", this.fileTree)
-    return this.fileTree
+    return this.runTreeTask(async () => {
+      const loaded = this.fileTree ? loadedDirectories(this.fileTree) : []
+      this.fileTree = await this.buildFileTree(".")
+      for (const dirPath of loaded) {
+        await this.loadTreeChildren(dirPath)
+      }
+      const diff: FileTreeDiff = { added: [], removed: [], changed: [], rebuilt: true }
+      this.emit("treeUpdated", diff, this.fileTree)
+      return this.fileTree
+    })
+  }
+
+  private runTreeTask<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.treeTask.then(task)
+    this.treeTask = result.catch(() => undefined)
+    return result
+  }
+
+  private queueTreeUpdate(event: FileChangeEvent): void {
+    const key = event.path.split(path.sep).join("/")
+    const isDirectory = event.type === "addDir" || event.type === "unlinkDir" || event.stats?.isDirectory
+    if (!key || this.ignore.isIgnored(key, isDirectory)) return
+
+    if (this.pendingEvents.size === 0) {
+      this.firstPendingAt = Date.now()
+    }
+    // Later events win: add then unlink is a removal, unlink then add a re-creation
+    this.pendingEvents.delete(key)
+    this.pendingEvents.set(key, { ...event, path: key })
+
+    if (this.flushTimer) clearTimeout(this.flushTimer)
+    const waited = Date.now() - this.firstPendingAt
+    this.flushTimer = setTimeout(
+      () => this.flushTreeUpdates(),
+      Math.max(0, Math.min(TREE_UPDATE_DEBOUNCE, TREE_UPDATE_MAX_WAIT - waited)),
+    )
+  }
+
+  private flushTreeUpdates(): Promise<void> {
+    this.flushTimer = null
+    const events = Array.from(this.pendingEvents.values())
+    this.pendingEvents.clear()
+
+    return this.runTreeTask(async () => {
+      // Nothing to patch yet; the initial build reads the current state from disk
+      if (!this.fileTree || events.length === 0) return
+
+      const diff: FileTreeDiff = { added: [], removed: [], changed: [], rebuilt: false }
+      for (const event of events) {
+        try {
+          await this.applyTreeEvent(this.fileTree, event, diff)
+        } catch (error) {
+          console.warn(`Failed to update file tree for ${event.path}:`, error)
+        }
+      }
+
+      if (diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0) {
+        this.emit("treeUpdated", diff, this.fileTree)
+      }
+    }).catch((error) => console.error("Failed to apply file tree updates:", error))
+  }
+
+  private async applyTreeEvent(root: FileNode, event: FileChangeEvent, diff: FileTreeDiff): Promise<void> {
+    const segments = event.path.split("/")
+    const name = segments[segments.length - 1]
+
+    // Walk to the parent; a missing ancestor means this event creates it, so the first
+    // missing directory is read from disk as a whole subtree
+    // Events inside a directory that hasn't been loaded are picked up when it is
+    let parent = root
+    for (let i = 0; i < segments.length - 1; i++) {
+      const child = parent.children?.find((node) => node.name === segments[i])
+      if (!child) {
+        if (event.type === "add" || event.type === "addDir") {
+          await this.insertFromDisk(parent, segments.slice(0, i + 1).join("/"), diff)
+        }
+        return
+      }
+      if (child.type !== "directory" || !child.children) return
+      parent = child
+    }
+
+    const children = parent.children
+    if (!children) return
+    const index = children.findIndex((node) => node.name === name)
+    const existing = index === -1 ? null : children[index]
+
+    switch (event.type) {
+      case "unlink":
+      case "unlinkDir":
+        if (existing) {
+          children.splice(index, 1)
+          diff.removed.push(existing.path)
+        }
+        return
+
+      case "addDir":
+        if (existing?.type === "directory") return
+        if (existing) {
+          children.splice(index, 1)
+          diff.removed.push(existing.path)
+        }
+        await this.insertFromDisk(parent, event.path, diff)
+        return
+
+      case "add":
+      case "change": {
+        if (existing && existing.type !== "file") {
+          children.splice(index, 1)
+          diff.removed.push(existing.path)
+        } else if (existing) {
+          const stats = event.stats || (await this.fs.stat(event.path))
+          if (existing.size === stats.size && existing.mtime?.getTime() === stats.mtime.getTime()) return
+
+          existing.size = stats.size
+          existing.mtime = stats.mtime
+          diff.changed.push(existing)
+          return
+        }
+
+        await this.insertFromDisk(parent, event.path, diff)
+        return
+      }
+    }
   }
 
+  private async insertFromDisk(parent: FileNode, nodePath: string, diff: FileTreeDiff): Promise<void> {
+    let node: FileNode
+    try {
+      node = await this.buildFileTree(nodePath)
+    } catch {
+      return // Gone again before the batch was applied
+    }
+
+    const children = parent.children || (parent.children = [])
+    children.push(node)
+    children.sort(compareNodes)
+    diff.added.push(node)
+  }
+
+  // A node and, for a directory, one level of children. Directories below it are left
+  // without children until listDirectory loads them.
   private async buildFileTree(dirPath: string): Promise<FileNode> {
-    const stats = await this.fs.stat(dirPath)
-    const name = path.basename(dirPath) || "root"
+    const node = await this.readTreeNode(dirPath)
+
+    if (node.type === "directory") {
+      try {
+        node.children = await this.readTreeChildren(dirPath)
+      } catch (error) {
+        node.children = []
+        console.warn(`Failed to read directory ${dirPath}:`, error)
+      }
+    }
+
+    return node
+  }
 
-    const node: FileNode = {
-      name,
-      path: dirPath,
+  private async readTreeNode(nodePath: string): Promise<FileNode> {
+    const stats = await this.fs.stat(nodePath)
+    return {
+      name: path.basename(nodePath) || "root",
+      path: nodePath,
       type: stats.isDirectory() ? "directory" : "file",
       size: stats.size,
       mtime: stats.mtime,
     }
+  }
 
-    if (stats.isDirectory()) {
+  private async readTreeChildren(dirPath: string): Promise<FileNode[]> {
+    const children: FileNode[] = []
+    for (const entry of await this.fs.readdir(dirPath)) {
+      const entryPath = path.join(dirPath, entry)
       try {
-        const entries = await this.fs.readdir(dirPath)
-        node.children = []
+        const node = await this.readTreeNode(entryPath)
+        if (this.ignore.isIgnored(entryPath, node.type === "directory")) continue
+        children.push(node)
+      } catch (error) {
+        console.warn(`Failed to read ${entryPath}:`, error)
+      }
+    }
+    return children.sort(compareNodes)
+  }
+
+  // Fill in the children of a directory in the tree, once its parent is loaded
+  private async loadTreeChildren(dirPath: string): Promise<void> {
+    let node = this.fileTree
+    for (const segment of dirPath === "." ? [] : dirPath.split(path.sep)) {
+      node = node?.children?.find((child) => child.name === segment) || null
+    }
+    if (!node || node.type !== "directory" || node.children) return
+
+    try {
+      node.children = await this.readTreeChildren(dirPath)
+    } catch {
+      // Gone; its unlink event removes the node
+    }
+  }
 
-        for (const entry of entries) {
-          // Skip hidden files and common ignore patterns
-          if (this.shouldIgnoreFile(entry)) continue
+  // One level of a directory, for explorers that load children on expand. Cursors name the
+  // last entry returned, so files created or deleted between pages don't shift the window.
+  async listDirectory(dirPath: string, options: ListDirectoryOptions = {}): Promise<DirectoryPage> {
+    const normalizedPath = path.normalize(dirPath || ".")
+    const limit = Math.min(Math.max(1, options.limit || DIRECTORY_PAGE_SIZE), MAX_PAGE_SIZE)
 
-          const entryPath = path.join(dirPath, entry)
-          try {
-            const childNode = await this.buildFileTree(entryPath)
-            node.children.push(childNode)
-          } catch (error) {
-            console.warn(`Failed to read ${entryPath}:`, error)
+    const showIgnored = !!options.showIgnored
+
+    const names = await this.fs.readdir(normalizedPath)
+    const nodes = await Promise.all(
+      names.map(async (name): Promise<FileNode | null> => {
+        const entryPath = path.join(normalizedPath, name)
+        try {
+          const stats = await this.fs.stat(entryPath)
+          const isDirectory = stats.isDirectory()
+          if (this.ignore.isIgnored(entryPath, isDirectory, { showIgnored })) return null
+
+          const node: FileNode = {
+            name,
+            path: entryPath,
+            type: isDirectory ? "directory" : "file",
+            size: stats.size,
+            mtime: stats.mtime,
+          }
+          if (showIgnored && this.ignore.isIgnored(entryPath, isDirectory)) {
+            node.ignored = true
           }
+          return node
+        } catch {
+          return null // Deleted while listing
         }
+      }),
+    )
 
-        // Sort children: directories first, then files
-        node.children.sort((a, b) => {
-          if (a.type !== b.type) {
-            return a.type === "directory" ? -1 : 1
-          }
-          return a.name.localeCompare(b.name)
-        })
-      } catch (error) {
-        console.warn(`Failed to read directory ${dirPath}:`, error)
-      }
+    const entries = nodes.filter((node): node is FileNode => node !== null).sort(compareNodes)
+
+    // The tree follows the explorer: a directory's children are loaded when it is listed
+    if (!options.cursor) {
+      this.runTreeTask(() => this.loadTreeChildren(normalizedPath)).catch((error) =>
+        console.warn(`Failed to load ${normalizedPath} into the file tree:`, error),
+      )
     }
 
-    return node
-  }
+    let start = 0
+    if (options.cursor) {
+      const after = decodeCursor(options.cursor)
+      start = entries.findIndex((node) => compareNodes(node, after) > 0)
+      if (start === -1) start = entries.length
+    }
 
-  private shouldIgnoreFile(filename: string): boolean {
-    const ignorePatterns = [
-      /^\./, // Hidden files
-      /node_modules/,
-      /\.git$/,
-      /dist$/,
-      /build$/,
-      /\.next$/,
-      /coverage$/,
-      /\.nyc_output$/,
-    ]
+    const page = entries.slice(start, start + limit)
+    await Promise.all(
+      page.map(async (node) => {
+        if (node.type !== "directory") return
+        try {
+          // Without a stat per grandchild its type is unknown, so a name counts as ignored
+          // when a rule matches it as either a file or a directory
+          const children = await this.fs.readdir(node.path)
+          node.childCount = children.filter(
+            (name) => !this.ignore.isIgnored(path.join(node.path, name), undefined, { showIgnored }),
+          ).length
+        } catch {
+          node.childCount = 0
+        }
+      }),
+    )
 
-    return ignorePatterns.some((pattern) => pattern.test(filename))
+    const last = page[page.length - 1]
+    return {
+      path: normalizedPath,
+      entries: page,
+      total: entries.length,
+      nextCursor: last && start + page.length < entries.length ? encodeCursor(last) : null,
+    }
   }
 
-  async createFile(filePath: string, content = ""): Promise<void> {
-    await this.fs.writeFile(filePath, content)
+  // Fails with EEXIST when filePath is taken; writeFile replaces
+  async createFile(filePath: string, content = "", options: JournalOptions = {}): Promise<void> {
+    await this.inBatch(`Create ${path.basename(filePath)}`, options, async (batch) => {
+      const created = await this.firstMissingPath(filePath)
+      await this.fs.writeFileStream(filePath, Readable.from([Buffer.from(content, "utf-8")]), { exclusive: true })
+      if (created) batch.operations.push({ type: "create", path: created })
+    })
     this.emit("fileCreated", { path: filePath, content })
   }
 
-  async createDirectory(dirPath: string): Promise<void> {
-    await this.fs.mkdir(dirPath, { recursive: true })
+  async createDirectory(dirPath: string, options: JournalOptions = {}): Promise<void> {
+    await this.inBatch(`Create ${path.basename(dirPath)}`, options, async (batch) => {
+      const created = await this.firstMissingPath(dirPath)
+      await this.fs.mkdir(dirPath, { recursive: true })
+      if (created) batch.operations.push({ type: "create", path: created })
+    })
     this.emit("directoryCreated", { path: dirPath })
   }
 
-  async deleteFile(filePath: string): Promise<void> {
-    await this.fs.remove(filePath)
-    this.emit("fileDeleted", { path: filePath })
+  // Moves the entry to the trash unless permanent is set. Resolves to the trash item, if any.
+  // Only a move to the trash can be undone.
+  async deleteFile(
+    filePath: string,
+    options: { permanent?: boolean } & JournalOptions = {},
+  ): Promise<TrashItem | null> {
+    if (options.permanent) {
+      await this.snapshotExisting(filePath, "delete")
+      await this.fs.remove(filePath)
+      this.emit("fileDeleted", { path: filePath, permanent: true })
+      return null
+    }
+
+    return await this.inBatch(`Delete ${path.basename(filePath)}`, options, async (batch) => {
+      const item = await this.moveToTrash(filePath)
+      batch.operations.push({ type: "delete", path: item.originalPath, trashId: item.id })
+      return item
+    })
   }
 
-  async renameFile(oldPath: string, newPath: string): Promise<void> {
-    // Read content, write to new location, delete old
-    const stats = await this.fs.stat(oldPath)
+  // Newest first
+  async getTrash(): Promise<TrashItem[]> {
+    return await this.trash.list()
+  }
 
-    if (stats.isFile()) {
-      const content = await this.fs.readFile(oldPath)
-      await this.fs.writeFile(newPath, content)
-    } else {
-      await this.fs.mkdir(newPath, { recursive: true })
-      // Copy directory contents recursively
-      await this.copyDirectory(oldPath, newPath)
+  // Fails with TrashConflictError when the original path is taken and conflict is "error" (the default)
+  async restoreFromTrash(
+    id: string,
+    options: RestoreOptions & JournalOptions = {},
+  ): Promise<{ item: TrashItem; path: string }> {
+    const item = (await this.trash.list()).find((entry) => entry.id === id)
+    if (item && options.conflict === "overwrite") {
+      await this.snapshotExisting(item.originalPath, "delete")
     }
 
-    await this.fs.remove(oldPath)
+    const result = await this.inBatch(`Restore ${item?.name ?? id}`, options, async (batch) => {
+      const restored = await this.trash.restore(id, options)
+      batch.operations.push({ type: "create", path: restored.path })
+      return restored
+    })
+    this.emit("fileRestored", result)
+    this.emit("trashChanged")
+    return result
+  }
+
+  async deleteFromTrash(id: string): Promise<TrashItem> {
+    const item = await this.trash.delete(id)
+    this.emit("trashChanged")
+    return item
+  }
+
+  // Resolves to the number of items deleted
+  async emptyTrash(): Promise<number> {
+    const count = await this.trash.empty()
+    this.emit("trashChanged")
+    return count
+  }
+
+  // Fails with EEXIST when newPath is taken
+  async renameFile(oldPath: string, newPath: string, options: JournalOptions = {}): Promise<void> {
+    await this.inBatch(`Rename ${path.basename(oldPath)}`, options, async (batch) => {
+      await this.fs.rename(oldPath, newPath)
+      await this.history.rename(oldPath, newPath).catch((error) => console.warn("Failed to move file history:", error))
+      batch.operations.push({ type: "move", from: oldPath, to: newPath })
+    })
     this.emit("fileRenamed", { oldPath, newPath })
   }
 
-  private async copyDirectory(srcDir: string, destDir: string): Promise<void> {
-    const entries = await this.fs.readdir(srcDir)
+  // With overwrite, an existing destination is trashed and replaced, not merged into
+  async copyFile(srcPath: string, destPath: string, options: CopyOptions & JournalOptions = {}): Promise<void> {
+    await this.inBatch(`Copy ${path.basename(srcPath)}`, options, async (batch) => {
+      if (options.overwrite === "overwrite") await this.replaceDestination(batch, srcPath, destPath)
+      const created = await this.firstMissingPath(destPath)
+      await this.fs.copy(srcPath, destPath, { overwrite: options.overwrite })
+      if (created) batch.operations.push({ type: "create", path: created })
+    })
+    this.emit("fileCopied", { srcPath, destPath })
+  }
 
-    for (const entry of entries) {
-      const srcPath = path.join(srcDir, entry)
-      const destPath = path.join(destDir, entry)
-      const stats = await this.fs.stat(srcPath)
+  // With overwrite, an existing destination is trashed and replaced, not merged into
+  async moveFile(srcPath: string, destPath: string, options: CopyOptions & JournalOptions = {}): Promise<void> {
+    await this.inBatch(`Move ${path.basename(srcPath)}`, options, async (batch) => {
+      if (options.overwrite === "overwrite") await this.replaceDestination(batch, srcPath, destPath)
+      await this.fs.move(srcPath, destPath, { overwrite: options.overwrite })
+      await this.history.rename(srcPath, destPath).catch((error) => console.warn("Failed to move file history:", error))
+      batch.operations.push({ type: "move", from: srcPath, to: destPath })
+    })
+    this.emit("fileMoved", { oldPath: srcPath, newPath: destPath })
+  }
 
-      if (stats.isDirectory()) {
-        await this.fs.mkdir(destPath, { recursive: true })
-        await this.copyDirectory(srcPath, destPath)
-      } else {
-        const content = await this.fs.readFile(srcPath)
-        await this.fs.writeFile(destPath, content)
-      }
+  // Trash (or delete) several entries as one undo step. Entries inside another listed
+  // directory are left to it.
+  async deleteFiles(filePaths: string[], options: { permanent?: boolean } = {}): Promise<BatchResult> {
+    const paths = outermostPaths(filePaths)
+    return await this.batch(`Delete ${describeCount(paths)}`, (batch) =>
+      this.runBatch(paths, async (filePath) => {
+        await this.deleteFile(filePath, { ...options, batch })
+      }),
+    )
+  }
+
+  // Move several entries into targetDir as one undo step
+  async moveFiles(filePaths: string[], targetDir: string, options: BatchTransferOptions = {}): Promise<BatchResult> {
+    const paths = outermostPaths(filePaths)
+    return await this.batch(`Move ${describeCount(paths)}`, (batch) =>
+      this.runBatch(paths, async (filePath) => {
+        let destPath = path.join(targetDir, path.basename(filePath))
+        if (destPath === path.normalize(filePath)) return destPath
+
+        if (options.conflict === "rename") {
+          destPath = await this.availablePath(destPath)
+        }
+        await this.moveFile(filePath, destPath, {
+          overwrite: options.conflict === "overwrite" ? "overwrite" : "error",
+          batch,
+        })
+        return destPath
+      }),
+    )
+  }
+
+  // Copy several entries into targetDir as one undo step
+  async copyFiles(filePaths: string[], targetDir: string, options: BatchTransferOptions = {}): Promise<BatchResult> {
+    const paths = outermostPaths(filePaths)
+    return await this.batch(`Copy ${describeCount(paths)}`, (batch) =>
+      this.runBatch(paths, async (filePath) => {
+        let destPath = path.join(targetDir, path.basename(filePath))
+        if (options.conflict === "rename") {
+          destPath = await this.availablePath(destPath)
+        }
+        await this.copyFile(filePath, destPath, {
+          overwrite: options.conflict === "overwrite" ? "overwrite" : "error",
+          batch,
+        })
+        return destPath
+      }),
+    )
+  }
+
+  // Run several operations as one undo step, e.g. deleting a multi-selection. Operations join
+  // it when given the batch in their options. Whatever succeeded is recorded, even if the task fails.
+  async batch<T>(label: string, task: (batch: JournalBatch) => Promise<T>): Promise<T> {
+    const batch: JournalBatch = { label, operations: [] }
+    try {
+      return await task(batch)
+    } finally {
+      if (this.journal.record(batch)) this.emit("journalChanged", this.journal.getState())
     }
   }
 
+  // Undo the latest create, rename, move, copy, delete or restore (or batch of them).
+  // Resolves to null when there is nothing to undo.
+  async undo(): Promise<JournalEntry | null> {
+    try {
+      return await this.journal.undo((operation, direction) => this.applyOperation(operation, direction))
+    } finally {
+      this.emit("journalChanged", this.journal.getState())
+    }
+  }
+
+  async redo(): Promise<JournalEntry | null> {
+    try {
+      return await this.journal.redo((operation, direction) => this.applyOperation(operation, direction))
+    } finally {
+      this.emit("journalChanged", this.journal.getState())
+    }
+  }
+
+  getJournalState(): JournalState {
+    return this.journal.getState()
+  }
+
   async readFile(filePath: string): Promise<string> {
     return await this.fs.readFile(filePath)
   }
 
-  async writeFile(filePath: string, content: string): Promise<void> {
-    await this.fs.writeFile(filePath, content)
+  // Reads content with the version it came from, for a later conditional write. The hash is
+  // taken from the bytes returned, so a write landing between the two reads still conflicts.
+  async readFileWithVersion(filePath: string): Promise<{ content: string; version: FileVersion }> {
+    const buffer = await this.fs.readFileBuffer(filePath)
+    const version = await this.fs.getFileVersion(filePath)
+    return { content: buffer.toString("utf-8"), version: { ...version, hash: hashContent(buffer) } }
+  }
+
+  async getFileVersion(filePath: string): Promise<FileVersion> {
+    return await this.fs.getFileVersion(filePath)
+  }
+
+  // With preconditions, throws a WriteConflictError if the file changed since it was read.
+  // Resolves to the version just written.
+  async writeFile(filePath: string, content: string, preconditions?: WritePreconditions): Promise<FileVersion> {
+    await this.snapshotExisting(filePath, "external")
+    await this.fs.writeFile(filePath, content, preconditions)
+    await this.recordHistory(filePath, Buffer.from(content, "utf-8"), "write")
     this.emit("fileUpdated", { path: filePath, content })
+    return await this.fs.getFileVersion(filePath)
+  }
+
+  async readFileBuffer(filePath: string): Promise<Buffer> {
+    return await this.fs.readFileBuffer(filePath)
+  }
+
+  async writeFileBuffer(
+    filePath: string,
+    content: Buffer | Uint8Array,
+    preconditions?: WritePreconditions,
+  ): Promise<FileVersion> {
+    await this.snapshotExisting(filePath, "external")
+    await this.fs.writeFileBuffer(filePath, content, preconditions)
+    await this.recordHistory(filePath, Buffer.from(content), "write")
+    this.emit("fileUpdated", { path: filePath, size: content.length })
+    return await this.fs.getFileVersion(filePath)
   }
 
+  // Stream an uploaded file to disk. Resolves to where it was written, or null when skipped.
+  async uploadFile(
+    filePath: string,
+    content: AsyncIterable<Uint8Array>,
+    options: { conflict?: UploadConflictPolicy } & JournalOptions = {},
+  ): Promise<string | null> {
+    const conflict = options.conflict ?? "rename"
+    if (conflict === "overwrite") await this.snapshotExisting(filePath, "external")
+
+    // Skip and rename claim the name as part of the write, so a file that appears in the
+    // meantime is never replaced; rename then tries the next free-looking name
+    const targetPath = await this.inBatch(`Upload ${path.basename(filePath)}`, options, async (batch) => {
+      for (let attempt = 0; ; attempt++) {
+        const candidate = copyName(filePath, attempt)
+        const created = await this.firstMissingPath(candidate)
+        try {
+          await this.fs.writeFileStream(candidate, content, { exclusive: conflict !== "overwrite" })
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "EEXIST" || conflict === "overwrite") throw error
+          if (conflict === "skip") return null
+          continue
+        }
+        if (created) batch.operations.push({ type: "create", path: created })
+        return candidate
+      }
+    })
+    if (!targetPath) return null
+
+    const stats = await this.fs.stat(targetPath)
+    if (this.history.accepts(stats.size)) {
+      await this.recordHistory(targetPath, await this.fs.readFileBuffer(targetPath), "write")
+    }
+    this.emit("fileUploaded", { path: targetPath, size: stats.size })
+    return targetPath
+  }
+
+  // Name matches from the tree, plus content matches from the search index when requested
   async searchFiles(
     query: string,
     options: {
@@ -180,122 +763,183 @@ export class FileManager extends EventEmitter {
       maxResults?: number
     } = {},
   ): Promise<FileSearchResult[]> {
-    const results: FileSearchResult[] = []
     const { includeContent = false, filePattern, maxResults = 100 } = options
+    const lowerQuery = query.toLowerCase()
+    const results = new Map<string, FileSearchResult>()
 
-    await this.searchInNode(this.fileTree || (await this.refreshFileTree()), query, results, {
-      includeContent,
-      filePattern,
-      maxResults,
-    })
+    for (const filePath of await this.listFiles()) {
+      if (results.size >= maxResults) break
+      const name = path.basename(filePath)
+      if (name.toLowerCase().includes(lowerQuery) && (!filePattern || filePattern.test(name))) {
+        results.set(filePath, { path: filePath, name, type: "file", matches: [] })
+      }
+    }
+
+    if (includeContent && query) {
+      const { results: contentResults } = await this.searchIndex.search({ query, maxResults })
+      contentResults.forEach((result) => {
+        if (filePattern && !filePattern.test(result.name)) return
+        results.set(result.path, { ...result, type: "file" })
+      })
+    }
 
-    return results.slice(0, maxResults)
+    return Array.from(results.values()).slice(0, maxResults)
   }
 
-  private async searchInNode(
-    node: FileNode,
-    query: string,
-    results: FileSearchResult[],
-    options: { includeContent?: boolean; filePattern?: RegExp; maxResults?: number },
-  ): Promise<void> {
-    if (results.length >= (options.maxResults || 100)) return
-
-    // Check if filename matches
-    const nameMatches = node.name.toLowerCase().includes(query.toLowerCase())
-
-    if (node.type === "file") {
-      if (nameMatches || !options.filePattern || options.filePattern.test(node.name)) {
-        const result: FileSearchResult = {
-          path: node.path,
-          name: node.name,
-          type: "file",
-          matches: [],
-        }
+  // Regex, whole-word and glob-filtered content search over the workspace index. Each file's
+  // result is passed to onResult as soon as it is found.
+  async search(
+    query: SearchQuery,
+    onResult?: (result: SearchFileResult) => void,
+  ): Promise<{ results: SearchFileResult[]; summary: SearchSummary }> {
+    return await this.searchIndex.search(query, onResult)
+  }
 
-        // Search file content if requested
-        if (options.includeContent && this.isTextFile(node.name)) {
-          try {
-            const content = await this.fs.readFile(node.path)
-            const lines = content.split("\n")
-
-            lines.forEach((line, index) => {
-              const lowerLine = line.toLowerCase()
-              const lowerQuery = query.toLowerCase()
-              let searchIndex = 0
-
-              while ((searchIndex = lowerLine.indexOf(lowerQuery, searchIndex)) !== -1) {
-                result.matches.push({
-                  line: index + 1,
-                  content: line,
-                  start: searchIndex,
-                  end: searchIndex + query.length,
-                })
-                searchIndex += query.length
-              }
-            })
-          } catch (error) {
-            console.warn(`Failed to read file ${node.path} for content search:`, error)
-          }
+  getSearchIndexStats(): { files: number; trigrams: number; ready: boolean } {
+    return this.searchIndex.getStats()
+  }
+
+  // Every match with its line as it would read after the replacement. Nothing is written.
+  // Replacements may use $1, $<name>, $& and $$ when the query is a regex.
+  async previewReplace(query: SearchQuery, replacement: string): Promise<ReplacePreview> {
+    const pattern = compileSearchPattern(query)
+    const files: ReplacePreviewFile[] = []
+    let total = 0
+
+    const { results } = await this.searchIndex.search({ ...query, maxResults: Number.MAX_SAFE_INTEGER })
+    for (const result of results) {
+      try {
+        const { content, version } = await this.readFileWithVersion(result.path)
+        const matches = findMatches(content, pattern)
+        if (matches.length === 0) continue
+
+        files.push({
+          path: result.path,
+          hash: version.hash,
+          matches: matches.map((match) => ({
+            ...match,
+            replaced: replaceMatches(match.content, pattern, replacement, query.isRegex).text,
+          })),
+        })
+        total += matches.length
+      } catch (error) {
+        console.warn(`Failed to preview replace in ${result.path}:`, error)
+      }
+    }
+
+    return { files, total }
+  }
+
+  // Apply a replacement to the given files (all matching files by default). Pass the hashes
+  // from previewReplace so files edited since the preview are skipped rather than rewritten.
+  async replaceInFiles(
+    query: SearchQuery,
+    replacement: string,
+    options: { files?: string[]; expectedHashes?: Record<string, string> } = {},
+  ): Promise<ReplaceResult> {
+    const pattern = compileSearchPattern(query)
+    const targets =
+      options.files ||
+      (await this.searchIndex.search({ ...query, maxResults: Number.MAX_SAFE_INTEGER })).results.map(
+        (result) => result.path,
+      )
+
+    const result: ReplaceResult = {
+      id: `replace_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      files: [],
+      conflicts: [],
+    }
+    const undo: Array<{ path: string; before: string; afterHash: string }> = []
+
+    for (const filePath of targets) {
+      try {
+        const { content, version } = await this.readFileWithVersion(filePath)
+        const expectedHash = options.expectedHashes?.[filePath]
+        if (expectedHash && expectedHash !== version.hash) {
+          result.conflicts.push(filePath)
+          continue
         }
 
-        if (nameMatches || result.matches.length > 0) {
-          results.push(result)
+        const { text, count } = replaceMatches(content, pattern, replacement, query.isRegex)
+        if (count === 0) continue
+
+        const written = await this.writeFile(filePath, text, { expectedHash: version.hash })
+        undo.push({ path: filePath, before: content, afterHash: written.hash })
+        result.files.push({ path: filePath, count })
+      } catch (error) {
+        if (!(error instanceof WriteConflictError)) {
+          console.warn(`Failed to replace in ${filePath}:`, error)
         }
+        result.conflicts.push(filePath)
       }
-    } else if (node.children) {
-      // Search in directory children
-      for (const child of node.children) {
-        await this.searchInNode(child, query, results, options)
-        if (results.length >= (options.maxResults || 100)) break
+    }
+
+    await this.searchIndex.refresh(result.files.map((file) => file.path))
+
+    if (undo.length > 0) {
+      this.replaceHistory.push({ id: result.id, files: undo })
+      if (this.replaceHistory.length > MAX_REPLACE_HISTORY) this.replaceHistory.shift()
+    }
+
+    this.emit("filesReplaced", result)
+    return result
+  }
+
+  // Restore the files a replace changed, except those edited since. Returns null for an
+  // unknown (or already undone) id.
+  async undoReplace(id: string): Promise<ReplaceResult | null> {
+    const index = this.replaceHistory.findIndex((entry) => entry.id === id)
+    if (index === -1) return null
+
+    const [entry] = this.replaceHistory.splice(index, 1)
+    const result: ReplaceResult = { id, files: [], conflicts: [] }
+
+    for (const file of entry.files) {
+      try {
+        await this.writeFile(file.path, file.before, { expectedHash: file.afterHash })
+        result.files.push({ path: file.path, count: 0 })
+      } catch (error) {
+        if (!(error instanceof WriteConflictError)) {
+          console.warn(`Failed to undo replace in ${file.path}:`, error)
+        }
+        result.conflicts.push(file.path)
       }
     }
+
+    await this.searchIndex.refresh(result.files.map((file) => file.path))
+    this.emit("replaceUndone", result)
+    return result
   }
 
-  private isTextFile(filename: string): boolean {
-    const textExtensions = [
-      ".txt",
-      ".md",
-      ".js",
-      ".ts",
-      ".jsx",
-      ".tsx",
-      ".json",
-      ".css",
-      ".scss",
-      ".html",
-      ".xml",
-      ".yaml",
-      ".yml",
-      ".toml",
-      ".ini",
-      ".conf",
-      ".py",
-      ".java",
-      ".c",
-      ".cpp",
-      ".h",
-      ".hpp",
-      ".rs",
-      ".go",
-      ".php",
-      ".rb",
-      ".sh",
-      ".bash",
-      ".zsh",
-      ".fish",
-      ".ps1",
-      ".bat",
-      ".cmd",
-    ]
-
-    const ext = path.extname(filename).toLowerCase()
-    return textExtensions.includes(ext) || !ext // Include files without extension
+  isTextFile(filename: string): boolean {
+    return isTextFile(filename)
   }
 
+  // The root and the directories listed so far
   getFileTree(): FileNode | null {
     return this.fileTree
   }
 
+  // Every file not matched by ignore rules, read from disk since the tree only holds
+  // directories that have been listed
+  async listFiles(): Promise<string[]> {
+    const files: string[] = []
+    const queue = ["."]
+
+    while (queue.length > 0) {
+      const dirPath = queue.shift() as string
+      let children: FileNode[]
+      try {
+        children = await this.readTreeChildren(dirPath)
+      } catch {
+        continue
+      }
+      children.forEach((child) => (child.type === "directory" ? queue.push(child.path) : files.push(child.path)))
+    }
+
+    return files
+  }
+
   async fileExists(filePath: string): Promise<boolean> {
     return await this.fs.exists(filePath)
   }
@@ -304,8 +948,313 @@ export class FileManager extends EventEmitter {
     return await this.fs.stat(filePath)
   }
 
+  // Versions of a file, newest first. Deleted files keep their history.
+  async getFileHistory(filePath: string): Promise<HistoryEntry[]> {
+    return await this.history.list(filePath)
+  }
+
+  // Paths with history, including files that no longer exist
+  async getHistoryFiles(): Promise<string[]> {
+    return await this.history.listFiles()
+  }
+
+  async readHistoryVersion(filePath: string, id: string): Promise<Buffer | null> {
+    const entry = await this.history.getEntry(filePath, id)
+    return entry ? await this.history.readContent(entry) : null
+  }
+
+  // Compare a version with a later one, or with the file on disk (empty if deleted)
+  async diffHistoryVersion(filePath: string, id: string, againstId?: string): Promise<HistoryDiff | null> {
+    const from = await this.history.getEntry(filePath, id)
+    if (!from) return null
+
+    let to: HistoryEntry | null = null
+    let newContent: Buffer
+    if (againstId) {
+      to = await this.history.getEntry(filePath, againstId)
+      if (!to) return null
+      newContent = await this.history.readContent(to)
+    } else {
+      newContent = await this.fs.readFileBuffer(filePath).catch((error) => {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return Buffer.alloc(0)
+        throw error
+      })
+    }
+
+    const oldContent = await this.history.readContent(from)
+    // Same heuristic as git: a NUL byte near the start means binary
+    const binary = [oldContent, newContent].some((buffer) => buffer.subarray(0, 8000).includes(0))
+
+    return {
+      from,
+      to,
+      binary,
+      hunks: binary ? [] : diffLines(oldContent.toString("utf-8"), newContent.toString("utf-8")),
+    }
+  }
+
+  // Write a version back. What is on disk is snapshotted first, so a restore can be undone
+  // by restoring again. Resolves to null for an unknown version.
+  async restoreHistoryVersion(filePath: string, id: string): Promise<FileVersion | null> {
+    const entry = await this.history.getEntry(filePath, id)
+    if (!entry) return null
+
+    const content = await this.history.readContent(entry)
+    await this.snapshotExisting(filePath, "external")
+    await this.fs.writeFileBuffer(filePath, content)
+    await this.recordHistory(filePath, content, "restore")
+
+    this.emit("fileUpdated", { path: filePath, size: content.length })
+    this.emit("historyRestored", { path: filePath, entry })
+    return await this.fs.getFileVersion(filePath)
+  }
+
+  // Local history is best effort: failing to record never fails the operation itself
+  private async recordHistory(filePath: string, content: Buffer, reason: HistoryReason): Promise<void> {
+    try {
+      await this.history.record(filePath, content, reason)
+    } catch (error) {
+      console.warn(`Failed to record history for ${filePath}:`, error)
+    }
+  }
+
+  // One entry at a time, so each sees the names the previous ones took
+  private async runBatch(paths: string[], task: (filePath: string) => Promise<string | void>): Promise<BatchResult> {
+    const result: BatchResult = { succeeded: [], failed: [] }
+
+    for (const filePath of paths) {
+      try {
+        const destination = await task(filePath)
+        result.succeeded.push(destination ? { path: filePath, destination } : { path: filePath })
+      } catch (error) {
+        result.failed.push({
+          path: filePath,
+          error: error instanceof Error ? error.message : String(error),
+          code: (error as NodeJS.ErrnoException).code,
+        })
+      }
+    }
+
+    return result
+  }
+
+  // First free path among "name.ext", "name copy.ext", "name copy 2.ext", ...
+  private async availablePath(filePath: string): Promise<string> {
+    for (let attempt = 0; ; attempt++) {
+      const candidate = copyName(filePath, attempt)
+      if (!(await this.fs.exists(candidate))) return candidate
+    }
+  }
+
+  // Snapshotted first, so the last content stays in local history even once the trash is emptied
+  private async moveToTrash(filePath: string): Promise<TrashItem> {
+    await this.snapshotExisting(filePath, "delete")
+    const item = await this.trash.put(filePath)
+    this.emit("fileDeleted", { path: filePath, trashItem: item })
+    this.emit("trashChanged")
+    return item
+  }
+
+  // Trash what an overwriting copy or move is about to replace, as part of the same undo step,
+  // so undoing it brings the destination back
+  private async replaceDestination(batch: JournalBatch, srcPath: string, destPath: string): Promise<void> {
+    // Both are workspace paths, so resolving against any one directory compares them
+    const dest = path.resolve(destPath)
+    const src = path.resolve(srcPath)
+    if (src === dest || !(await this.fs.exists(destPath))) return
+
+    // Trashing a directory the source is in would take the source with it
+    if (isWithin(dest, src)) {
+      const error: NodeJS.ErrnoException = new Error(`EINVAL: cannot replace ${destPath} with ${srcPath} inside it`)
+      error.code = "EINVAL"
+      throw error
+    }
+
+    const item = await this.moveToTrash(destPath)
+    batch.operations.push({ type: "delete", path: item.originalPath, trashId: item.id })
+  }
+
+  // Runs task in the caller's batch, or in one of its own so it is recorded as a step by itself
+  private async inBatch<T>(
+    label: string,
+    options: JournalOptions,
+    task: (batch: JournalBatch) => Promise<T>,
+  ): Promise<T> {
+    return options.batch ? await task(options.batch) : await this.batch(label, task)
+  }
+
+  // Undoing a create or copy trashes rather than deletes, so redo (and the user) can get it back.
+  // Operations update their trash ids in place for the next undo or redo.
+  private async applyOperation(operation: JournalOperation, direction: "undo" | "redo"): Promise<void> {
+    // Replaying is the journal's own work, so it goes into a batch that is never recorded
+    const replay: JournalOptions = { batch: { label: "", operations: [] } }
+
+    switch (operation.type) {
+      case "create":
+        if (direction === "undo") {
+          operation.trashId = (await this.moveToTrash(operation.path)).id
+        } else if (operation.trashId) {
+          await this.restoreFromTrash(operation.trashId, replay)
+          operation.trashId = undefined
+        }
+        return
+
+      case "move":
+        if (direction === "undo") {
+          await this.moveFile(operation.to, operation.from, replay)
+        } else {
+          await this.moveFile(operation.from, operation.to, replay)
+        }
+        return
+
+      case "delete":
+        if (direction === "undo") {
+          await this.restoreFromTrash(operation.trashId, replay)
+        } else {
+          operation.trashId = (await this.moveToTrash(operation.path)).id
+        }
+        return
+    }
+  }
+
+  // The outermost part of filePath that doesn't exist yet, i.e. what creating it would add
+  // (parents included); null if it already exists
+  private async firstMissingPath(filePath: string): Promise<string | null> {
+    if (await this.fs.exists(filePath)) return null
+
+    let missing = filePath
+    let parent = path.dirname(missing)
+    while (parent !== missing && parent !== "." && parent !== "/" && !(await this.fs.exists(parent))) {
+      missing = parent
+      parent = path.dirname(missing)
+    }
+    return missing
+  }
+
+  // Snapshot what is on disk before it is overwritten or deleted; directories file by file,
+  // skipping ignored paths
+  private async snapshotExisting(filePath: string, reason: HistoryReason): Promise<void> {
+    let stats: FileStats
+    try {
+      stats = await this.fs.stat(filePath)
+    } catch {
+      return // Nothing there yet
+    }
+
+    if (stats.isDirectory()) {
+      const names = await this.fs.readdir(filePath).catch(() => [] as string[])
+      for (const name of names) {
+        const childPath = path.join(filePath, name)
+        if (!this.ignore.isIgnored(childPath)) {
+          await this.snapshotExisting(childPath, reason)
+        }
+      }
+      return
+    }
+
+    if (!this.history.accepts(stats.size)) return
+    try {
+      await this.recordHistory(filePath, await this.fs.readFileBuffer(filePath), reason)
+    } catch (error) {
+      console.warn(`Failed to snapshot ${filePath}:`, error)
+    }
+  }
+
   dispose(): void {
+    if (this.flushTimer) clearTimeout(this.flushTimer)
+    this.pendingEvents.clear()
+    this.searchIndex.dispose()
+    this.trash.dispose()
     this.watcher.stop()
     this.removeAllListeners()
   }
 }
+
+// Distinct paths, without those inside another listed directory
+function outermostPaths(filePaths: string[]): string[] {
+  const paths = Array.from(new Set(filePaths.map((filePath) => path.normalize(filePath))))
+  return paths.filter((filePath) => !paths.some((other) => other !== filePath && filePath.startsWith(`${other}/`)))
+}
+
+// "name.ext" for attempt 0, then "name copy.ext", "name copy 2.ext", ...
+function copyName(filePath: string, attempt: number): string {
+  if (attempt === 0) return filePath
+
+  const name = path.basename(filePath)
+  const dot = name.lastIndexOf(".")
+  const base = dot > 0 ? name.slice(0, dot) : name
+  const extension = dot > 0 ? name.slice(dot) : ""
+  return path.join(path.dirname(filePath), `${base} copy${attempt > 1 ? ` ${attempt}` : ""}${extension}`)
+}
+
+function describeCount(paths: string[]): string {
+  return paths.length === 1 ? path.basename(paths[0]) : `${paths.length} items`
+}
+
+// Directories first, then by name
+function compareNodes(a: FileNode, b: FileNode): number {
+  if (a.type !== b.type) {
+    return a.type === "directory" ? -1 : 1
+  }
+  return a.name.localeCompare(b.name)
+}
+
+// Directories with loaded children, parents first, excluding the root
+function loadedDirectories(node: FileNode, paths: string[] = []): string[] {
+  node.children?.forEach((child) => {
+    if (child.type === "directory" && child.children) {
+      paths.push(child.path)
+      loadedDirectories(child, paths)
+    }
+  })
+  return paths
+}
+
+function encodeCursor(node: FileNode): string {
+  return `${node.type === "directory" ? "d" : "f"}:${node.name}`
+}
+
+function decodeCursor(cursor: string): FileNode {
+  const name = cursor.slice(2)
+  return { name, path: name, type: cursor.startsWith("d:") ? "directory" : "file" }
+}
+
+// Replace every non-empty match line by line, the same way findMatches reports them.
+// Regex replacements expand $1, $<name>, $& and $$; literal ones are inserted verbatim.
+function replaceMatches(
+  content: string,
+  pattern: RegExp,
+  replacement: string,
+  expand = false,
+): { text: string; count: number } {
+  let count = 0
+
+  const text = content
+    .split("\n")
+    .map((line) => {
+      pattern.lastIndex = 0
+      return line.replace(pattern, (match: string, ...rest: unknown[]) => {
+        if (!match) return match
+
+        count++
+        if (!expand) return replacement
+
+        // rest is the captures, then offset and input, then the named groups when there are any
+        const last = rest[rest.length - 1]
+        const hasGroups = typeof last === "object" && last !== null
+        const groups = hasGroups ? (last as Record<string, string | undefined>) : undefined
+        const captures = rest.slice(0, hasGroups ? -3 : -2) as Array<string | undefined>
+
+        return replacement.replace(/\$(\$|&|<([^>]*)>|(\d{1,2}))/g, (token, kind, name, digits) => {
+          if (kind === "$") return "$"
+          if (kind === "&") return match
+          if (name !== undefined) return groups?.[name] ?? ""
+          const group = Number(digits)
+          return group >= 1 && group <= captures.length ? captures[group - 1] ?? "" : token
+        })
+      })
+    })
+    .join("\n")
+
+  return { text, count }
+}
@@ -1,50 +1,220 @@
 import { promises as fs } from "fs"
+import { createHash, randomBytes } from "crypto"
 import path from "path"
-import type { LocalFileSystem, FileStats } from "./types"
+import type {
+  LocalFileSystem,
+  FileStats,
+  FileVersion,
+  WritePreconditions,
+  WriteStreamOptions,
+  CopyOptions,
+} from "./types"
+import { isWithin, realpathAllowMissing, PathSecurityError, type SymlinkPolicy } from "./path-security"
+
+export class WriteConflictError extends Error {
+  readonly filePath: string
+  // What is on disk now; null when the file was deleted
+  readonly current: FileVersion | null
+
+  constructor(filePath: string, current: FileVersion | null) {
+    super(`${filePath} was ${current ? "modified" : "deleted"} since it was last read`)
+    this.name = "WriteConflictError"
+    this.filePath = filePath
+    this.current = current
+  }
+}
+
+export function hashContent(content: string | Buffer | Uint8Array): string {
+  return createHash("sha256").update(content).digest("hex")
+}
+
+export interface NodeFileSystemOptions {
+  symlinkPolicy?: SymlinkPolicy
+  // Resolved host directories mounted into the workspace; consulted by the "mounts" policy
+  mountRoots?: () => string[]
+}
 
 export class NodeFileSystem implements LocalFileSystem {
   private basePath: string
+  private realBasePath: Promise<string> | null = null
+  private symlinkPolicy: SymlinkPolicy
+  private mountRoots: () => string[]
 
-  constructor(basePath: string) {
+  constructor(basePath: string, options: NodeFileSystemOptions = {}) {
     this.basePath = path.resolve(basePath)
+    this.symlinkPolicy = options.symlinkPolicy ?? "mounts"
+    this.mountRoots = options.mountRoots ?? (() => [])
   }
 
-  private resolvePath(filePath: string): string {
+  // Resolves to the real location of filePath after checking that it stays inside the
+  // workspace, both lexically and once symlinks are followed. With followLeaf false the
+  // last segment is not dereferenced, so a symlink itself can be removed.
+  private async resolvePath(filePath: string, options: { followLeaf?: boolean } = {}): Promise<string> {
     const resolved = path.resolve(this.basePath, filePath)
-    // Security check: ensure path is within basePath
-    if (!resolved.startsWith(this.basePath)) {
-      throw new Error(`Path ${filePath} is outside of allowed directory`)
+    if (!isWithin(this.basePath, resolved)) {
+      throw new PathSecurityError(`Path ${filePath} is outside of allowed directory`)
+    }
+
+    const real =
+      options.followLeaf === false && resolved !== this.basePath
+        ? path.join(await realpathAllowMissing(path.dirname(resolved)), path.basename(resolved))
+        : await realpathAllowMissing(resolved)
+
+    if (!(await this.isAllowedTarget(real))) {
+      throw new PathSecurityError(`Path ${filePath} resolves outside of allowed directory through a symlink`)
     }
-    return resolved
+    return real
+  }
+
+  private async isAllowedTarget(realPath: string): Promise<boolean> {
+    // Resolved lazily: the workspace may be created after the file system
+    if (!this.realBasePath) {
+      this.realBasePath = realpathAllowMissing(this.basePath)
+    }
+
+    if (isWithin(await this.realBasePath, realPath)) return true
+    if (this.symlinkPolicy !== "mounts") return false
+
+    for (const root of this.mountRoots()) {
+      if (isWithin(root, realPath)) return true
+    }
+    return false
   }
 
   async readFile(filePath: string): Promise<string> {
-    const fullPath = this.resolvePath(filePath)
+    const fullPath = await this.resolvePath(filePath)
     return await fs.readFile(fullPath, "utf-8")
   }
 
-  async writeFile(filePath: string, content: string): Promise<void> {
-    const fullPath = this.resolvePath(filePath)
+  async writeFile(filePath: string, content: string, preconditions?: WritePreconditions): Promise<void> {
+    const fullPath = await this.resolvePath(filePath)
+    await this.checkPreconditions(filePath, fullPath, preconditions)
+    await this.writeAtomic(fullPath, content)
+  }
+
+  async readFileBuffer(filePath: string): Promise<Buffer> {
+    const fullPath = await this.resolvePath(filePath)
+    return await fs.readFile(fullPath)
+  }
+
+  async writeFileBuffer(
+    filePath: string,
+    content: Buffer | Uint8Array,
+    preconditions?: WritePreconditions,
+  ): Promise<void> {
+    const fullPath = await this.resolvePath(filePath)
+    await this.checkPreconditions(filePath, fullPath, preconditions)
+    await this.writeAtomic(fullPath, content)
+  }
+
+  async writeFileStream(
+    filePath: string,
+    content: AsyncIterable<Uint8Array>,
+    options: WriteStreamOptions = {},
+  ): Promise<void> {
+    const fullPath = await this.resolvePath(filePath)
+    if (!options.exclusive) {
+      await this.writeAtomic(fullPath, content)
+      return
+    }
+
+    // Claim the name with an empty file only one writer can create, then replace it as usual
+    await fs.mkdir(path.dirname(fullPath), { recursive: true })
+    try {
+      await (await fs.open(fullPath, "wx")).close()
+    } catch (error) {
+      throw (error as NodeJS.ErrnoException).code === "EEXIST" ? alreadyExists(filePath) : error
+    }
+    try {
+      await this.writeAtomic(fullPath, content)
+    } catch (error) {
+      await fs.rm(fullPath, { force: true }).catch(() => {})
+      throw error
+    }
+  }
+
+  async appendFile(filePath: string, content: string): Promise<void> {
+    const fullPath = await this.resolvePath(filePath)
+    await fs.appendFile(fullPath, content, "utf-8")
+  }
+
+  async getFileVersion(filePath: string): Promise<FileVersion> {
+    return this.readVersion(await this.resolvePath(filePath))
+  }
+
+  private async readVersion(fullPath: string): Promise<FileVersion> {
+    const [stats, content] = await Promise.all([fs.stat(fullPath), fs.readFile(fullPath)])
+    return { mtime: stats.mtime, size: stats.size, hash: hashContent(content) }
+  }
+
+  private async checkPreconditions(
+    filePath: string,
+    fullPath: string,
+    preconditions: WritePreconditions = {},
+  ): Promise<void> {
+    const { expectedMtime, expectedHash } = preconditions
+    if (expectedMtime === undefined && expectedHash === undefined) return
+
+    let current: FileVersion
+    try {
+      current = await this.readVersion(fullPath)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new WriteConflictError(filePath, null)
+      }
+      throw error
+    }
+
+    const mtimeChanged = expectedMtime !== undefined && current.mtime.getTime() !== new Date(expectedMtime).getTime()
+    const hashChanged = expectedHash !== undefined && current.hash !== expectedHash
+
+    if (mtimeChanged || hashChanged) {
+      throw new WriteConflictError(filePath, current)
+    }
+  }
+
+  // Write to a temp file and rename it over the target, so readers never see a partial file
+  private async writeAtomic(
+    fullPath: string,
+    content: string | Buffer | Uint8Array | AsyncIterable<Uint8Array>,
+  ): Promise<void> {
     const dir = path.dirname(fullPath)
 
     // Ensure directory exists
     await fs.mkdir(dir, { recursive: true })
-    await fs.writeFile(fullPath, content, "utf-8")
+
+    // Same directory keeps the rename on one file system; the dot hides it from the watcher
+    const tempPath = path.join(dir, `.${path.basename(fullPath)}.${randomBytes(6).toString("hex")}.tmp`)
+
+    try {
+      await fs.writeFile(tempPath, content, typeof content === "string" ? "utf-8" : undefined)
+
+      // Keep the permissions of the file being replaced
+      const existing = await fs.stat(fullPath).catch(() => null)
+      if (existing) {
+        await fs.chmod(tempPath, existing.mode)
+      }
+
+      await fs.rename(tempPath, fullPath)
+    } catch (error) {
+      await fs.rm(tempPath, { force: true }).catch(() => {})
+      throw error
+    }
   }
 
   async readdir(dirPath: string): Promise<string[]> {
-    const fullPath = this.resolvePath(dirPath)
+    const fullPath = await this.resolvePath(dirPath)
     return await fs.readdir(fullPath)
   }
 
   async mkdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
-    const fullPath = this.resolvePath(dirPath)
+    const fullPath = await this.resolvePath(dirPath)
     await fs.mkdir(fullPath, options)
   }
 
   async exists(filePath: string): Promise<boolean> {
     try {
-      const fullPath = this.resolvePath(filePath)
+      const fullPath = await this.resolvePath(filePath)
       await fs.access(fullPath)
       return true
     } catch {
@@ -53,18 +223,111 @@ export class NodeFileSystem implements LocalFileSystem {
   }
 
   async remove(filePath: string): Promise<void> {
-    const fullPath = this.resolvePath(filePath)
-    const stats = await fs.stat(fullPath)
+    // Remove a symlink itself rather than whatever it points to
+    const fullPath = await this.resolvePath(filePath, { followLeaf: false })
+    const stats = await fs.lstat(fullPath)
 
     if (stats.isDirectory()) {
-      await fs.rmdir(fullPath, { recursive: true })
+      await fs.rm(fullPath, { recursive: true, force: true })
     } else {
       await fs.unlink(fullPath)
     }
   }
 
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    // Symlinks are renamed themselves, not their targets
+    const src = await this.resolvePath(oldPath, { followLeaf: false })
+    const dest = await this.resolvePath(newPath, { followLeaf: false })
+    if (src === dest) return
+
+    assertNotInside(oldPath, src, newPath, dest)
+
+    // fs.rename silently replaces a file; only allow that for a case-only rename of the same entry
+    const [srcStats, destStats] = await Promise.all([fs.lstat(src), lstatIfExists(dest)])
+    if (destStats && !(destStats.ino === srcStats.ino && destStats.dev === srcStats.dev)) {
+      throw alreadyExists(newPath)
+    }
+
+    await fs.mkdir(path.dirname(dest), { recursive: true })
+    await fs.rename(src, dest)
+  }
+
+  async copy(srcPath: string, destPath: string, options: CopyOptions = {}): Promise<void> {
+    const src = await this.resolvePath(srcPath, { followLeaf: false })
+    const dest = await this.resolvePath(destPath, { followLeaf: false })
+    if (src === dest && options.overwrite === "overwrite") return
+
+    assertNotInside(srcPath, src, destPath, dest)
+
+    await this.prepareDestination(src, dest, destPath, options)
+    await fs.mkdir(path.dirname(dest), { recursive: true })
+    // Symlinks are copied as links with their original target text
+    await fs.cp(src, dest, {
+      recursive: true,
+      force: true,
+      errorOnExist: false,
+      preserveTimestamps: true,
+      verbatimSymlinks: true,
+    })
+  }
+
+  async move(srcPath: string, destPath: string, options: CopyOptions = {}): Promise<void> {
+    const src = await this.resolvePath(srcPath, { followLeaf: false })
+    const dest = await this.resolvePath(destPath, { followLeaf: false })
+    if (src === dest) return
+
+    assertNotInside(srcPath, src, destPath, dest)
+
+    const merge = await this.prepareDestination(src, dest, destPath, options)
+    await fs.mkdir(path.dirname(dest), { recursive: true })
+
+    if (!merge) {
+      try {
+        await fs.rename(src, dest)
+        return
+      } catch (error) {
+        // Renames can't cross file systems, e.g. into a mounted directory
+        if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error
+      }
+    }
+
+    await fs.cp(src, dest, {
+      recursive: true,
+      force: true,
+      errorOnExist: false,
+      preserveTimestamps: true,
+      verbatimSymlinks: true,
+    })
+    await fs.rm(src, { recursive: true, force: true })
+  }
+
+  // Applies the overwrite policy to an existing destination. Resolves to true when a directory
+  // is about to be merged into another, which a rename can't do.
+  private async prepareDestination(
+    src: string,
+    dest: string,
+    destPath: string,
+    options: CopyOptions,
+  ): Promise<boolean> {
+    const destStats = await lstatIfExists(dest)
+    if (!destStats) return false
+
+    if ((options.overwrite ?? "error") === "error") {
+      throw alreadyExists(destPath)
+    }
+
+    const srcStats = await fs.lstat(src)
+    if (srcStats.isDirectory() && destStats.isDirectory()) return true
+
+    // A file can't be merged with a directory or the other way round, so replace it
+    if (srcStats.isDirectory() || destStats.isDirectory()) {
+      await fs.rm(dest, { recursive: true, force: true })
+    }
+    return false
+  }
+
   async stat(filePath: string): Promise<FileStats> {
-    const fullPath = this.resolvePath(filePath)
+    const fullPath = await this.resolvePath(filePath)
     const stats = await fs.stat(fullPath)
 
     return {
@@ -75,3 +338,27 @@ export class NodeFileSystem implements LocalFileSystem {
     }
   }
 }
+
+async function lstatIfExists(fullPath: string) {
+  try {
+    return await fs.lstat(fullPath)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+    throw error
+  }
+}
+
+function alreadyExists(filePath: string): NodeJS.ErrnoException {
+  const error: NodeJS.ErrnoException = new Error(`EEXIST: ${filePath} already exists`)
+  error.code = "EEXIST"
+  return error
+}
+
+// Copying or moving a directory into itself would recurse forever
+function assertNotInside(srcPath: string, src: string, destPath: string, dest: string): void {
+  if (src !== dest && isWithin(src, dest)) {
+    const error: NodeJS.ErrnoException = new Error(`EINVAL: cannot copy or move ${srcPath} into ${destPath}`)
+    error.code = "EINVAL"
+    throw error
+  }
+}
@@ -0,0 +1,54 @@
+// Text file extensions and the editor language each one is highlighted as.
+// A null language means "edit as plain text".
+export const TEXT_FILE_LANGUAGES: Record<string, string | null> = {
+  ".txt": null,
+  ".md": "md",
+  ".js": "js",
+  ".ts": "ts",
+  ".jsx": "jsx",
+  ".tsx": "tsx",
+  ".json": "json",
+  ".css": "css",
+  ".scss": "scss",
+  ".html": "html",
+  ".xml": "xml",
+  ".yaml": "yaml",
+  ".yml": "yml",
+  ".toml": "toml",
+  ".ini": "ini",
+  ".conf": "properties",
+  ".py": "py",
+  ".java": "java",
+  ".c": "c",
+  ".cpp": "cpp",
+  ".h": "h",
+  ".hpp": "hpp",
+  ".rs": "rs",
+  ".go": "go",
+  ".php": "php",
+  ".rb": "rb",
+  ".sh": "sh",
+  ".bash": "sh",
+  ".zsh": "sh",
+  ".fish": "sh",
+  ".ps1": null,
+  ".bat": null,
+  ".cmd": null,
+}
+
+export const TEXT_FILE_EXTENSIONS = Object.keys(TEXT_FILE_LANGUAGES)
+
+export function getFileExtension(filename: string): string {
+  const basename = filename.split(/[/\\]/).pop() || ""
+  const dotIndex = basename.lastIndexOf(".")
+  return dotIndex > 0 ? basename.slice(dotIndex).toLowerCase() : ""
+}
+
+export function isTextFile(filename: string): boolean {
+  const ext = getFileExtension(filename)
+  return TEXT_FILE_EXTENSIONS.includes(ext) || !ext // Include files without extension
+}
+
+export function getFileLanguage(filename: string): string | null {
+  return TEXT_FILE_LANGUAGES[getFileExtension(filename)] ?? null
+}
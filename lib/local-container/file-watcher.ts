@@ -1,6 +1,7 @@
 import { watch, type FSWatcher } from "chokidar"
 import { EventEmitter } from "events"
 import path from "path"
+import { IgnoreEngine } from "./ignore"
 
 export interface FileChangeEvent {
   type: "add" | "change" | "unlink" | "addDir" | "unlinkDir"
@@ -14,20 +15,38 @@ export interface FileChangeEvent {
 }
 
 export class FileWatcher extends EventEmitter {
+  readonly ignore: IgnoreEngine
   private watcher: FSWatcher | null = null
   private watchedPath: string
   private isWatching = false
 
-  constructor(watchPath: string) {
+  constructor(watchPath: string, ignore?: IgnoreEngine) {
     super()
     this.watchedPath = path.resolve(watchPath)
+    this.ignore = ignore || new IgnoreEngine(this.watchedPath)
+
+    // Pick up edited ignore rules before any other listener sees the change
+    this.on("change", (event: FileChangeEvent) => {
+      if (this.ignore.isIgnoreFile(event.path)) {
+        this.ignore.reload(path.dirname(event.path))
+      }
+    })
+  }
+
+  // Whether changes below this path are reported. Ignore files themselves are always
+  // watched so edits to them take effect.
+  isIgnored(filePath: string, isDirectory?: boolean): boolean {
+    if (this.ignore.isIgnoreFile(filePath)) {
+      return this.ignore.isIgnored(path.dirname(path.resolve(this.watchedPath, filePath)), true)
+    }
+    return this.ignore.isIgnored(filePath, isDirectory)
   }
 
   start(): void {
     if (this.isWatching) return
 
     this.watcher = watch(this.watchedPath, {
-      ignored: /(^|[/\\])\../, // ignore dotfiles
+      ignored: (filePath: string, stats?: { isDirectory(): boolean }) => this.isIgnored(filePath, stats?.isDirectory()),
       persistent: true,
       ignoreInitial: false,
       followSymlinks: false,
@@ -0,0 +1,136 @@
+import { describe, it, before, after } from "node:test"
+import assert from "node:assert/strict"
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { IgnoreEngine, parseIgnoreRules, createPathMatcher } from "./ignore"
+
+describe("parseIgnoreRules", () => {
+  it("skips comments and blank lines and reads negation and directory-only rules", () => {
+    const rules = parseIgnoreRules("# comment\n\n!keep.log\nlogs/\n\\#literal\n")
+    assert.deepEqual(
+      rules.map(({ negate, dirOnly }) => ({ negate, dirOnly })),
+      [
+        { negate: true, dirOnly: false },
+        { negate: false, dirOnly: true },
+        { negate: false, dirOnly: false },
+      ],
+    )
+    assert.equal(rules[2].regex.test("#literal"), true)
+  })
+
+  it("anchors patterns that contain a slash", () => {
+    const [anchored, floating] = parseIgnoreRules("/build\ncache")
+    assert.equal(anchored.regex.test("build"), true)
+    assert.equal(anchored.regex.test("src/build"), false)
+    assert.equal(floating.regex.test("src/cache"), true)
+  })
+
+  it("matches ** across directories and * within one", () => {
+    const [deep, shallow] = parseIgnoreRules("docs/**/*.md\nsrc/*.tmp")
+    assert.equal(deep.regex.test("docs/readme.md"), true)
+    assert.equal(deep.regex.test("docs/a/b/readme.md"), true)
+    assert.equal(shallow.regex.test("src/a.tmp"), true)
+    assert.equal(shallow.regex.test("src/nested/a.tmp"), false)
+  })
+})
+
+describe("IgnoreEngine", () => {
+  let workspace: string
+
+  before(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "ignore-"))
+    await fs.mkdir(path.join(workspace, "packages", "app"), { recursive: true })
+    await fs.writeFile(path.join(workspace, ".gitignore"), "*.log\n!.env.example\nsecret/\n")
+    await fs.writeFile(path.join(workspace, "packages", ".gitignore"), "generated/\n!important.log\n")
+  })
+
+  after(async () => {
+    await fs.rm(workspace, { recursive: true, force: true })
+  })
+
+  it("applies the default rules", () => {
+    const engine = new IgnoreEngine(workspace)
+    assert.equal(engine.isIgnored("node_modules", true), true)
+    assert.equal(engine.isIgnored("node_modules/react/index.js", false), true)
+    assert.equal(engine.isIgnored(".env", false), true)
+    assert.equal(engine.isIgnored("src/index.ts", false), false)
+  })
+
+  it("lets .gitignore add rules and re-include defaults", () => {
+    const engine = new IgnoreEngine(workspace)
+    assert.equal(engine.isIgnored("debug.log", false), true)
+    assert.equal(engine.isIgnored(".env.example", false), false)
+  })
+
+  it("applies directory-only rules to directories alone", () => {
+    const engine = new IgnoreEngine(workspace)
+    assert.equal(engine.isIgnored("secret", true), true)
+    assert.equal(engine.isIgnored("secret", false), false)
+    // An unknown type counts as ignored if either would be
+    assert.equal(engine.isIgnored("secret"), true)
+  })
+
+  it("scopes a nested .gitignore to its directory, where it wins over the root", () => {
+    const engine = new IgnoreEngine(workspace)
+    assert.equal(engine.isIgnored("packages/app/generated", true), true)
+    assert.equal(engine.isIgnored("generated", true), false)
+    assert.equal(engine.isIgnored("packages/important.log", false), false)
+    assert.equal(engine.isIgnored("important.log", false), true)
+  })
+
+  it("never re-includes a path below an ignored directory", async () => {
+    await fs.writeFile(path.join(workspace, ".boltignore"), "!node_modules/keep.js\n")
+    const engine = new IgnoreEngine(workspace)
+    assert.equal(engine.isIgnored("node_modules/keep.js", false), true)
+    await fs.rm(path.join(workspace, ".boltignore"))
+  })
+
+  it("lets .boltignore override the .gitignore files", async () => {
+    const engine = new IgnoreEngine(workspace)
+    assert.equal(engine.isIgnored("debug.log", false), true)
+
+    await fs.writeFile(path.join(workspace, ".boltignore"), "!debug.log\n")
+    // Rules are cached until reloaded
+    assert.equal(engine.isIgnored("debug.log", false), true)
+    engine.reload()
+    assert.equal(engine.isIgnored("debug.log", false), false)
+    await fs.rm(path.join(workspace, ".boltignore"))
+  })
+
+  it("only hides .git and the metadata directory when ignored files are shown", () => {
+    const engine = new IgnoreEngine(workspace)
+    const showIgnored = { showIgnored: true }
+    assert.equal(engine.isIgnored("node_modules", true, showIgnored), false)
+    assert.equal(engine.isIgnored("debug.log", false, showIgnored), false)
+    assert.equal(engine.isIgnored(".git", true, showIgnored), true)
+    assert.equal(engine.isIgnored(".bolt/history", true, showIgnored), true)
+  })
+
+  it("applies extra rules last", () => {
+    const engine = new IgnoreEngine(workspace)
+    assert.equal(engine.isIgnored("src/a.ts", false, { extraRules: ["*.ts"] }), true)
+    assert.equal(engine.isIgnored("debug.log", false, { extraRules: ["!debug.log"] }), false)
+  })
+
+  it("never ignores the root or paths outside it", () => {
+    const engine = new IgnoreEngine(workspace)
+    assert.equal(engine.isIgnored(workspace, true), false)
+    assert.equal(engine.isIgnored("../outside.log", false), false)
+  })
+})
+
+describe("createPathMatcher", () => {
+  it("matches a path or any directory above it", () => {
+    const matches = createPathMatcher(["src/", "*.md"])
+    assert.equal(matches("src/lib/index.ts"), true)
+    assert.equal(matches("docs/readme.md"), true)
+    assert.equal(matches("lib/src"), false)
+  })
+
+  it("lets a later negation exclude a match", () => {
+    const matches = createPathMatcher(["*.ts", "!*.test.ts"])
+    assert.equal(matches("a.ts"), true)
+    assert.equal(matches("a.test.ts"), false)
+  })
+})
@@ -0,0 +1,279 @@
+import { readFileSync, lstatSync } from "fs"
+import path from "path"
+
+// Per-directory gitignore files, and the project-level file that overrides them
+export const GITIGNORE_FILE = ".gitignore"
+export const BOLTIGNORE_FILE = ".boltignore"
+
+// Workspace metadata (e.g. local history); never listed, watched, indexed or exported
+export const METADATA_DIR = ".bolt"
+
+// Applied before any ignore file, so .gitignore and .boltignore can re-include with "!"
+export const DEFAULT_IGNORE_RULES = [".*", "node_modules/", "dist/", "build/", "coverage/", ".nyc_output/"]
+
+// Hidden even when ignored files are shown, and not re-included by any later rule
+const ALWAYS_IGNORED_RULES = [".git/", `/${METADATA_DIR}/`]
+
+// Decisions are memoized; the cache is dropped whenever it grows past this
+const MAX_CACHED_DECISIONS = 20000
+
+export interface IgnoreRule {
+  // The line as written in the ignore file
+  source: string
+  regex: RegExp
+  negate: boolean
+  dirOnly: boolean
+}
+
+interface RuleSet {
+  // Directory the rules are relative to, "" for the project root
+  base: string
+  rules: IgnoreRule[]
+}
+
+export interface IgnoreCheckOptions {
+  // Only apply the always-ignored rules (.git and the metadata dir)
+  showIgnored?: boolean
+  // Extra gitignore-style lines with the highest precedence, relative to the project root
+  extraRules?: string[]
+}
+
+// Gitignore semantics for the whole workspace: built-in defaults, every .gitignore between
+// the root and a path (deeper files win) and finally the root .boltignore. The last matching
+// rule decides, and nothing below an ignored directory can be re-included. Paths are
+// relative to the root or absolute.
+export class IgnoreEngine {
+  private root: string
+  private ruleSets: Map<string, RuleSet | null> = new Map()
+  private decisions: Map<string, boolean> = new Map()
+  private compiled: Map<string, RuleSet> = new Map()
+  private defaults: RuleSet
+  private alwaysIgnored: RuleSet
+
+  constructor(root: string, defaultRules: string[] = DEFAULT_IGNORE_RULES) {
+    this.root = path.resolve(root)
+    this.defaults = { base: "", rules: parseIgnoreRules(defaultRules.join("\n")) }
+    this.alwaysIgnored = { base: "", rules: parseIgnoreRules(ALWAYS_IGNORED_RULES.join("\n")) }
+  }
+
+  // Leave isDirectory undefined when the type is unknown; the path is then ignored if it
+  // would be as either a file or a directory
+  isIgnored(filePath: string, isDirectory?: boolean, options: IgnoreCheckOptions = {}): boolean {
+    const relativePath = this.toRelative(filePath)
+    if (!relativePath || relativePath.startsWith("..")) return false
+
+    if (isDirectory === undefined) {
+      return this.isIgnored(relativePath, false, options) || this.isIgnored(relativePath, true, options)
+    }
+
+    const cacheable = !options.extraRules
+    const key = `${options.showIgnored ? "s" : ""}${isDirectory ? "d" : "f"}:${relativePath}`
+    if (cacheable) {
+      const cached = this.decisions.get(key)
+      if (cached !== undefined) return cached
+    }
+
+    // A path inside an ignored directory stays ignored whatever its own rules say
+    const segments = relativePath.split("/")
+    let ignored = false
+    for (let i = 1; i < segments.length && !ignored; i++) {
+      ignored = this.matches(segments.slice(0, i).join("/"), true, options)
+    }
+    ignored = ignored || this.matches(relativePath, isDirectory, options)
+
+    if (cacheable) {
+      if (this.decisions.size >= MAX_CACHED_DECISIONS) this.decisions.clear()
+      this.decisions.set(key, ignored)
+    }
+    return ignored
+  }
+
+  // Ignore files are read once per directory; call this when one changes
+  reload(dirPath?: string): void {
+    if (dirPath === undefined) {
+      this.ruleSets.clear()
+    } else {
+      const dir = this.toRelative(dirPath)
+      this.ruleSets.delete(`${dir}\0${GITIGNORE_FILE}`)
+      this.ruleSets.delete(`${dir}\0${BOLTIGNORE_FILE}`)
+    }
+    this.decisions.clear()
+  }
+
+  isIgnoreFile(filePath: string): boolean {
+    const name = path.basename(filePath)
+    return name === GITIGNORE_FILE || name === BOLTIGNORE_FILE
+  }
+
+  private matches(relativePath: string, isDirectory: boolean, options: IgnoreCheckOptions): boolean {
+    if (this.matchRuleSets([this.alwaysIgnored], relativePath, isDirectory)) return true
+
+    const ruleSets: RuleSet[] = []
+
+    if (!options.showIgnored) {
+      ruleSets.push(this.defaults)
+
+      // .gitignore of the root and of every directory above the path
+      const segments = relativePath.split("/")
+      for (let i = 0; i < segments.length; i++) {
+        const ruleSet = this.loadRuleSet(segments.slice(0, i).join("/"), GITIGNORE_FILE)
+        if (ruleSet) ruleSets.push(ruleSet)
+      }
+
+      const boltignore = this.loadRuleSet("", BOLTIGNORE_FILE)
+      if (boltignore) ruleSets.push(boltignore)
+    }
+
+    if (options.extraRules) {
+      ruleSets.push(this.compile(options.extraRules))
+    }
+
+    return this.matchRuleSets(ruleSets, relativePath, isDirectory)
+  }
+
+  private matchRuleSets(ruleSets: RuleSet[], relativePath: string, isDirectory: boolean): boolean {
+    let ignored = false
+    ruleSets.forEach(({ base, rules }) => {
+      const target = base ? relativePath.slice(base.length + 1) : relativePath
+      rules.forEach((rule) => {
+        if (rule.dirOnly && !isDirectory) return
+        if (rule.regex.test(target)) ignored = !rule.negate
+      })
+    })
+    return ignored
+  }
+
+  private loadRuleSet(dir: string, fileName: string): RuleSet | null {
+    const key = `${dir}\0${fileName}`
+    if (this.ruleSets.has(key)) return this.ruleSets.get(key) || null
+
+    let ruleSet: RuleSet | null = null
+    try {
+      const filePath = path.join(this.root, dir, fileName)
+      // Only regular files; a symlinked ignore file could point outside the workspace
+      if (lstatSync(filePath).isFile()) {
+        ruleSet = { base: dir, rules: parseIgnoreRules(readFileSync(filePath, "utf-8")) }
+      }
+    } catch {
+      // No ignore file in this directory
+    }
+
+    this.ruleSets.set(key, ruleSet)
+    return ruleSet
+  }
+
+  private compile(lines: string[]): RuleSet {
+    const key = lines.join("\n")
+    let ruleSet = this.compiled.get(key)
+    if (!ruleSet) {
+      ruleSet = { base: "", rules: parseIgnoreRules(key) }
+      this.compiled.set(key, ruleSet)
+    }
+    return ruleSet
+  }
+
+  private toRelative(filePath: string): string {
+    return path
+      .relative(this.root, path.resolve(this.root, filePath))
+      .split(path.sep)
+      .join("/")
+  }
+}
+
+// Parse gitignore syntax: comments, "!" negation, a trailing "/" for directories only and
+// a slash elsewhere anchoring the pattern to the ignore file's directory
+export function parseIgnoreRules(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = []
+
+  content.split(/\r?\n/).forEach((line) => {
+    let pattern = line.replace(/\s+$/, "")
+    if (!pattern || pattern.startsWith("#")) return
+
+    let negate = false
+    if (pattern.startsWith("!")) {
+      negate = true
+      pattern = pattern.slice(1)
+    } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+      pattern = pattern.slice(1)
+    }
+
+    const dirOnly = pattern.endsWith("/")
+    if (dirOnly) pattern = pattern.replace(/\/+$/, "")
+
+    const anchored = pattern.includes("/")
+    pattern = pattern.replace(/^\/+/, "")
+    if (!pattern) return
+
+    const source = globToRegExp(pattern)
+    rules.push({
+      source: line,
+      regex: new RegExp(anchored ? `^${source}$` : `(?:^|/)${source}$`),
+      negate,
+      dirOnly,
+    })
+  })
+
+  return rules
+}
+
+function globToRegExp(glob: string): string {
+  let result = ""
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more directories; "**" anywhere else matches everything
+        if (glob[i + 2] === "/") {
+          result += "(?:.*/)?"
+          i += 2
+        } else {
+          result += ".*"
+          i += 1
+        }
+      } else {
+        result += "[^/]*"
+      }
+    } else if (char === "?") {
+      result += "[^/]"
+    } else if (char === "[" && glob.indexOf("]", i + 2) !== -1) {
+      const end = glob.indexOf("]", i + 2)
+      const characters = glob.slice(i + 1, end)
+      result += `[${characters.startsWith("!") ? `^${characters.slice(1)}` : characters}]`
+      i = end
+    } else if (char === "\\" && i + 1 < glob.length) {
+      result += escapeRegExp(glob[++i])
+    } else {
+      result += escapeRegExp(char)
+    }
+  }
+
+  return result
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")
+}
+
+// Match paths against gitignore-style globs, e.g. search include/exclude filters. A path
+// matches when it, or a directory above it, is matched by the last applicable rule.
+export function createPathMatcher(patterns: string[]): (filePath: string) => boolean {
+  const rules = parseIgnoreRules(patterns.join("\n"))
+
+  return (filePath) => {
+    const segments = filePath.split("/")
+    for (let i = 1; i <= segments.length; i++) {
+      const candidate = segments.slice(0, i).join("/")
+      const isDirectory = i < segments.length
+
+      let matched = false
+      rules.forEach((rule) => {
+        if (rule.dirOnly && !isDirectory) return
+        if (rule.regex.test(candidate)) matched = !rule.negate
+      })
+      if (matched) return true
+    }
+    return false
+  }
+}
@@ -1,11 +1,14 @@
 import { LocalContainerImpl } from "./container" // Declare the variable before using it
 export { LocalContainerImpl as LocalContainer } from "./container"
+import { getServices } from "./services"
 export type {
   LocalContainer,
   LocalFileSystem,
   LocalTerminal,
   Process,
   SpawnOptions,
+  PtyOptions,
+  PtyProcess,
   FileStats,
 } from "./types"
 
@@ -23,14 +26,12 @@ export const localContainerContext: LocalContainerContext = {
   loaded: false,
 }
 
-let containerInstance: Promise<LocalContainerImpl> | null = null
-
-export function getLocalContainer(workdirName = "workdir"): Promise<LocalContainerImpl> {
-  if (!containerInstance) {
-    containerInstance = LocalContainerImpl.boot({ workdirName }).then((container) => {
-      localContainerContext.loaded = true
-      return container
-    })
-  }
-  return containerInstance
+export function getLocalContainer(workdirName = "workspace"): Promise<LocalContainerImpl> {
+  // The container is owned by the shared service registry so every caller sees the same one
+  return getServices({ workdir: workdirName }).then(({ container }) => {
+    localContainerContext.loaded = true
+    return container
+  })
 }
+
+export { getServices, disposeServices, type LocalServices, type ServiceOptions } from "./services"
@@ -0,0 +1,170 @@
+export interface DiffLine {
+  type: "context" | "add" | "remove"
+  content: string
+}
+
+// A run of changes with surrounding context, numbered like a unified diff (1-based)
+export interface DiffHunk {
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  lines: DiffLine[]
+}
+
+export interface DiffOptions {
+  // Unchanged lines kept around each change
+  context?: number
+}
+
+// Beyond this many edits the changed region is reported as replaced wholesale, which keeps
+// time and memory bounded on unrelated files
+const MAX_EDIT_DISTANCE = 2000
+
+type Operation = "equal" | "add" | "remove"
+
+// Line diff of two texts (Myers), grouped into hunks
+export function diffLines(oldText: string, newText: string, options: DiffOptions = {}): DiffHunk[] {
+  const context = options.context ?? 3
+  const a = splitLines(oldText)
+  const b = splitLines(newText)
+
+  // The common prefix and suffix need no search
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const middleA = a.slice(start, endA)
+  const middleB = b.slice(start, endB)
+  const middle =
+    shortestEdit(middleA, middleB) ||
+    (middleA.map((): Operation => "remove") as Operation[]).concat(middleB.map((): Operation => "add"))
+
+  const equal = (count: number): Operation[] => new Array(count).fill("equal")
+  const operations = equal(start).concat(middle, equal(a.length - endA))
+
+  return toHunks(operations, a, b, context)
+}
+
+function splitLines(text: string): string[] {
+  if (!text) return []
+  const lines = text.split(/\r?\n/)
+  // A trailing newline ends the last line rather than starting an empty one
+  if (lines[lines.length - 1] === "") lines.pop()
+  return lines
+}
+
+// Myers' O(ND) algorithm; null when the edit distance exceeds MAX_EDIT_DISTANCE
+function shortestEdit(a: string[], b: string[]): Operation[] | null {
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  if (max === 0) return []
+
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  // Furthest x per diagonal before each step, trimmed to the diagonals that step can reach
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2))
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m)
+      }
+    }
+  }
+
+  return null
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): Operation[] {
+  const operations: Operation[] = []
+  let x = n
+  let y = m
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d]
+    // trace[d] starts at diagonal -d - 1
+    const at = (k: number) => v[k + d + 1]
+    const k = x - y
+
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const previousX = at(previousK)
+    const previousY = previousX - previousK
+
+    while (x > previousX && y > previousY) {
+      operations.push("equal")
+      x--
+      y--
+    }
+    if (d > 0) {
+      operations.push(x === previousX ? "add" : "remove")
+    }
+    x = previousX
+    y = previousY
+  }
+
+  return operations.reverse()
+}
+
+function toHunks(operations: Operation[], a: string[], b: string[], context: number): DiffHunk[] {
+  // Every line with its position in both texts
+  const lines: Array<DiffLine & { oldIndex: number; newIndex: number }> = []
+  let oldIndex = 0
+  let newIndex = 0
+  operations.forEach((operation) => {
+    if (operation === "equal") {
+      lines.push({ type: "context", content: a[oldIndex], oldIndex: oldIndex++, newIndex: newIndex++ })
+    } else if (operation === "remove") {
+      lines.push({ type: "remove", content: a[oldIndex], oldIndex: oldIndex++, newIndex })
+    } else {
+      lines.push({ type: "add", content: b[newIndex], oldIndex, newIndex: newIndex++ })
+    }
+  })
+
+  const hunks: DiffHunk[] = []
+  let i = 0
+  while (i < lines.length) {
+    if (lines[i].type === "context") {
+      i++
+      continue
+    }
+
+    // Extend through later changes separated by at most two contexts' worth of lines
+    let lastChange = i
+    for (let j = i + 1; j < lines.length && j - lastChange <= context * 2; j++) {
+      if (lines[j].type !== "context") lastChange = j
+    }
+
+    const slice = lines.slice(Math.max(0, i - context), Math.min(lines.length, lastChange + context + 1))
+    const oldLines = slice.filter((line) => line.type !== "add").length
+    const newLines = slice.filter((line) => line.type !== "remove").length
+    hunks.push({
+      // Like diff -u, an empty side starts at the line before
+      oldStart: slice[0].oldIndex + (oldLines > 0 ? 1 : 0),
+      oldLines,
+      newStart: slice[0].newIndex + (newLines > 0 ? 1 : 0),
+      newLines,
+      lines: slice.map(({ type, content }) => ({ type, content })),
+    })
+
+    i = lastChange + context + 1
+  }
+
+  return hunks
+}
@@ -0,0 +1,100 @@
+import { describe, it, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { promises as fs } from "fs"
+import { randomBytes } from "crypto"
+import os from "os"
+import path from "path"
+import { LocalHistory } from "./local-history"
+import { NodeFileSystem } from "./file-system"
+
+describe("LocalHistory", () => {
+  let workspace: string
+  let fileSystem: NodeFileSystem
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "history-"))
+    fileSystem = new NodeFileSystem(workspace)
+  })
+
+  afterEach(async () => {
+    await fs.rm(workspace, { recursive: true, force: true })
+  })
+
+  // Blobs on disk, stored in one directory per hash prefix
+  const blobCount = async () => {
+    const blobsDir = path.join(workspace, ".bolt", "history", "blobs")
+    const dirs = await fs.readdir(blobsDir).catch(() => [])
+    const counts = await Promise.all(dirs.map(async (dir) => (await fs.readdir(path.join(blobsDir, dir))).length))
+    return counts.reduce((sum, count) => sum + count, 0)
+  }
+
+  it("skips content that matches the latest snapshot and stores shared content once", async () => {
+    const history = new LocalHistory(fileSystem, workspace)
+    assert.ok(await history.record("a.txt", Buffer.from("one"), "write"))
+    assert.equal(await history.record("a.txt", Buffer.from("one"), "write"), null)
+    assert.ok(await history.record("b.txt", Buffer.from("one"), "write"))
+
+    const { files, entries, blobs } = await history.getStats()
+    assert.deepEqual({ files, entries, blobs }, { files: 2, entries: 2, blobs: 1 })
+    assert.equal(await blobCount(), 1)
+  })
+
+  it("keeps the newest maxEntriesPerFile entries", async () => {
+    const history = new LocalHistory(fileSystem, workspace, { maxEntriesPerFile: 2 })
+    for (const version of ["v1", "v2", "v3"]) {
+      await history.record("a.txt", Buffer.from(version), "write")
+    }
+    await history.prune()
+
+    const entries = await history.list("a.txt")
+    assert.deepEqual(
+      await Promise.all(entries.map(async (entry) => (await history.readContent(entry)).toString())),
+      ["v3", "v2"],
+    )
+    assert.equal(await blobCount(), 2)
+  })
+
+  it("drops entries older than maxAge along with their blobs", async () => {
+    const history = new LocalHistory(fileSystem, workspace, { maxAge: 50 })
+    await history.record("old.txt", Buffer.from("old"), "write")
+    await new Promise((resolve) => setTimeout(resolve, 80))
+    await history.record("new.txt", Buffer.from("new"), "write")
+    await history.prune()
+
+    assert.deepEqual(await history.listFiles(), ["new.txt"])
+    assert.equal(await blobCount(), 1)
+  })
+
+  it("drops the oldest entries once the blobs exceed maxBytes", async () => {
+    // Random content barely compresses, so each blob is about 1 KB
+    const history = new LocalHistory(fileSystem, workspace, { maxBytes: 2500 })
+    for (const name of ["a.bin", "b.bin", "c.bin"]) {
+      await history.record(name, randomBytes(1000), "write")
+    }
+
+    assert.deepEqual(await history.listFiles(), ["b.bin", "c.bin"])
+    assert.ok((await history.getStats()).bytes <= 2500)
+    assert.equal(await blobCount(), 2)
+  })
+
+  it("reloads the pruned log and follows renames", async () => {
+    const history = new LocalHistory(fileSystem, workspace, { maxEntriesPerFile: 1 })
+    await history.record("src/a.txt", Buffer.from("v1"), "write")
+    await history.record("src/a.txt", Buffer.from("v2"), "write")
+    await history.rename("src", "lib")
+    await history.prune()
+
+    const reloaded = new LocalHistory(fileSystem, workspace, { maxEntriesPerFile: 1 })
+    const entries = await reloaded.list("lib/a.txt")
+    assert.equal(entries.length, 1)
+    assert.equal((await reloaded.readContent(entries[0])).toString(), "v2")
+    assert.deepEqual(await reloaded.listFiles(), ["lib/a.txt"])
+  })
+
+  it("ignores paths outside the workspace and files over maxFileBytes", async () => {
+    const history = new LocalHistory(fileSystem, workspace, { maxFileBytes: 4 })
+    assert.equal(await history.record("../escape.txt", Buffer.from("x"), "write"), null)
+    assert.equal(await history.record("big.txt", Buffer.from("too big"), "write"), null)
+    assert.deepEqual(await history.listFiles(), [])
+  })
+})
@@ -0,0 +1,369 @@
+import { promisify } from "util"
+import { gzip, gunzip } from "zlib"
+import path from "path"
+import type { LocalFileSystem } from "./types"
+import { hashContent } from "./file-system"
+import { METADATA_DIR } from "./ignore"
+import { isWithin } from "./path-security"
+
+const gzipAsync = promisify(gzip)
+const gunzipAsync = promisify(gunzip)
+
+// Why a snapshot was taken:
+// - "write": content saved through the app
+// - "external": content found on disk that history hadn't seen, e.g. edited in the terminal
+// - "delete": content of a file about to be deleted or overwritten
+// - "restore": content written back from an earlier snapshot
+export type HistoryReason = "write" | "external" | "delete" | "restore"
+
+export interface HistoryEntry {
+  id: string
+  // Path when the snapshot was taken; the timeline follows the file through renames
+  path: string
+  // sha256 of the content, which is stored once however many entries share it
+  hash: string
+  size: number
+  timestamp: number
+  reason: HistoryReason
+}
+
+export interface LocalHistoryOptions {
+  // Entries older than this are pruned
+  maxAge?: number
+  // Compressed bytes kept on disk; the oldest entries go first
+  maxBytes?: number
+  maxEntriesPerFile?: number
+  // Larger files are not snapshotted
+  maxFileBytes?: number
+}
+
+export interface LocalHistoryStats {
+  files: number
+  entries: number
+  blobs: number
+  bytes: number
+}
+
+// One line of the log. Renames are replayed on load so entries stay keyed by current path.
+type LogRecord =
+  | ({ op: "snapshot"; key: string; stored: number } & HistoryEntry)
+  | { op: "rename"; from: string; to: string; timestamp: number }
+
+const HISTORY_DIR = path.posix.join(METADATA_DIR, "history")
+const LOG_FILE = path.posix.join(HISTORY_DIR, "entries.jsonl")
+const BLOBS_DIR = path.posix.join(HISTORY_DIR, "blobs")
+
+// Records appended between prunes; the log is compacted when pruned
+const PRUNE_INTERVAL = 100
+
+// Content snapshots of workspace files, kept in <workspace>/.bolt/history. Contents are
+// stored gzipped and addressed by hash, so identical versions cost nothing extra; entries
+// are in an append-only log. All I/O goes through the workspace file system, so a symlinked
+// .bolt can't send it outside the workspace.
+export class LocalHistory {
+  private fs: LocalFileSystem
+  private root: string
+  private options: Required<LocalHistoryOptions>
+  // Oldest first, keyed by the file's current path
+  private entries: Map<string, HistoryEntry[]> = new Map()
+  // Compressed size of every stored blob
+  private blobs: Map<string, number> = new Map()
+  private loaded: Promise<void> | null = null
+  private recordsSincePrune = 0
+  // Serializes log appends, renames and pruning
+  private task: Promise<unknown> = Promise.resolve()
+
+  constructor(fs: LocalFileSystem, workdir: string, options: LocalHistoryOptions = {}) {
+    this.fs = fs
+    this.root = path.resolve(workdir)
+    this.options = {
+      maxAge: options.maxAge ?? 30 * 24 * 60 * 60 * 1000,
+      maxBytes: options.maxBytes ?? 256 * 1024 * 1024,
+      maxEntriesPerFile: options.maxEntriesPerFile ?? 100,
+      maxFileBytes: options.maxFileBytes ?? 5 * 1024 * 1024,
+    }
+  }
+
+  // Adds a snapshot unless the content matches the file's latest one. Resolves to the new
+  // entry, or null when nothing was recorded.
+  record(filePath: string, content: Buffer, reason: HistoryReason): Promise<HistoryEntry | null> {
+    const key = this.toKey(filePath)
+    if (!key || content.length > this.options.maxFileBytes) return Promise.resolve(null)
+
+    return this.run(async () => {
+      const hash = hashContent(content)
+      const existing = this.entries.get(key)
+      if (existing && existing.length > 0 && existing[existing.length - 1].hash === hash) return null
+
+      const stored = await this.storeBlob(hash, content)
+      const entry: HistoryEntry = {
+        id: `hist_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        path: key,
+        hash,
+        size: content.length,
+        timestamp: Date.now(),
+        reason,
+      }
+
+      await this.append({ op: "snapshot", key, stored, ...entry })
+      this.addEntry(key, entry)
+
+      if (++this.recordsSincePrune >= PRUNE_INTERVAL || this.totalBytes() > this.options.maxBytes) {
+        await this.pruneNow()
+      }
+      return entry
+    })
+  }
+
+  // Moves the timeline of a file, or of everything below a directory, to its new path
+  rename(oldPath: string, newPath: string): Promise<void> {
+    const from = this.toKey(oldPath)
+    const to = this.toKey(newPath)
+    if (!from || !to || from === to) return Promise.resolve()
+
+    return this.run(async () => {
+      if (!this.renameKeys(from, to)) return
+      await this.append({ op: "rename", from, to, timestamp: Date.now() })
+    })
+  }
+
+  // Lets callers skip reading files that would not be recorded anyway
+  accepts(size: number): boolean {
+    return size <= this.options.maxFileBytes
+  }
+
+  // Newest first
+  async list(filePath: string): Promise<HistoryEntry[]> {
+    await this.load()
+    return (this.entries.get(this.toKey(filePath)) || []).slice().reverse()
+  }
+
+  async getEntry(filePath: string, id: string): Promise<HistoryEntry | null> {
+    await this.load()
+    return (this.entries.get(this.toKey(filePath)) || []).find((entry) => entry.id === id) || null
+  }
+
+  async readContent(entry: HistoryEntry): Promise<Buffer> {
+    return await gunzipAsync(await this.fs.readFileBuffer(this.blobPath(entry.hash)))
+  }
+
+  // Files with history whose current path no longer exists can still be restored, so they
+  // are listed too
+  async listFiles(): Promise<string[]> {
+    await this.load()
+    return Array.from(this.entries.keys()).sort()
+  }
+
+  prune(): Promise<void> {
+    return this.run(() => this.pruneNow())
+  }
+
+  async getStats(): Promise<LocalHistoryStats> {
+    await this.load()
+    let entries = 0
+    this.entries.forEach((list) => {
+      entries += list.length
+    })
+    return { files: this.entries.size, entries, blobs: this.blobs.size, bytes: this.totalBytes() }
+  }
+
+  private run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.task.then(() => this.load()).then(task)
+    this.task = result.catch(() => undefined)
+    return result
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readLog().then(() => this.pruneNow())
+    }
+    return this.loaded
+  }
+
+  private async readLog(): Promise<void> {
+    let content: string
+    try {
+      content = await this.fs.readFile(LOG_FILE)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return
+      throw error
+    }
+
+    content.split("\n").forEach((line) => {
+      if (!line) return
+      let record: LogRecord
+      try {
+        record = JSON.parse(line)
+      } catch {
+        // A line cut short by a crash mid-append
+        return
+      }
+
+      if (record.op === "rename") {
+        this.renameKeys(record.from, record.to)
+      } else if (record.op === "snapshot") {
+        const { id, path: entryPath, hash, size, timestamp, reason } = record
+        this.blobs.set(hash, record.stored)
+        this.addEntry(record.key, { id, path: entryPath, hash, size, timestamp, reason })
+      }
+    })
+  }
+
+  private addEntry(key: string, entry: HistoryEntry): void {
+    const list = this.entries.get(key)
+    if (list) {
+      list.push(entry)
+    } else {
+      this.entries.set(key, [entry])
+    }
+  }
+
+  private renameKeys(from: string, to: string): boolean {
+    const moves: Array<[string, string]> = []
+    this.entries.forEach((_, key) => {
+      if (key === from) {
+        moves.push([key, to])
+      } else if (key.startsWith(`${from}/`)) {
+        moves.push([key, to + key.slice(from.length)])
+      }
+    })
+
+    moves.forEach(([oldKey, newKey]) => {
+      const moved = this.entries.get(oldKey) || []
+      this.entries.delete(oldKey)
+      // The target's own history (e.g. a file overwritten by the move) is kept, interleaved
+      const merged = (this.entries.get(newKey) || []).concat(moved)
+      merged.sort((a, b) => a.timestamp - b.timestamp)
+      this.entries.set(newKey, merged)
+    })
+    return moves.length > 0
+  }
+
+  private async storeBlob(hash: string, content: Buffer): Promise<number> {
+    const existing = this.blobs.get(hash)
+    if (existing !== undefined) return existing
+
+    // Written atomically, so a blob is never seen half-written
+    const compressed = await gzipAsync(content)
+    await this.fs.writeFileBuffer(this.blobPath(hash), compressed)
+
+    this.blobs.set(hash, compressed.length)
+    return compressed.length
+  }
+
+  private async append(record: LogRecord): Promise<void> {
+    await this.fs.mkdir(HISTORY_DIR, { recursive: true })
+    await this.fs.appendFile(LOG_FILE, JSON.stringify(record) + "\n")
+  }
+
+  // Drops entries past the age and per-file limits, then the oldest overall until the blobs
+  // fit the byte budget. Unreferenced blobs are deleted and the log is rewritten.
+  private async pruneNow(): Promise<void> {
+    this.recordsSincePrune = 0
+    const cutoff = Date.now() - this.options.maxAge
+    let changed = false
+
+    this.entries.forEach((list, key) => {
+      const kept = list.filter((entry) => entry.timestamp >= cutoff).slice(-this.options.maxEntriesPerFile)
+      if (kept.length === list.length) return
+
+      changed = true
+      if (kept.length > 0) {
+        this.entries.set(key, kept)
+      } else {
+        this.entries.delete(key)
+      }
+    })
+
+    let referenced = this.referencedBlobs()
+    if (this.sumBytes(referenced) > this.options.maxBytes) {
+      const all: Array<{ key: string; entry: HistoryEntry }> = []
+      this.entries.forEach((list, key) => list.forEach((entry) => all.push({ key, entry })))
+      all.sort((a, b) => a.entry.timestamp - b.entry.timestamp)
+
+      const removed = new Set<string>()
+      const counts = new Map<string, number>()
+      all.forEach(({ entry }) => counts.set(entry.hash, (counts.get(entry.hash) || 0) + 1))
+
+      let bytes = this.sumBytes(referenced)
+      for (const { entry } of all) {
+        if (bytes <= this.options.maxBytes) break
+        removed.add(entry.id)
+        const remaining = (counts.get(entry.hash) || 1) - 1
+        counts.set(entry.hash, remaining)
+        if (remaining === 0) bytes -= this.blobs.get(entry.hash) || 0
+      }
+
+      this.entries.forEach((list, key) => {
+        const kept = list.filter((entry) => !removed.has(entry.id))
+        if (kept.length > 0) {
+          this.entries.set(key, kept)
+        } else {
+          this.entries.delete(key)
+        }
+      })
+      changed = true
+      referenced = this.referencedBlobs()
+    }
+
+    // Blobs no entry uses any more, including ones orphaned by an interrupted prune
+    const orphans: string[] = []
+    this.blobs.forEach((_, hash) => {
+      if (!referenced.has(hash)) orphans.push(hash)
+    })
+    await Promise.all(
+      orphans.map(async (hash) => {
+        try {
+          await this.fs.remove(this.blobPath(hash))
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+        }
+        this.blobs.delete(hash)
+      }),
+    )
+
+    if (changed || orphans.length > 0) {
+      await this.rewriteLog()
+    }
+  }
+
+  private async rewriteLog(): Promise<void> {
+    const lines: string[] = []
+    this.entries.forEach((list, key) => {
+      list.forEach((entry) => {
+        const record: LogRecord = { op: "snapshot", key, stored: this.blobs.get(entry.hash) || 0, ...entry }
+        lines.push(JSON.stringify(record))
+      })
+    })
+
+    await this.fs.writeFile(LOG_FILE, lines.length > 0 ? lines.join("\n") + "\n" : "")
+  }
+
+  private referencedBlobs(): Set<string> {
+    const hashes = new Set<string>()
+    this.entries.forEach((list) => list.forEach((entry) => hashes.add(entry.hash)))
+    return hashes
+  }
+
+  private sumBytes(hashes: Set<string>): number {
+    let bytes = 0
+    hashes.forEach((hash) => {
+      bytes += this.blobs.get(hash) || 0
+    })
+    return bytes
+  }
+
+  private totalBytes(): number {
+    return this.sumBytes(this.referencedBlobs())
+  }
+
+  private blobPath(hash: string): string {
+    return path.posix.join(BLOBS_DIR, hash.slice(0, 2), `${hash}.gz`)
+  }
+
+  private toKey(filePath: string): string {
+    const resolved = path.resolve(this.root, filePath)
+    if (!isWithin(this.root, resolved)) return ""
+    return path.relative(this.root, resolved).split(path.sep).join("/")
+  }
+}
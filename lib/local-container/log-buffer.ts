@@ -0,0 +1,56 @@
+export type LogStream = "stdout" | "stderr" | "system"
+
+export interface LogLine {
+  // Monotonic sequence number, used to fetch only lines newer than one already seen
+  seq: number
+  timestamp: Date
+  stream: LogStream
+  text: string
+}
+
+// Fixed-capacity ring buffer of log lines; the oldest lines are overwritten once full
+export class LogBuffer {
+  private lines: LogLine[] = []
+  private start = 0
+  private nextSeq = 1
+  private capacity: number
+
+  constructor(capacity = 1000) {
+    this.capacity = capacity
+  }
+
+  push(stream: LogStream, text: string): LogLine {
+    const line: LogLine = {
+      seq: this.nextSeq++,
+      timestamp: new Date(),
+      stream,
+      text,
+    }
+
+    if (this.lines.length < this.capacity) {
+      this.lines.push(line)
+    } else {
+      this.lines[this.start] = line
+      this.start = (this.start + 1) % this.capacity
+    }
+
+    return line
+  }
+
+  getLines(options: { since?: number; limit?: number } = {}): LogLine[] {
+    const { since = 0, limit } = options
+    const ordered = [...this.lines.slice(this.start), ...this.lines.slice(0, this.start)]
+    const filtered = since > 0 ? ordered.filter((line) => line.seq > since) : ordered
+
+    return limit !== undefined ? filtered.slice(-limit) : filtered
+  }
+
+  clear(): void {
+    this.lines = []
+    this.start = 0
+  }
+
+  get size(): number {
+    return this.lines.length
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, it } from "node:test"
+import assert from "node:assert/strict"
+import { getBoundary, parseMultipart, MultipartError, type MultipartPart } from "./multipart"
+
+const BOUNDARY = "----boundary42"
+
+// A multipart body fed in chunks of the given size, to split boundaries and headers
+async function* body(text: string, chunkSize = text.length): AsyncGenerator<Uint8Array> {
+  const bytes = Buffer.from(text)
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    yield bytes.subarray(i, i + chunkSize)
+  }
+}
+
+function form(...parts: Array<{ headers: string; content: string }>): string {
+  const encoded = parts.map(({ headers, content }) => `--${BOUNDARY}\r\n${headers}\r\n\r\n${content}\r\n`)
+  return `${encoded.join("")}--${BOUNDARY}--\r\n`
+}
+
+async function read(part: MultipartPart): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of part.content) chunks.push(chunk)
+  return Buffer.concat(chunks).toString("utf-8")
+}
+
+describe("getBoundary", () => {
+  it("reads quoted and bare boundaries", () => {
+    assert.equal(getBoundary(`multipart/form-data; boundary=${BOUNDARY}`), BOUNDARY)
+    assert.equal(getBoundary(`multipart/form-data; charset=utf-8; boundary="a b"`), "a b")
+  })
+
+  it("returns null for other content types", () => {
+    assert.equal(getBoundary("application/json"), null)
+    assert.equal(getBoundary("multipart/form-data"), null)
+    assert.equal(getBoundary(null), null)
+  })
+})
+
+describe("parseMultipart", () => {
+  // Starts like the delimiter without being one
+  const fileContent = `line one\r\n--${BOUNDARY.slice(0, 5)} not a boundary`
+  const text = form(
+    { headers: 'Content-Disposition: form-data; name="targetDir"', content: "src" },
+    {
+      headers: 'Content-Disposition: form-data; name="file"; filename="a.txt"\r\nContent-Type: text/plain',
+      content: fileContent,
+    },
+  )
+
+  it("yields fields and files with their content", async () => {
+    const parts: Array<{ name: string; filename?: string; contentType?: string; content: string }> = []
+    for await (const part of parseMultipart(body(text), BOUNDARY)) {
+      parts.push({ name: part.name, filename: part.filename, contentType: part.contentType, content: await read(part) })
+    }
+
+    assert.deepEqual(parts, [
+      { name: "targetDir", filename: undefined, contentType: undefined, content: "src" },
+      { name: "file", filename: "a.txt", contentType: "text/plain", content: fileContent },
+    ])
+  })
+
+  it("finds boundaries split across chunks", async () => {
+    for (const chunkSize of [1, 3, 7]) {
+      const contents: string[] = []
+      for await (const part of parseMultipart(body(text, chunkSize), BOUNDARY)) {
+        contents.push(await read(part))
+      }
+      assert.deepEqual(contents, ["src", fileContent])
+    }
+  })
+
+  it("skips content a consumer leaves unread", async () => {
+    const names: string[] = []
+    for await (const part of parseMultipart(body(text, 4), BOUNDARY)) {
+      names.push(part.name)
+    }
+    assert.deepEqual(names, ["targetDir", "file"])
+  })
+
+  it("decodes percent-encoded quotes in names", async () => {
+    const quoted = form({
+      headers: 'Content-Disposition: form-data; name="file"; filename="say %22hi%22.txt"',
+      content: "x",
+    })
+    for await (const part of parseMultipart(body(quoted), BOUNDARY)) {
+      assert.equal(part.filename, 'say "hi".txt')
+    }
+  })
+
+  it("rejects a body that ends before the closing boundary", async () => {
+    const truncated = text.slice(0, text.indexOf("line one") + 4)
+    await assert.rejects(async () => {
+      for await (const part of parseMultipart(body(truncated), BOUNDARY)) await read(part)
+    }, MultipartError)
+  })
+
+  it("rejects a part without a name", async () => {
+    const unnamed = form({ headers: "Content-Disposition: form-data", content: "x" })
+    await assert.rejects(async () => {
+      for await (const part of parseMultipart(body(unnamed), BOUNDARY)) await read(part)
+    }, MultipartError)
+  })
+})
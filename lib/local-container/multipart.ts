@@ -0,0 +1,159 @@
+// One part of a multipart/form-data body. content must be read (or abandoned) before the next
+// part is requested; whatever is left unread is skipped.
+export interface MultipartPart {
+  name: string
+  // Set for file fields
+  filename?: string
+  contentType?: string
+  content: AsyncGenerator<Buffer>
+}
+
+export class MultipartError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "MultipartError"
+  }
+}
+
+// Part headers are tiny; anything bigger is not a well-formed upload
+const MAX_HEADER_BYTES = 16 * 1024
+
+// The boundary parameter of a multipart/form-data Content-Type, or null
+export function getBoundary(contentType: string | null): string | null {
+  if (!contentType || !/^multipart\/form-data/i.test(contentType)) return null
+  const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType)
+  return match ? match[1] || match[2] : null
+}
+
+// Parse a multipart/form-data body as it arrives. Part contents are streamed in chunks, so a
+// large file never has to fit in memory.
+export async function* parseMultipart(
+  body: AsyncIterable<Uint8Array>,
+  boundary: string,
+): AsyncGenerator<MultipartPart> {
+  const reader = new ChunkReader(body)
+  const delimiter = Buffer.from(`\r\n--${boundary}`)
+
+  // The first boundary has no leading CRLF; prefixing one lets it match like the rest
+  reader.unshift(Buffer.from("\r\n"))
+  // Preamble before the first boundary is ignored
+  await reader.skipUntil(delimiter)
+
+  while (true) {
+    const ending = await reader.read(2)
+    if (ending.equals(Buffer.from("--"))) return
+    if (!ending.equals(Buffer.from("\r\n"))) throw new MultipartError("Malformed boundary")
+
+    const headers = parseHeaders(await reader.readHeaders())
+    const disposition = parseDisposition(headers["content-disposition"] || "")
+    if (!disposition.name) throw new MultipartError("Part without a name")
+
+    let finished = false
+    const content = (async function* () {
+      yield* reader.readUntil(delimiter)
+      finished = true
+    })()
+
+    yield {
+      name: disposition.name,
+      filename: disposition.filename,
+      contentType: headers["content-type"],
+      content,
+    }
+
+    // Skip whatever the consumer left unread, including after it stopped early
+    if (!finished) await reader.skipUntil(delimiter)
+  }
+}
+
+class ChunkReader {
+  private iterator: AsyncIterator<Uint8Array>
+  private buffer: Buffer = Buffer.alloc(0)
+
+  constructor(body: AsyncIterable<Uint8Array>) {
+    this.iterator = body[Symbol.asyncIterator]()
+  }
+
+  unshift(chunk: Buffer): void {
+    this.buffer = Buffer.concat([chunk, this.buffer])
+  }
+
+  async read(length: number): Promise<Buffer> {
+    while (this.buffer.length < length) {
+      await this.fill()
+    }
+    const chunk = this.buffer.subarray(0, length)
+    this.buffer = this.buffer.subarray(length)
+    return chunk
+  }
+
+  async readHeaders(): Promise<string> {
+    const end = Buffer.from("\r\n\r\n")
+    let index = this.buffer.indexOf(end)
+    while (index === -1) {
+      if (this.buffer.length > MAX_HEADER_BYTES) throw new MultipartError("Part headers too large")
+      await this.fill()
+      index = this.buffer.indexOf(end)
+    }
+    const headers = this.buffer.subarray(0, index).toString("utf-8")
+    this.buffer = this.buffer.subarray(index + end.length)
+    return headers
+  }
+
+  // Everything up to the delimiter, which is consumed but not returned. A tail that could be
+  // the start of the delimiter is held back until the next chunk settles it.
+  async *readUntil(delimiter: Buffer): AsyncGenerator<Buffer> {
+    while (true) {
+      const index = this.buffer.indexOf(delimiter)
+      if (index !== -1) {
+        const chunk = this.buffer.subarray(0, index)
+        this.buffer = this.buffer.subarray(index + delimiter.length)
+        if (chunk.length > 0) yield chunk
+        return
+      }
+
+      const safe = this.buffer.length - delimiter.length + 1
+      if (safe > 0) {
+        const chunk = this.buffer.subarray(0, safe)
+        this.buffer = this.buffer.subarray(safe)
+        yield chunk
+      }
+      await this.fill()
+    }
+  }
+
+  async skipUntil(delimiter: Buffer): Promise<void> {
+    const chunks = this.readUntil(delimiter)
+    let result = await chunks.next()
+    while (!result.done) result = await chunks.next()
+  }
+
+  private async fill(): Promise<void> {
+    const { value, done } = await this.iterator.next()
+    if (done) throw new MultipartError("Unexpected end of multipart body")
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, value]) : Buffer.from(value)
+  }
+}
+
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  text.split("\r\n").forEach((line) => {
+    const colon = line.indexOf(":")
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim()
+    }
+  })
+  return headers
+}
+
+// Browsers percent-encode quotes and line breaks in names rather than backslash-escaping them
+function parseDisposition(value: string): { name?: string; filename?: string } {
+  const result: { name?: string; filename?: string } = {}
+  const pattern = /;\s*(name|filename)="([^"]*)"/gi
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(value))) {
+    const decoded = match[2].replace(/%22/g, '"').replace(/%0D/gi, "\r").replace(/%0A/gi, "\n")
+    result[match[1].toLowerCase() as "name" | "filename"] = decoded
+  }
+  return result
+}
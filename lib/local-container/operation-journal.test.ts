@@ -0,0 +1,129 @@
+import { describe, it, before, after } from "node:test"
+import assert from "node:assert/strict"
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { OperationJournal, type JournalOperation } from "./operation-journal"
+import { NodeFileSystem } from "./file-system"
+import { FileManager } from "./file-manager"
+
+const move = (from: string, to: string): JournalOperation => ({ type: "move", from, to })
+
+describe("OperationJournal", () => {
+  it("records nothing for an empty batch", () => {
+    const journal = new OperationJournal()
+    assert.equal(journal.record({ label: "Nothing", operations: [] }), false)
+    assert.equal(journal.getState().canUndo, false)
+  })
+
+  it("undoes a batch last operation first and redoes it in order", async () => {
+    const journal = new OperationJournal()
+    journal.record({ label: "Move two", operations: [move("a", "b"), move("c", "d")] })
+    assert.deepEqual(journal.getState(), { canUndo: true, canRedo: false, undoLabel: "Move two", redoLabel: null })
+
+    const applied: string[] = []
+    const apply = async (operation: JournalOperation, direction: "undo" | "redo") => {
+      if (operation.type === "move") applied.push(`${direction} ${operation.from}`)
+    }
+
+    assert.equal((await journal.undo(apply))?.label, "Move two")
+    assert.deepEqual(journal.getState(), { canUndo: false, canRedo: true, undoLabel: null, redoLabel: "Move two" })
+    await journal.redo(apply)
+    assert.deepEqual(applied, ["undo c", "undo a", "redo a", "redo c"])
+  })
+
+  it("drops the redo stack when something new is recorded", async () => {
+    const journal = new OperationJournal()
+    journal.record({ label: "First", operations: [move("a", "b")] })
+    await journal.undo(async () => {})
+    journal.record({ label: "Second", operations: [move("c", "d")] })
+    assert.equal(journal.getState().canRedo, false)
+    assert.equal(await journal.redo(async () => {}), null)
+  })
+
+  it("splits a step that fails part way through undo", async () => {
+    const journal = new OperationJournal()
+    journal.record({ label: "Move three", operations: [move("a", "b"), move("c", "d"), move("e", "f")] })
+
+    await assert.rejects(
+      journal.undo(async (operation) => {
+        if (operation.type === "move" && operation.from === "c") throw new Error("conflict")
+      }),
+      /conflict/,
+    )
+
+    // The undone move can be redone; the failed one and the one before it stay undoable
+    const redone: string[] = []
+    await journal.redo(async (operation) => {
+      if (operation.type === "move") redone.push(operation.from)
+    })
+    assert.deepEqual(redone, ["e"])
+
+    const undone: string[] = []
+    await journal.undo(async (operation) => {
+      if (operation.type === "move") undone.push(operation.from)
+    })
+    assert.deepEqual(undone, ["e"])
+    await journal.undo(async (operation) => {
+      if (operation.type === "move") undone.push(operation.from)
+    })
+    assert.deepEqual(undone, ["e", "c", "a"])
+  })
+})
+
+describe("FileManager undo", () => {
+  let workspace: string
+  let fileManager: FileManager
+
+  before(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "journal-"))
+    fileManager = new FileManager(new NodeFileSystem(workspace), workspace)
+  })
+
+  after(async () => {
+    fileManager.dispose()
+    await fs.rm(workspace, { recursive: true, force: true })
+  })
+
+  const exists = (name: string) =>
+    fs.access(path.join(workspace, name)).then(
+      () => true,
+      () => false,
+    )
+
+  it("undoes and redoes a batch as one step", async () => {
+    await fileManager.batch("Scaffold", async (batch) => {
+      await fileManager.createFile("a.txt", "a", { batch })
+      await fileManager.createDirectory("src/lib", { batch })
+      await fileManager.renameFile("a.txt", "src/a.txt", { batch })
+    })
+    assert.equal(fileManager.getJournalState().undoLabel, "Scaffold")
+
+    await fileManager.undo()
+    assert.deepEqual(await Promise.all([exists("a.txt"), exists("src/a.txt"), exists("src")]), [false, false, false])
+
+    await fileManager.redo()
+    assert.equal(await fs.readFile(path.join(workspace, "src/a.txt"), "utf-8"), "a")
+    assert.equal(await exists("src/lib"), true)
+  })
+
+  it("undoes a delete by restoring from the trash", async () => {
+    await fileManager.writeFile("notes.md", "keep me")
+    await fileManager.deleteFile("notes.md")
+    assert.equal(await exists("notes.md"), false)
+
+    await fileManager.undo()
+    assert.equal(await fs.readFile(path.join(workspace, "notes.md"), "utf-8"), "keep me")
+  })
+
+  it("restores an overwritten destination when a move is undone", async () => {
+    await fileManager.writeFile("old.txt", "old")
+    await fileManager.writeFile("new.txt", "new")
+    await fileManager.moveFile("new.txt", "old.txt", { overwrite: "overwrite" })
+    assert.equal(await fs.readFile(path.join(workspace, "old.txt"), "utf-8"), "new")
+
+    await fileManager.undo()
+    assert.equal(await fs.readFile(path.join(workspace, "old.txt"), "utf-8"), "old")
+    assert.equal(await fs.readFile(path.join(workspace, "new.txt"), "utf-8"), "new")
+  })
+})
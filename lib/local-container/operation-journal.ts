@@ -0,0 +1,132 @@
+// A file operation as it was done, with what undo and redo need:
+// - "create": path was created; undo moves it to the trash (trashId) and redo restores it
+// - "move": an entry was renamed or moved; undo and redo move it between from and to
+// - "delete": path was moved to the trash as trashId; undo restores it and redo trashes it again
+export type JournalOperation =
+  | { type: "create"; path: string; trashId?: string }
+  | { type: "move"; from: string; to: string }
+  | { type: "delete"; path: string; trashId: string }
+
+// Operations collected by one caller for a single undo step, recorded together when it ends.
+// Each caller has its own, so operations running side by side never land in each other's step.
+export interface JournalBatch {
+  label: string
+  operations: JournalOperation[]
+}
+
+// One undo step: a single operation or a batch
+export interface JournalEntry {
+  id: string
+  label: string
+  operations: JournalOperation[]
+  timestamp: number
+}
+
+export interface JournalState {
+  canUndo: boolean
+  canRedo: boolean
+  undoLabel: string | null
+  redoLabel: string | null
+}
+
+// Runs one operation backwards (undo) or forwards again (redo), without recording it
+export type ApplyOperation = (operation: JournalOperation, direction: "undo" | "redo") => Promise<void>
+
+const MAX_JOURNAL_ENTRIES = 100
+
+// Undo and redo stacks of file operations. Each recorded batch undoes as one step.
+export class OperationJournal {
+  private undoStack: JournalEntry[] = []
+  private redoStack: JournalEntry[] = []
+  // Serializes undo and redo
+  private task: Promise<unknown> = Promise.resolve()
+
+  // False for an empty batch, which records nothing
+  record(batch: JournalBatch): boolean {
+    if (batch.operations.length === 0) return false
+    this.push(createEntry(batch.label, batch.operations.slice()))
+    return true
+  }
+
+  // Undo the latest step, last operation first. If an operation fails, the ones already undone
+  // become a redo step and the rest stay on the undo stack.
+  undo(apply: ApplyOperation): Promise<JournalEntry | null> {
+    return this.run(() => this.replay(this.undoStack, this.redoStack, apply, "undo"))
+  }
+
+  // Redo the latest undone step, in its original order
+  redo(apply: ApplyOperation): Promise<JournalEntry | null> {
+    return this.run(() => this.replay(this.redoStack, this.undoStack, apply, "redo"))
+  }
+
+  getState(): JournalState {
+    const undo = this.undoStack[this.undoStack.length - 1]
+    const redo = this.redoStack[this.redoStack.length - 1]
+    return {
+      canUndo: !!undo,
+      canRedo: !!redo,
+      undoLabel: undo?.label || null,
+      redoLabel: redo?.label || null,
+    }
+  }
+
+  clear(): void {
+    this.undoStack = []
+    this.redoStack = []
+  }
+
+  private push(entry: JournalEntry): void {
+    this.undoStack.push(entry)
+    if (this.undoStack.length > MAX_JOURNAL_ENTRIES) this.undoStack.shift()
+    // A new operation forks history, so what was undone can no longer be redone
+    this.redoStack = []
+  }
+
+  private async replay(
+    from: JournalEntry[],
+    to: JournalEntry[],
+    apply: ApplyOperation,
+    direction: "undo" | "redo",
+  ): Promise<JournalEntry | null> {
+    const entry = from.pop()
+    if (!entry) return null
+
+    // Undo walks the entry backwards and redo forwards; either way the entry keeps its original order
+    const pending = direction === "undo" ? entry.operations.slice().reverse() : entry.operations.slice()
+    const done: JournalOperation[] = []
+
+    try {
+      for (const operation of pending) {
+        await apply(operation, direction)
+        done.push(operation)
+      }
+    } catch (error) {
+      const remaining = pending.slice(done.length)
+      if (remaining.length > 0) {
+        from.push({ ...entry, operations: direction === "undo" ? remaining.reverse() : remaining })
+      }
+      if (done.length > 0) {
+        to.push({ ...entry, operations: direction === "undo" ? done.reverse() : done })
+      }
+      throw error
+    }
+
+    to.push(entry)
+    return entry
+  }
+
+  private run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.task.then(task)
+    this.task = result.catch(() => undefined)
+    return result
+  }
+}
+
+function createEntry(label: string, operations: JournalOperation[]): JournalEntry {
+  return {
+    id: `journal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    label,
+    operations,
+    timestamp: Date.now(),
+  }
+}
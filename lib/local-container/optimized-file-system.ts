@@ -1,31 +1,112 @@
-import { NodeFileSystem } from "./file-system"
-import { CacheManager } from "./cache-manager"
+import path from "path"
+import { NodeFileSystem, WriteConflictError, type NodeFileSystemOptions } from "./file-system"
+import { CacheManager, type CacheStats } from "./cache-manager"
+import type { FileWatcher, FileChangeEvent } from "./file-watcher"
 import type { PerformanceMonitor } from "./performance-monitor"
 import { logger } from "./logger"
-import type { FileStats } from "./types"
+import type { FileStats, WritePreconditions, WriteStreamOptions, CopyOptions } from "./types"
+
+export interface OptimizedFileSystemOptions extends NodeFileSystemOptions {
+  // Total bytes of file content kept in memory
+  maxCacheBytes?: number
+  // Files larger than this bypass the content cache
+  maxCacheEntryBytes?: number
+}
 
 export class OptimizedFileSystem extends NodeFileSystem {
   private cache: CacheManager<string>
   private statsCache: CacheManager<FileStats>
+  private dirCache: CacheManager<string[]>
+  private existsCache: CacheManager<boolean>
   private performanceMonitor: PerformanceMonitor
+  private root: string
+  private watcher: FileWatcher | null = null
+  private handleWatcherChange = (event: FileChangeEvent) => this.invalidate(event.path, event.type)
 
-  constructor(basePath: string, performanceMonitor: PerformanceMonitor) {
-    super(basePath)
-    this.cache = new CacheManager<string>(500, 60000) // 1 minute TTL for file contents
-    this.statsCache = new CacheManager<FileStats>(1000, 30000) // 30 seconds TTL for stats
+  constructor(basePath: string, performanceMonitor: PerformanceMonitor, options: OptimizedFileSystemOptions = {}) {
+    super(basePath, options)
+    this.root = path.resolve(basePath)
+    // 1 minute TTL for file contents, within a 64MB budget; large files (generated bundles,
+    // lockfiles) are read straight from disk
+    this.cache = new CacheManager<string>(2000, 60000, {
+      maxBytes: options.maxCacheBytes ?? 64 * 1024 * 1024,
+      maxEntryBytes: options.maxCacheEntryBytes ?? 2 * 1024 * 1024,
+    })
+    this.statsCache = new CacheManager<FileStats>(5000, 30000) // 30 seconds TTL for stats
+    this.dirCache = new CacheManager<string[]>(1000, 30000, { maxBytes: 8 * 1024 * 1024 }) // 30 seconds TTL for listings
+    this.existsCache = new CacheManager<boolean>(5000, 30000)
     this.performanceMonitor = performanceMonitor
 
+    // Report real content-cache numbers in system metrics
+    performanceMonitor.setCacheStatsProvider(() => {
+      const stats = this.cache.getStats()
+      return { hitRate: stats.hitRate, size: stats.size, bytes: stats.bytes }
+    })
+
     // Log cache events
     this.cache.on("hit", (key) => logger.debug("File cache hit", { key }))
     this.cache.on("miss", (key) => logger.debug("File cache miss", { key }))
   }
 
+  // Invalidate entries whenever the watcher reports a change, so edits made outside this
+  // class (terminal, git, codegen) are seen immediately rather than after the TTL. Attach
+  // before other listeners on the same watcher so they read fresh data.
+  watch(watcher: FileWatcher): void {
+    this.unwatch()
+    this.watcher = watcher
+    watcher.on("change", this.handleWatcherChange)
+  }
+
+  unwatch(): void {
+    this.watcher?.off("change", this.handleWatcherChange)
+    this.watcher = null
+  }
+
+  // Evict cached data for a path that changed on disk, including its parent directory's
+  // listing and stats. Directory events also evict everything below the directory.
+  invalidate(filePath: string, type: FileChangeEvent["type"] = "change"): void {
+    const key = this.cacheKey(filePath)
+    const parent = path.posix.dirname(key)
+
+    this.cache.delete(key)
+    this.statsCache.delete(key)
+    this.existsCache.delete(key)
+    this.dirCache.delete(key)
+
+    if (type !== "change") {
+      // Entries were added or removed, so the parent's listing and mtime changed
+      this.dirCache.delete(parent)
+      this.statsCache.delete(parent)
+    }
+
+    if (type === "unlinkDir" || type === "addDir") {
+      const prefix = key === "." ? "" : `${key}/`
+      const isBelow = (entry: string) => entry.startsWith(prefix)
+      this.cache.deleteWhere(isBelow)
+      this.statsCache.deleteWhere(isBelow)
+      this.existsCache.deleteWhere(isBelow)
+      this.dirCache.deleteWhere(isBelow)
+    }
+  }
+
+  // Callers use "./a.txt", "a.txt" and absolute paths interchangeably; the watcher reports
+  // paths relative to the root
+  private cacheKey(filePath: string): string {
+    return path.relative(this.root, path.resolve(this.root, filePath)).split(path.sep).join("/") || "."
+  }
+
+  // Paths the watcher ignores get no change events, so their entries could go stale
+  private isCacheable(key: string): boolean {
+    return !this.watcher || !this.watcher.isIgnored(key)
+  }
+
   async readFile(filePath: string): Promise<string> {
     const startTime = Date.now()
+    const key = this.cacheKey(filePath)
 
     try {
       // Check cache first
-      const cached = this.cache.get(filePath)
+      const cached = this.cache.get(key)
       if (cached !== undefined) {
         this.performanceMonitor.recordFileOperation("read_cached", Date.now() - startTime)
         return cached
@@ -35,7 +116,9 @@ export class OptimizedFileSystem extends NodeFileSystem {
       const content = await super.readFile(filePath)
 
       // Cache the content
-      this.cache.set(filePath, content)
+      if (this.isCacheable(key)) {
+        this.cache.set(key, content)
+      }
 
       this.performanceMonitor.recordFileOperation("read", Date.now() - startTime)
       logger.debug("File read", { path: filePath, size: content.length })
@@ -48,33 +131,130 @@ export class OptimizedFileSystem extends NodeFileSystem {
     }
   }
 
-  async writeFile(filePath: string, content: string): Promise<void> {
+  async writeFile(filePath: string, content: string, preconditions?: WritePreconditions): Promise<void> {
     const startTime = Date.now()
 
     try {
-      await super.writeFile(filePath, content)
-
-      // Update cache
-      this.cache.set(filePath, content)
+      await super.writeFile(filePath, content, preconditions)
 
-      // Invalidate stats cache
-      this.statsCache.delete(filePath)
+      // Invalidate stats and listings, then cache the content just written
+      const key = this.cacheKey(filePath)
+      this.invalidate(key, "add")
+      if (this.isCacheable(key)) {
+        this.cache.set(key, content)
+      }
 
       this.performanceMonitor.recordFileOperation("write", Date.now() - startTime)
       logger.debug("File written", { path: filePath, size: content.length })
     } catch (error) {
+      if (error instanceof WriteConflictError) {
+        this.performanceMonitor.recordFileOperation("write_conflict", Date.now() - startTime)
+        logger.warn("Write rejected, file changed on disk", { path: filePath })
+        throw error
+      }
+
+      this.performanceMonitor.recordFileOperation("write_error", Date.now() - startTime)
+      logger.error("Failed to write file", error as Error, { path: filePath })
+      throw error
+    }
+  }
+
+  async readFileBuffer(filePath: string): Promise<Buffer> {
+    const startTime = Date.now()
+
+    try {
+      // Raw bytes bypass the content cache, which only holds utf-8 text
+      const content = await super.readFileBuffer(filePath)
+
+      this.performanceMonitor.recordFileOperation("read_buffer", Date.now() - startTime)
+      logger.debug("File read (binary)", { path: filePath, size: content.length })
+
+      return content
+    } catch (error) {
+      this.performanceMonitor.recordFileOperation("read_error", Date.now() - startTime)
+      logger.error("Failed to read file", error as Error, { path: filePath })
+      throw error
+    }
+  }
+
+  async writeFileBuffer(
+    filePath: string,
+    content: Buffer | Uint8Array,
+    preconditions?: WritePreconditions,
+  ): Promise<void> {
+    const startTime = Date.now()
+
+    try {
+      await super.writeFileBuffer(filePath, content, preconditions)
+
+      // Invalidate caches; the decoded text is re-read on next access
+      this.invalidate(filePath, "add")
+
+      this.performanceMonitor.recordFileOperation("write_buffer", Date.now() - startTime)
+      logger.debug("File written (binary)", { path: filePath, size: content.length })
+    } catch (error) {
+      if (error instanceof WriteConflictError) {
+        this.performanceMonitor.recordFileOperation("write_conflict", Date.now() - startTime)
+        logger.warn("Write rejected, file changed on disk", { path: filePath })
+        throw error
+      }
+
       this.performanceMonitor.recordFileOperation("write_error", Date.now() - startTime)
       logger.error("Failed to write file", error as Error, { path: filePath })
       throw error
     }
   }
 
+  async writeFileStream(
+    filePath: string,
+    content: AsyncIterable<Uint8Array>,
+    options: WriteStreamOptions = {},
+  ): Promise<void> {
+    const startTime = Date.now()
+
+    try {
+      await super.writeFileStream(filePath, content, options)
+
+      this.invalidate(filePath, "add")
+
+      this.performanceMonitor.recordFileOperation("write_stream", Date.now() - startTime)
+      logger.debug("File written (stream)", { path: filePath })
+    } catch (error) {
+      if (options.exclusive && (error as NodeJS.ErrnoException).code === "EEXIST") {
+        this.performanceMonitor.recordFileOperation("write_conflict", Date.now() - startTime)
+        logger.debug("Exclusive write skipped, file exists", { path: filePath })
+        throw error
+      }
+      this.performanceMonitor.recordFileOperation("write_error", Date.now() - startTime)
+      logger.error("Failed to write file", error as Error, { path: filePath })
+      throw error
+    }
+  }
+
+  async appendFile(filePath: string, content: string): Promise<void> {
+    const startTime = Date.now()
+
+    try {
+      await super.appendFile(filePath, content)
+
+      // The file may have been created
+      this.invalidate(filePath, "add")
+
+      this.performanceMonitor.recordFileOperation("append", Date.now() - startTime)
+    } catch (error) {
+      this.performanceMonitor.recordFileOperation("write_error", Date.now() - startTime)
+      logger.error("Failed to append to file", error as Error, { path: filePath })
+      throw error
+    }
+  }
+
   async stat(filePath: string): Promise<FileStats> {
     const startTime = Date.now()
+    const key = this.cacheKey(filePath)
 
     try {
       // Check cache first
-      const cached = this.statsCache.get(filePath)
+      const cached = this.statsCache.get(key)
       if (cached !== undefined) {
         this.performanceMonitor.recordFileOperation("stat_cached", Date.now() - startTime)
         return cached
@@ -84,7 +264,9 @@ export class OptimizedFileSystem extends NodeFileSystem {
       const stats = await super.stat(filePath)
 
       // Cache the stats
-      this.statsCache.set(filePath, stats)
+      if (this.isCacheable(key)) {
+        this.statsCache.set(key, stats)
+      }
 
       this.performanceMonitor.recordFileOperation("stat", Date.now() - startTime)
       return stats
@@ -101,9 +283,8 @@ export class OptimizedFileSystem extends NodeFileSystem {
     try {
       await super.remove(filePath)
 
-      // Invalidate caches
-      this.cache.delete(filePath)
-      this.statsCache.delete(filePath)
+      // Invalidate the entry, anything below it and the parent listing
+      this.invalidate(filePath, "unlinkDir")
 
       this.performanceMonitor.recordFileOperation("remove", Date.now() - startTime)
       logger.debug("File removed", { path: filePath })
@@ -114,24 +295,165 @@ export class OptimizedFileSystem extends NodeFileSystem {
     }
   }
 
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    const startTime = Date.now()
+
+    try {
+      await super.rename(oldPath, newPath)
+
+      // Everything cached under the old path is gone, and the new path may replace stale entries
+      this.invalidate(oldPath, "unlinkDir")
+      this.invalidate(newPath, "addDir")
+
+      this.performanceMonitor.recordFileOperation("rename", Date.now() - startTime)
+      logger.debug("File renamed", { oldPath, newPath })
+    } catch (error) {
+      this.performanceMonitor.recordFileOperation("rename_error", Date.now() - startTime)
+      logger.error("Failed to rename file", error as Error, { oldPath, newPath })
+      throw error
+    }
+  }
+
+  async copy(srcPath: string, destPath: string, options?: CopyOptions): Promise<void> {
+    const startTime = Date.now()
+
+    try {
+      await super.copy(srcPath, destPath, options)
+
+      // The source is untouched; the destination and anything below it are new or overwritten
+      this.invalidate(destPath, "addDir")
+
+      this.performanceMonitor.recordFileOperation("copy", Date.now() - startTime)
+      logger.debug("File copied", { srcPath, destPath })
+    } catch (error) {
+      // A failed recursive copy may have written part of the destination
+      this.invalidate(destPath, "addDir")
+      this.performanceMonitor.recordFileOperation("copy_error", Date.now() - startTime)
+      logger.error("Failed to copy file", error as Error, { srcPath, destPath })
+      throw error
+    }
+  }
+
+  async move(srcPath: string, destPath: string, options?: CopyOptions): Promise<void> {
+    const startTime = Date.now()
+
+    try {
+      await super.move(srcPath, destPath, options)
+
+      this.invalidate(srcPath, "unlinkDir")
+      this.invalidate(destPath, "addDir")
+
+      this.performanceMonitor.recordFileOperation("move", Date.now() - startTime)
+      logger.debug("File moved", { srcPath, destPath })
+    } catch (error) {
+      // The copy-and-remove fallback may have got part way
+      this.invalidate(srcPath, "unlinkDir")
+      this.invalidate(destPath, "addDir")
+      this.performanceMonitor.recordFileOperation("move_error", Date.now() - startTime)
+      logger.error("Failed to move file", error as Error, { srcPath, destPath })
+      throw error
+    }
+  }
+
+  async readdir(dirPath: string): Promise<string[]> {
+    const startTime = Date.now()
+    const key = this.cacheKey(dirPath)
+
+    try {
+      const cached = this.dirCache.get(key)
+      if (cached !== undefined) {
+        this.performanceMonitor.recordFileOperation("readdir_cached", Date.now() - startTime)
+        return [...cached]
+      }
+
+      const entries = await super.readdir(dirPath)
+      if (this.isCacheable(key)) {
+        this.dirCache.set(key, [...entries])
+      }
+
+      this.performanceMonitor.recordFileOperation("readdir", Date.now() - startTime)
+      return entries
+    } catch (error) {
+      this.performanceMonitor.recordFileOperation("readdir_error", Date.now() - startTime)
+      logger.error("Failed to read directory", error as Error, { path: dirPath })
+      throw error
+    }
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    const startTime = Date.now()
+    const key = this.cacheKey(filePath)
+
+    const cached = this.existsCache.get(key)
+    if (cached !== undefined) {
+      this.performanceMonitor.recordFileOperation("exists_cached", Date.now() - startTime)
+      return cached
+    }
+
+    const exists = await super.exists(filePath)
+    if (this.isCacheable(key)) {
+      this.existsCache.set(key, exists)
+    }
+
+    this.performanceMonitor.recordFileOperation("exists", Date.now() - startTime)
+    return exists
+  }
+
+  async mkdir(dirPath: string, options?: { recursive?: boolean }): Promise<void> {
+    const startTime = Date.now()
+    const key = this.cacheKey(dirPath)
+
+    try {
+      // A recursive mkdir of a directory known to exist is a no-op
+      if (options?.recursive && this.statsCache.get(key)?.isDirectory()) {
+        this.performanceMonitor.recordFileOperation("mkdir_cached", Date.now() - startTime)
+        return
+      }
+
+      await super.mkdir(dirPath, options)
+
+      // Recursive mkdir may have created any missing ancestor too
+      for (let current = key; current !== "."; current = path.posix.dirname(current)) {
+        this.invalidate(current, "add")
+        if (!options?.recursive) break
+      }
+
+      this.performanceMonitor.recordFileOperation("mkdir", Date.now() - startTime)
+    } catch (error) {
+      this.performanceMonitor.recordFileOperation("mkdir_error", Date.now() - startTime)
+      logger.error("Failed to create directory", error as Error, { path: dirPath })
+      throw error
+    }
+  }
+
   getCacheStats(): {
-    fileCache: any
-    statsCache: any
+    fileCache: CacheStats
+    statsCache: CacheStats
+    dirCache: CacheStats
+    existsCache: CacheStats
   } {
     return {
       fileCache: this.cache.getStats(),
       statsCache: this.statsCache.getStats(),
+      dirCache: this.dirCache.getStats(),
+      existsCache: this.existsCache.getStats(),
     }
   }
 
   clearCache(): void {
     this.cache.clear()
     this.statsCache.clear()
+    this.dirCache.clear()
+    this.existsCache.clear()
     logger.info("File system cache cleared")
   }
 
   dispose(): void {
+    this.unwatch()
+    this.performanceMonitor.setCacheStatsProvider(null)
     this.cache.dispose()
     this.statsCache.dispose()
+    this.dirCache.dispose()
+    this.existsCache.dispose()
   }
 }
@@ -0,0 +1,149 @@
+import { describe, it, before, after } from "node:test"
+import assert from "node:assert/strict"
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { isWithin, realpathAllowMissing, sanitizeArchivePath, PathSecurityError } from "./path-security"
+import { NodeFileSystem } from "./file-system"
+
+describe("isWithin", () => {
+  it("accepts the root itself and paths below it", () => {
+    assert.equal(isWithin("/ws", "/ws"), true)
+    assert.equal(isWithin("/ws", "/ws/src/index.ts"), true)
+  })
+
+  it("rejects siblings that share a prefix", () => {
+    assert.equal(isWithin("/ws", "/ws-evil"), false)
+    assert.equal(isWithin("/ws", "/ws-evil/file.txt"), false)
+  })
+
+  it("rejects parents and paths that climb out", () => {
+    assert.equal(isWithin("/ws", "/"), false)
+    assert.equal(isWithin("/ws", "/ws/../etc/passwd"), false)
+  })
+
+  it("accepts names that only start with dots", () => {
+    assert.equal(isWithin("/ws", "/ws/..config"), true)
+  })
+})
+
+describe("sanitizeArchivePath", () => {
+  it("normalizes separators and drops empty and . segments", () => {
+    assert.equal(sanitizeArchivePath("src\\lib//./index.ts"), "src/lib/index.ts")
+  })
+
+  it("rejects .. segments", () => {
+    assert.throws(() => sanitizeArchivePath("../evil.txt"), PathSecurityError)
+    assert.throws(() => sanitizeArchivePath("src/../../evil.txt"), PathSecurityError)
+    assert.throws(() => sanitizeArchivePath("src\\..\\..\\evil.txt"), PathSecurityError)
+  })
+
+  it("rejects absolute paths and drive letters", () => {
+    assert.throws(() => sanitizeArchivePath("/etc/passwd"), PathSecurityError)
+    assert.throws(() => sanitizeArchivePath("\\\\server\\share\\file"), PathSecurityError)
+    assert.throws(() => sanitizeArchivePath("C:\\Windows\\win.ini"), PathSecurityError)
+    assert.throws(() => sanitizeArchivePath("c:relative.txt"), PathSecurityError)
+  })
+
+  it("rejects NUL bytes and empty names", () => {
+    assert.throws(() => sanitizeArchivePath("file.txt\0.png"), PathSecurityError)
+    assert.throws(() => sanitizeArchivePath("./"), PathSecurityError)
+  })
+})
+
+describe("realpathAllowMissing and NodeFileSystem", () => {
+  // Real paths, since the temp directory may itself be behind a symlink (e.g. /tmp on macOS)
+  let scratch: string
+  let workspace: string
+  let outside: string
+  let mount: string
+
+  before(async () => {
+    scratch = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "path-security-")))
+    workspace = path.join(scratch, "ws")
+    outside = path.join(scratch, "ws-evil")
+    mount = path.join(scratch, "mount")
+    await fs.mkdir(path.join(workspace, "src"), { recursive: true })
+    await fs.mkdir(outside)
+    await fs.mkdir(mount)
+    await fs.writeFile(path.join(outside, "secret.txt"), "secret")
+    await fs.writeFile(path.join(mount, "shared.txt"), "shared")
+
+    await fs.symlink(outside, path.join(workspace, "escape"))
+    await fs.symlink(mount, path.join(workspace, "mounted"))
+    await fs.symlink("src", path.join(workspace, "alias"))
+    await fs.symlink(path.join(outside, "planted.txt"), path.join(workspace, "dangling"))
+  })
+
+  after(async () => {
+    await fs.rm(scratch, { recursive: true, force: true })
+  })
+
+  it("appends nested missing segments to the deepest existing ancestor", async () => {
+    assert.equal(
+      await realpathAllowMissing(path.join(workspace, "src", "a", "b", "c.txt")),
+      path.join(workspace, "src", "a", "b", "c.txt"),
+    )
+  })
+
+  it("follows symlinks above missing segments", async () => {
+    assert.equal(
+      await realpathAllowMissing(path.join(workspace, "alias", "new", "file.txt")),
+      path.join(workspace, "src", "new", "file.txt"),
+    )
+    assert.equal(
+      await realpathAllowMissing(path.join(workspace, "escape", "new", "file.txt")),
+      path.join(outside, "new", "file.txt"),
+    )
+  })
+
+  it("resolves a dangling symlink to where a write would land", async () => {
+    assert.equal(await realpathAllowMissing(path.join(workspace, "dangling")), path.join(outside, "planted.txt"))
+  })
+
+  it("refuses paths that climb out with ..", async () => {
+    const fileSystem = new NodeFileSystem(workspace)
+    await assert.rejects(fileSystem.readFile("../ws-evil/secret.txt"), PathSecurityError)
+    await assert.rejects(fileSystem.writeFile("src/../../escaped.txt", "x"), PathSecurityError)
+    await assert.rejects(fileSystem.stat("/etc/passwd"), PathSecurityError)
+    assert.equal(await fileSystem.exists("../ws-evil/secret.txt"), false)
+  })
+
+  it("refuses symlinks that point outside the workspace", async () => {
+    const fileSystem = new NodeFileSystem(workspace)
+    await assert.rejects(fileSystem.readFile("escape/secret.txt"), PathSecurityError)
+    await assert.rejects(fileSystem.writeFile("escape/new.txt", "x"), PathSecurityError)
+    await assert.rejects(fileSystem.readdir("escape"), PathSecurityError)
+  })
+
+  it("follows symlinks that stay inside the workspace", async () => {
+    const fileSystem = new NodeFileSystem(workspace)
+    await fileSystem.writeFile("alias/linked.txt", "inside")
+    assert.equal(await fs.readFile(path.join(workspace, "src", "linked.txt"), "utf-8"), "inside")
+  })
+
+  it("refuses writes through a dangling symlink that points outside", async () => {
+    const fileSystem = new NodeFileSystem(workspace)
+    await assert.rejects(fileSystem.writeFile("dangling", "x"), PathSecurityError)
+    await assert.rejects(fs.access(path.join(outside, "planted.txt")))
+  })
+
+  it("removes an escaping symlink itself without touching its target", async () => {
+    await fs.symlink(outside, path.join(workspace, "doomed"))
+    await new NodeFileSystem(workspace).remove("doomed")
+    assert.equal(await fs.readFile(path.join(outside, "secret.txt"), "utf-8"), "secret")
+  })
+
+  it("allows symlinks into a mount root only under the mounts policy", async () => {
+    const mounts = new NodeFileSystem(workspace, { mountRoots: () => [mount] })
+    assert.equal(await mounts.readFile("mounted/shared.txt"), "shared")
+    // Being a mount root does not open up its siblings
+    await assert.rejects(mounts.readFile("escape/secret.txt"), PathSecurityError)
+
+    const contained = new NodeFileSystem(workspace, { symlinkPolicy: "contain", mountRoots: () => [mount] })
+    await assert.rejects(contained.readFile("mounted/shared.txt"), PathSecurityError)
+
+    const unmounted = new NodeFileSystem(workspace)
+    await assert.rejects(unmounted.readFile("mounted/shared.txt"), PathSecurityError)
+  })
+})
@@ -0,0 +1,93 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+// Where symlinks inside the workspace may point:
+// - "contain": only inside the workspace
+// - "mounts": inside the workspace or a directory mounted with LocalContainer.mount
+export type SymlinkPolicy = "contain" | "mounts"
+
+export class PathSecurityError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PathSecurityError"
+  }
+}
+
+// Symlink hops followed before giving up, matching the kernel's ELOOP limit
+const MAX_SYMLINK_HOPS = 40
+
+// True when target is root itself or below it. Unlike a startsWith check this does not
+// accept siblings that share a prefix (e.g. /workspace-evil for /workspace), nor reject
+// names that merely start with dots (e.g. /workspace/..config).
+export function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target)
+  return relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)
+}
+
+// Resolve symlinks in a path whose trailing segments may not exist yet (e.g. a file about
+// to be created): the deepest existing ancestor is resolved and the rest appended.
+export async function realpathAllowMissing(target: string, hops = 0): Promise<string> {
+  const missing: string[] = []
+  let current = target
+
+  while (true) {
+    try {
+      return path.join(await fs.realpath(current), ...missing.reverse())
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code
+      if (code !== "ENOENT" && code !== "ENOTDIR") throw error
+    }
+
+    // A dangling symlink still decides where a write would land
+    const link = await readLinkIfSymlink(current)
+    if (link !== null) {
+      if (hops >= MAX_SYMLINK_HOPS) {
+        throw new PathSecurityError(`Too many levels of symbolic links at ${current}`)
+      }
+      const resolved = await realpathAllowMissing(path.resolve(path.dirname(current), link), hops + 1)
+      return path.join(resolved, ...missing.reverse())
+    }
+
+    const parent = path.dirname(current)
+    if (parent === current) {
+      return path.join(current, ...missing.reverse())
+    }
+
+    missing.push(path.basename(current))
+    current = parent
+  }
+}
+
+async function readLinkIfSymlink(filePath: string): Promise<string | null> {
+  try {
+    const stats = await fs.lstat(filePath)
+    return stats.isSymbolicLink() ? await fs.readlink(filePath) : null
+  } catch {
+    return null
+  }
+}
+
+// Validate an archive entry name and return it as a normalized relative path. Absolute
+// names, drive letters and ".." segments are rejected rather than rewritten, since a
+// crafted archive should fail loudly instead of extracting somewhere unexpected.
+export function sanitizeArchivePath(entryName: string): string {
+  if (entryName.includes("\0")) {
+    throw new PathSecurityError(`Archive entry ${JSON.stringify(entryName)} contains a NUL byte`)
+  }
+
+  const normalized = entryName.replace(/\\/g, "/")
+
+  if (normalized.startsWith("/") || /^[a-zA-Z]:/.test(normalized)) {
+    throw new PathSecurityError(`Archive entry ${entryName} is an absolute path`)
+  }
+
+  const segments = normalized.split("/").filter((segment) => segment !== "" && segment !== ".")
+  if (segments.includes("..")) {
+    throw new PathSecurityError(`Archive entry ${entryName} escapes the target directory`)
+  }
+  if (segments.length === 0) {
+    throw new PathSecurityError(`Archive entry ${JSON.stringify(entryName)} has an empty path`)
+  }
+
+  return segments.join("/")
+}
@@ -27,9 +27,12 @@ export interface SystemMetrics {
   cache: {
     hitRate: number
     size: number
+    bytes: number
   }
 }
 
+export type CacheStatsProvider = () => SystemMetrics["cache"]
+
 export class PerformanceMonitor extends EventEmitter {
   private metrics: PerformanceMetric[] = []
   private maxMetrics = 1000
@@ -41,6 +44,7 @@ export class PerformanceMonitor extends EventEmitter {
   private fileOperationTimes: number[] = []
   private terminalCommands = 0
   private activeSessions = 0
+  private cacheStatsProvider: CacheStatsProvider | null = null
 
   constructor() {
     super()
@@ -100,6 +104,11 @@ export class PerformanceMonitor extends EventEmitter {
     this.recordMetric("terminal_command", 1)
   }
 
+  // Source for the cache section of system metrics (normally the OptimizedFileSystem)
+  setCacheStatsProvider(provider: CacheStatsProvider | null): void {
+    this.cacheStatsProvider = provider
+  }
+
   setActiveSessions(count: number): void {
     this.activeSessions = count
     this.recordMetric("active_sessions", count)
@@ -115,6 +124,8 @@ export class PerformanceMonitor extends EventEmitter {
     this.recordMetric("file_operation_avg_time", metrics.fileSystem.averageTime)
     this.recordMetric("terminal_sessions", metrics.terminal.activeSessions)
     this.recordMetric("cache_hit_rate", metrics.cache.hitRate)
+    this.recordMetric("cache_size", metrics.cache.size)
+    this.recordMetric("cache_bytes", metrics.cache.bytes)
 
     this.emit("systemMetrics", metrics)
   }
@@ -143,10 +154,7 @@ export class PerformanceMonitor extends EventEmitter {
         activeSessions: this.activeSessions,
         totalCommands: this.terminalCommands,
       },
-      cache: {
-        hitRate: 0, // Will be updated by cache manager
-        size: 0,
-      },
+      cache: this.cacheStatsProvider?.() ?? { hitRate: 0, size: 0, bytes: 0 },
     }
   }
 
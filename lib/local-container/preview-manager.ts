@@ -1,14 +1,44 @@
 import { EventEmitter } from "events"
+import path from "path"
 import type { LocalContainer } from "./types"
-import { LocalDevServer } from "./dev-server"
+import { LocalDevServer, type DevServerExit, type DevServerOutput } from "./dev-server"
+import { loadEnvFiles } from "./env-loader"
+import { LogBuffer, type LogLine, type LogStream } from "./log-buffer"
+
+export type PreviewStatus = "starting" | "ready" | "crashed" | "stopped" | "error"
+
+export interface PreviewStatusEvent {
+  previewId: string
+  status: PreviewStatus
+  previousStatus: PreviewStatus | null
+  timestamp: Date
+  exitCode?: number
+  message?: string
+}
 
 export interface PreviewInstance {
   id: string
   port: number
+  // Where the browser opens the preview, always under the proxy path. A dev server that can't
+  // serve that base path is redirected from there to its subdomain.
   url: string
-  status: "starting" | "running" | "stopped" | "error"
+  // Host label a preview is proxied on when its dev server serves from the root, e.g.
+  // <subdomain>.localhost:3000 (browsers resolve *.localhost to the loopback address)
+  subdomain: string
+  targetUrl: string
+  status: PreviewStatus
+  // Lifecycle transitions, oldest first (bounded)
+  statusHistory: PreviewStatusEvent[]
+  exitCode?: number
+  error?: string
   projectPath: string
   server: LocalDevServer
+  config: PreviewConfig
+  // Resolved environment the dev server was started with, and the env files it came from
+  env: Record<string, string>
+  envFiles: string[]
+  // Recent dev server output, kept across restarts
+  logs: LogBuffer
   lastActivity: Date
 }
 
@@ -20,51 +50,69 @@ export interface PreviewConfig {
   env?: Record<string, string>
 }
 
+export interface PreviewManagerOptions {
+  // Path under the main app origin that previews are reverse-proxied from
+  proxyBasePath?: string
+  // How long a dev server may take to accept connections before it is marked as failed
+  readyTimeout?: number
+  // Log lines retained per preview
+  maxLogLines?: number
+}
+
+const MAX_STATUS_HISTORY = 50
+
 export class PreviewManager extends EventEmitter {
   private previews: Map<string, PreviewInstance> = new Map()
   private container: LocalContainer
   private portRange = { min: 3000, max: 9000 }
   private usedPorts: Set<number> = new Set()
+  private proxyBasePath: string
+  private readyTimeout: number
+  private maxLogLines: number
 
-  constructor(container: LocalContainer) {
+  constructor(container: LocalContainer, options: PreviewManagerOptions = {}) {
     super()
     this.container = container
+    this.proxyBasePath = (options.proxyBasePath ?? "/preview").replace(/\/$/, "")
+    this.readyTimeout = options.readyTimeout ?? 120000
+    this.maxLogLines = options.maxLogLines ?? 1000
   }
 
   async createPreview(projectPath: string, config: PreviewConfig = {}): Promise<PreviewInstance> {
     const id = this.generatePreviewId()
     const port = config.port || (await this.findAvailablePort())
 
-    const server = new LocalDevServer(this.container, port)
+    const url = this.proxyUrl(id)
+    const { server, env, envFiles } = await this.createServer(projectPath, port, url, config)
 
     const preview: PreviewInstance = {
       id,
       port,
-      url: `http://${config.host || "localhost"}:${port}`,
+      url,
+      subdomain: id.replace(/_/g, "-").toLowerCase(),
+      targetUrl: `http://${config.host || "localhost"}:${port}`,
       status: "starting",
+      statusHistory: [],
       projectPath,
       server,
+      config,
+      env,
+      envFiles,
+      logs: new LogBuffer(this.maxLogLines),
       lastActivity: new Date(),
     }
 
     this.previews.set(id, preview)
     this.usedPorts.add(port)
+    this.setStatus(preview, "starting")
 
     try {
-      // Set environment variables if provided
-      if (config.env) {
-        Object.assign(process.env, config.env)
-      }
-
-      await server.start()
-      preview.status = "running"
-
-      this.emit("previewStarted", preview)
+      await this.startServer(preview)
 
       // Set up activity monitoring
       this.setupActivityMonitoring(preview)
     } catch (error) {
-      preview.status = "error"
+      this.setStatus(preview, "error", { message: (error as Error).message })
       this.emit("previewError", preview, error)
       throw error
     }
@@ -78,7 +126,7 @@ export class PreviewManager extends EventEmitter {
 
     try {
       await preview.server.stop()
-      preview.status = "stopped"
+      this.setStatus(preview, "stopped")
       this.usedPorts.delete(preview.port)
       this.previews.delete(previewId)
 
@@ -96,30 +144,185 @@ export class PreviewManager extends EventEmitter {
 
     try {
       await preview.server.stop()
-      preview.status = "starting"
-      await preview.server.start()
-      preview.status = "running"
+      this.setStatus(preview, "starting")
+
+      // Pick up edits to .env files since the last start
+      Object.assign(
+        preview,
+        await this.createServer(preview.projectPath, preview.port, this.proxyUrl(preview.id), preview.config),
+      )
+      await this.startServer(preview)
       preview.lastActivity = new Date()
 
       this.emit("previewRestarted", preview)
       return true
     } catch (error) {
-      preview.status = "error"
+      this.setStatus(preview, "error", { message: (error as Error).message })
       this.emit("previewError", preview, error)
       return false
     }
   }
 
+  private async startServer(preview: PreviewInstance): Promise<void> {
+    const server = preview.server
+
+    server.on("output", ({ stream, text }: DevServerOutput) => {
+      this.appendLog(preview, stream, text)
+    })
+
+    server.on("exit", ({ code, expected }: DevServerExit) => {
+      // Ignore deliberate stops and servers that have since been replaced by a restart
+      if (expected || preview.server !== server) return
+
+      const status = preview.status === "ready" ? "crashed" : "error"
+      this.setStatus(preview, status, { exitCode: code, message: `Dev server exited with code ${code}` })
+      this.emit("previewError", preview, new Error(`Dev server exited with code ${code}`))
+    })
+
+    await server.start()
+
+    // Readiness is tracked in the background; status events report the outcome
+    server
+      .waitUntilReady(this.readyTimeout)
+      .then(() => {
+        if (preview.server !== server || preview.status !== "starting") return
+        this.setStatus(preview, "ready")
+        this.emit("previewStarted", preview)
+      })
+      .catch((error: Error) => {
+        if (preview.server !== server || preview.status !== "starting") return
+        this.setStatus(preview, "error", { message: error.message })
+        this.emit("previewError", preview, error)
+      })
+  }
+
+  private setStatus(
+    preview: PreviewInstance,
+    status: PreviewStatus,
+    details: { exitCode?: number; message?: string } = {},
+  ): void {
+    const event: PreviewStatusEvent = {
+      previewId: preview.id,
+      status,
+      previousStatus: preview.statusHistory.length > 0 ? preview.status : null,
+      timestamp: new Date(),
+      ...details,
+    }
+
+    preview.status = status
+    preview.exitCode = details.exitCode
+    preview.error = status === "error" || status === "crashed" ? details.message : undefined
+
+    preview.statusHistory.push(event)
+    if (preview.statusHistory.length > MAX_STATUS_HISTORY) {
+      preview.statusHistory.shift()
+    }
+
+    this.appendLog(preview, "system", details.message ? `[${status}] ${details.message}` : `[${status}]`)
+    this.emit("statusChange", preview, event)
+  }
+
+  private appendLog(preview: PreviewInstance, stream: LogStream, text: string): void {
+    const line = preview.logs.push(stream, text)
+    this.emit("previewLog", preview, line)
+  }
+
   getPreview(previewId: string): PreviewInstance | undefined {
     return this.previews.get(previewId)
   }
 
+  getPreviewEnv(previewId: string): { env: Record<string, string>; envFiles: string[] } | undefined {
+    const preview = this.previews.get(previewId)
+    if (!preview) return undefined
+
+    return { env: { ...preview.env }, envFiles: [...preview.envFiles] }
+  }
+
+  getPreviewLogs(previewId: string, options: { since?: number; limit?: number } = {}): LogLine[] | undefined {
+    return this.previews.get(previewId)?.logs.getLines(options)
+  }
+
+  // Resolve the preview a request path (e.g. /preview/<id>/assets/app.js) names, whether it is
+  // proxied under that path or on its subdomain
+  getPreviewForPath(requestPath: string): PreviewInstance | undefined {
+    if (!requestPath.startsWith(`${this.proxyBasePath}/`)) return undefined
+
+    const previewId = requestPath.slice(this.proxyBasePath.length + 1).split(/[/?]/)[0]
+    return this.previews.get(previewId)
+  }
+
+  // Resolve the preview a Host header (e.g. preview-123-abc.localhost:3000) belongs to. Only
+  // previews whose dev server serves from the root are proxied by host.
+  getPreviewForHost(host: string): PreviewInstance | undefined {
+    const dot = host.indexOf(".")
+    if (dot === -1) return undefined
+
+    const label = host.slice(0, dot).toLowerCase()
+    return this.getAllPreviews().find((preview) => preview.subdomain === label && !preview.server.servesBasePath())
+  }
+
   getAllPreviews(): PreviewInstance[] {
     return Array.from(this.previews.values())
   }
 
   getRunningPreviews(): PreviewInstance[] {
-    return this.getAllPreviews().filter((p) => p.status === "running")
+    return this.getAllPreviews().filter((p) => p.status === "ready")
+  }
+
+  private proxyUrl(previewId: string): string {
+    return `${this.proxyBasePath}/${previewId}/`
+  }
+
+  private async createServer(
+    projectPath: string,
+    port: number,
+    basePath: string,
+    config: PreviewConfig,
+  ): Promise<{ server: LocalDevServer; env: Record<string, string>; envFiles: string[] }> {
+    // Env is scoped to this preview: project env files, overridden by explicit config
+    const loaded = await loadEnvFiles(this.container.fs, projectPath)
+    const env = { ...loaded.env, ...config.env }
+
+    const server = new LocalDevServer(this.container, port, { ...config, port, env, basePath, projectPath })
+    return { server, env, envFiles: loaded.files }
+  }
+
+  // Directories that look like runnable projects (package.json or index.html), for
+  // picking a sub-project of a monorepo to preview
+  async findProjects(maxDepth = 3): Promise<string[]> {
+    const projects: string[] = []
+    const ignored = new Set(["node_modules", ".git", "dist", "build", ".next", "coverage"])
+
+    const visit = async (dirPath: string, depth: number): Promise<void> => {
+      let entries: string[]
+      try {
+        entries = await this.container.fs.readdir(dirPath)
+      } catch {
+        return
+      }
+
+      if (entries.includes("package.json") || entries.includes("index.html")) {
+        projects.push(dirPath)
+      }
+
+      if (depth >= maxDepth) return
+
+      for (const entry of entries) {
+        if (ignored.has(entry) || entry.startsWith(".")) continue
+
+        const entryPath = path.join(dirPath, entry)
+        try {
+          if ((await this.container.fs.stat(entryPath)).isDirectory()) {
+            await visit(entryPath, depth + 1)
+          }
+        } catch {
+          // Broken symlinks and permission errors are not projects
+        }
+      }
+    }
+
+    await visit(".", 0)
+    return projects
   }
 
   private async findAvailablePort(): Promise<number> {
@@ -154,17 +357,17 @@ export class PreviewManager extends EventEmitter {
     this.container.fs.readdir(preview.projectPath).then(() => {
       // Set up file watcher for hot reload
       const chokidar = require("chokidar")
-      const watcher = chokidar.watch(preview.projectPath, {
+      const watcher = chokidar.watch(path.resolve(this.container.workdir, preview.projectPath), {
         ignored: /(^|[/\\])\../, // ignore dotfiles
         persistent: true,
       })
 
-      watcher.on("change", async (path: string) => {
+      watcher.on("change", async (filePath: string) => {
         preview.lastActivity = new Date()
-        this.emit("fileChanged", preview, path)
+        this.emit("fileChanged", preview, filePath)
 
         // Auto-restart for certain file types
-        if (this.shouldAutoRestart(path)) {
+        if (this.shouldAutoRestart(filePath)) {
           await this.restartPreview(preview.id)
         }
       })
@@ -178,7 +381,7 @@ export class PreviewManager extends EventEmitter {
 
   private shouldAutoRestart(filePath: string): boolean {
     const autoRestartExtensions = [".js", ".ts", ".json", ".env"]
-    const ext = require("path").extname(filePath)
+    const ext = path.extname(filePath)
     return autoRestartExtensions.includes(ext)
   }
 
@@ -3,6 +3,9 @@ import { promises as fs } from "fs"
 import path from "path"
 import type { LocalContainer, FileStats } from "./types"
 import { EventEmitter } from "events"
+import { detectFramework, resolveProjectType, type ProjectType } from "./dev-server"
+import { sanitizeArchivePath } from "./path-security"
+import { IgnoreEngine, METADATA_DIR } from "./ignore"
 
 export interface ProjectMetadata {
   name: string
@@ -11,7 +14,9 @@ export interface ProjectMetadata {
   author?: string
   createdAt: Date
   updatedAt: Date
-  type: "web" | "node" | "react" | "vue" | "angular" | "static" | "other"
+  type: ProjectType
+  // Id of the detected framework (see the registry in dev-server.ts)
+  framework?: string
   dependencies?: Record<string, string>
   scripts?: Record<string, string>
 }
@@ -19,8 +24,12 @@ export interface ProjectMetadata {
 export interface ExportOptions {
   includeNodeModules?: boolean
   includeDotFiles?: boolean
+  // Gitignore-style lines applied after the project's ignore files
   excludePatterns?: string[]
   compression?: "none" | "fast" | "best"
+  // Export just these entries (directories with their contents) instead of the whole project.
+  // The project metadata is left out, and the ignore rules only apply inside the directories.
+  paths?: string[]
 }
 
 export interface ImportOptions {
@@ -29,14 +38,20 @@ export interface ImportOptions {
   preserveStructure?: boolean
 }
 
+// Never worth shipping in an export, whatever the ignore files say
+const EXPORT_EXCLUDES = [".next/", "*.log", ".DS_Store", "Thumbs.db"]
+
 export class ProjectManager extends EventEmitter {
   private container: LocalContainer
   private projectPath: string
+  private ignore: IgnoreEngine
 
-  constructor(container: LocalContainer) {
+  // Pass the workspace's ignore engine to share its rules and cached ignore files
+  constructor(container: LocalContainer, ignore?: IgnoreEngine) {
     super()
     this.container = container
     this.projectPath = container.workdir
+    this.ignore = ignore || new IgnoreEngine(container.workdir)
   }
 
   async exportProject(options: ExportOptions = {}): Promise<Buffer> {
@@ -44,36 +59,25 @@ export class ProjectManager extends EventEmitter {
 
     const zip = new JSZip()
 
-    // Default exclude patterns
-    const defaultExcludes = [
-      "node_modules/**",
-      ".git/**",
-      "dist/**",
-      "build/**",
-      ".next/**",
-      "coverage/**",
-      ".nyc_output/**",
-      "*.log",
-      ".DS_Store",
-      "Thumbs.db",
+    // The options re-include what the ignore rules leave out; .git stays out regardless
+    const rules = [
+      ...(includeNodeModules ? ["!node_modules/"] : []),
+      ...(includeDotFiles ? ["!.*"] : []),
+      ...EXPORT_EXCLUDES,
+      ...excludePatterns,
     ]
 
-    if (!includeNodeModules) {
-      defaultExcludes.push("node_modules/**")
-    }
-
-    if (!includeDotFiles) {
-      defaultExcludes.push(".*")
-    }
-
-    const allExcludes = [...defaultExcludes, ...excludePatterns]
-
     // Add project metadata
     const metadata = await this.generateProjectMetadata()
-    zip.file("bolt-project.json", JSON.stringify(metadata, null, 2))
 
-    // Add files recursively
-    await this.addDirectoryToZip(zip, ".", allExcludes)
+    if (options.paths) {
+      await this.addEntriesToZip(zip, options.paths, rules)
+    } else {
+      zip.file("bolt-project.json", JSON.stringify(metadata, null, 2))
+
+      // Add files recursively
+      await this.addDirectoryToZip(zip, ".", rules)
+    }
 
     // Generate ZIP buffer
     const compressionLevel = compression === "none" ? 0 : compression === "fast" ? 1 : 9
@@ -88,7 +92,22 @@ export class ProjectManager extends EventEmitter {
     return buffer
   }
 
-  private async addDirectoryToZip(zip: JSZip, dirPath: string, excludePatterns: string[]): Promise<void> {
+  // Selected entries keep their workspace-relative paths in the archive
+  private async addEntriesToZip(zip: JSZip, entryPaths: string[], rules: string[]): Promise<void> {
+    for (const entryPath of entryPaths) {
+      const relativePath = path.relative(".", path.normalize(entryPath))
+      const stats = await this.container.fs.stat(relativePath)
+
+      if (stats.isDirectory()) {
+        zip.folder(relativePath)
+        await this.addDirectoryToZip(zip, relativePath, rules)
+      } else if (stats.isFile()) {
+        zip.file(relativePath, await this.container.fs.readFileBuffer(relativePath))
+      }
+    }
+  }
+
+  private async addDirectoryToZip(zip: JSZip, dirPath: string, rules: string[]): Promise<void> {
     try {
       const entries = await this.container.fs.readdir(dirPath)
 
@@ -96,21 +115,20 @@ export class ProjectManager extends EventEmitter {
         const entryPath = path.join(dirPath, entry)
         const relativePath = path.relative(".", entryPath)
 
-        // Check if file should be excluded
-        if (this.shouldExclude(relativePath, excludePatterns)) {
-          continue
-        }
-
         try {
           const stats = await this.container.fs.stat(entryPath)
 
+          if (this.ignore.isIgnored(relativePath, stats.isDirectory(), { extraRules: rules })) {
+            continue
+          }
+
           if (stats.isDirectory()) {
             // Add directory and recurse
             zip.folder(relativePath)
-            await this.addDirectoryToZip(zip, entryPath, excludePatterns)
+            await this.addDirectoryToZip(zip, entryPath, rules)
           } else if (stats.isFile()) {
-            // Add file content
-            const content = await this.container.fs.readFile(entryPath)
+            // Add file content as raw bytes so binary assets survive the round trip
+            const content = await this.container.fs.readFileBuffer(entryPath)
             zip.file(relativePath, content)
           }
         } catch (error) {
@@ -122,28 +140,21 @@ export class ProjectManager extends EventEmitter {
     }
   }
 
-  private shouldExclude(filePath: string, excludePatterns: string[]): boolean {
-    const normalizedPath = filePath.replace(/\\/g, "/")
-
-    return excludePatterns.some((pattern) => {
-      // Convert glob pattern to regex
-      const regexPattern = pattern
-        .replace(/\./g, "\\.")
-        .replace(/\*\*/g, ".*")
-        .replace(/\*/g, "[^/]*")
-        .replace(/\?/g, "[^/]")
-
-      const regex = new RegExp(`^${regexPattern}$`)
-      return regex.test(normalizedPath)
-    })
-  }
-
   async importProject(zipBuffer: Buffer, options: ImportOptions = {}): Promise<void> {
     const { overwrite = false, targetDirectory, preserveStructure = true } = options
 
     const zip = new JSZip()
     const zipContent = await zip.loadAsync(zipBuffer)
 
+    // Validate every entry before touching the workspace, so a crafted archive writes nothing.
+    // JSZip quietly strips leading "../" from names; the original name is what gets checked.
+    const entries: Array<{ entryPath: string; file: JSZip.JSZipObject }> = []
+    zipContent.forEach((relativePath, file) => {
+      if (!file.dir && relativePath !== "bolt-project.json") {
+        entries.push({ entryPath: sanitizeArchivePath(file.unsafeOriginalName ?? relativePath), file })
+      }
+    })
+
     // Check if target directory should be cleared
     const importPath = targetDirectory || this.projectPath
 
@@ -151,24 +162,17 @@ export class ProjectManager extends EventEmitter {
       // Backup existing project first
       await this.createBackup()
 
-      // Clear directory (except for .git if it exists)
-      await this.clearDirectory(importPath, [".git"])
+      // Clear directory, keeping .git and the workspace's history and trash
+      await this.clearDirectory(importPath, [".git", METADATA_DIR])
     }
 
     // Ensure import directory exists
     await this.container.fs.mkdir(importPath, { recursive: true })
 
     // Extract files
-    const extractPromises: Promise<void>[] = []
-
-    zipContent.forEach((relativePath, file) => {
-      if (!file.dir && relativePath !== "bolt-project.json") {
-        const extractPromise = this.extractFile(file, relativePath, importPath, preserveStructure)
-        extractPromises.push(extractPromise)
-      }
-    })
-
-    await Promise.all(extractPromises)
+    await Promise.all(
+      entries.map(({ entryPath, file }) => this.extractFile(file, entryPath, importPath, preserveStructure)),
+    )
 
     // Load project metadata if available
     const metadataFile = zipContent.file("bolt-project.json")
@@ -188,12 +192,12 @@ export class ProjectManager extends EventEmitter {
     preserveStructure: boolean,
   ): Promise<void> {
     try {
-      const content = await file.async("string")
+      const content = await file.async("nodebuffer")
       const targetPath = preserveStructure
         ? path.join(importPath, relativePath)
         : path.join(importPath, path.basename(relativePath))
 
-      await this.container.fs.writeFile(targetPath, content)
+      await this.container.fs.writeFileBuffer(targetPath, content)
     } catch (error) {
       console.warn(`Failed to extract ${relativePath}:`, error)
     }
@@ -305,28 +309,19 @@ export class ProjectManager extends EventEmitter {
     }
 
     try {
-      // Try to read package.json for additional metadata
-      const packageJsonExists = await this.container.fs.exists("package.json")
-
-      if (packageJsonExists) {
-        const packageJson = JSON.parse(await this.container.fs.readFile("package.json"))
+      // Type detection shares the dev server's framework registry
+      const { framework, project } = await detectFramework(this.container.fs, ".")
+      metadata.type = resolveProjectType(framework, project)
+      metadata.framework = framework.id
 
+      const packageJson = project.packageJson
+      if (packageJson) {
         metadata.name = packageJson.name || metadata.name
         metadata.description = packageJson.description
         metadata.version = packageJson.version
         metadata.author = packageJson.author
         metadata.dependencies = packageJson.dependencies
         metadata.scripts = packageJson.scripts
-
-        // Detect project type based on dependencies
-        const deps = { ...packageJson.dependencies, ...packageJson.devDependencies }
-
-        if (deps.react) metadata.type = "react"
-        else if (deps.vue) metadata.type = "vue"
-        else if (deps["@angular/core"]) metadata.type = "angular"
-        else if (deps.express || deps.fastify || deps.koa) metadata.type = "node"
-        else if (packageJson.scripts?.build || packageJson.scripts?.dev) metadata.type = "web"
-        else metadata.type = "static"
       }
     } catch (error) {
       console.warn("Failed to read package.json for metadata:", error)
@@ -378,13 +373,10 @@ export class ProjectManager extends EventEmitter {
       for (const entry of entries) {
         const entryPath = path.join(dirPath, entry)
 
-        // Skip common ignore patterns
-        if (this.shouldExclude(entryPath, ["node_modules/**", ".git/**", "dist/**", "build/**"])) {
-          continue
-        }
-
         try {
           const stats = await this.container.fs.stat(entryPath)
+          if (this.ignore.isIgnored(entryPath, stats.isDirectory())) continue
+
           callback(entryPath, stats)
 
           if (stats.isDirectory()) {
@@ -0,0 +1,146 @@
+import { describe, it, before, after } from "node:test"
+import assert from "node:assert/strict"
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { SearchIndex, SearchQueryError, compileSearchPattern } from "./search-index"
+import { FileWatcher } from "./file-watcher"
+import { NodeFileSystem } from "./file-system"
+
+describe("compileSearchPattern", () => {
+  it("escapes literal queries and applies the flags", () => {
+    assert.equal(compileSearchPattern({ query: "a.b" }).test("axb"), false)
+    assert.equal(compileSearchPattern({ query: "Foo" }).flags, "gi")
+    assert.equal(compileSearchPattern({ query: "Foo", caseSensitive: true }).flags, "g")
+    assert.equal(compileSearchPattern({ query: "cat", wholeWord: true }).test("concat"), false)
+  })
+
+  it("rejects empty queries and invalid regexes", () => {
+    assert.throws(() => compileSearchPattern({ query: "" }), SearchQueryError)
+    assert.throws(() => compileSearchPattern({ query: "(", isRegex: true }), SearchQueryError)
+  })
+})
+
+describe("SearchIndex", () => {
+  let workspace: string
+  let fileSystem: NodeFileSystem
+  // Never started; events are emitted by hand
+  let watcher: FileWatcher
+  let index: SearchIndex
+
+  before(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "search-"))
+    fileSystem = new NodeFileSystem(workspace)
+    await fileSystem.writeFile("src/app.ts", 'export const greeting = "hello world"\nconsole.log(greeting)\n')
+    await fileSystem.writeFile("src/util.ts", "export function add(a: number, b: number) {\n  return a + b\n}\n")
+    await fileSystem.writeFile("README.md", "Hello there\n")
+    await fileSystem.writeFile("node_modules/dep/index.js", "hello from a dependency\n")
+    await fileSystem.writeFileBuffer("logo.png", Buffer.from([0x89, 0x50, 0x4e, 0x47]))
+
+    watcher = new FileWatcher(workspace)
+    index = new SearchIndex(fileSystem, watcher, { maxFileBytes: 1024 })
+  })
+
+  after(async () => {
+    index.dispose()
+    await fs.rm(workspace, { recursive: true, force: true })
+  })
+
+  it("is not ready until the initial build is done", async () => {
+    assert.equal(index.getStats().ready, false)
+    await index.start()
+    assert.equal(index.getStats().files, 3)
+    assert.equal(index.getStats().ready, true)
+  })
+
+  it("finds matches with line and column, skipping ignored and binary files", async () => {
+    const { results, summary } = await index.search({ query: "hello" })
+    assert.deepEqual(
+      results.map((result) => result.path),
+      ["README.md", "src/app.ts"],
+    )
+    assert.deepEqual(results[1].matches, [
+      { line: 1, content: 'export const greeting = "hello world"', start: 25, end: 30 },
+    ])
+    assert.deepEqual({ files: summary.files, matches: summary.matches }, { files: 2, matches: 2 })
+  })
+
+  it("only reads files that contain the query's trigrams", async () => {
+    const { summary } = await index.search({ query: "return" })
+    assert.equal(summary.searched, 1)
+  })
+
+  it("supports regexes, whole words and include and exclude globs", async () => {
+    const regex = await index.search({ query: "add\\(\\w", isRegex: true })
+    assert.deepEqual(
+      regex.results.map((result) => result.path),
+      ["src/util.ts"],
+    )
+
+    const word = await index.search({ query: "greet", wholeWord: true })
+    assert.equal(word.results.length, 0)
+
+    const included = await index.search({ query: "hello", include: ["src/"] })
+    assert.deepEqual(
+      included.results.map((result) => result.path),
+      ["src/app.ts"],
+    )
+    const excluded = await index.search({ query: "hello", exclude: ["*.md"] })
+    assert.deepEqual(
+      excluded.results.map((result) => result.path),
+      ["src/app.ts"],
+    )
+  })
+
+  it("stops at maxResults and reports the search as truncated", async () => {
+    const { results, summary } = await index.search({ query: "hello", maxResults: 1 })
+    assert.equal(results.length, 1)
+    assert.equal(summary.truncated, true)
+  })
+
+  it("reindexes files as they change", async () => {
+    await fileSystem.writeFile("src/new.ts", "const fresh = true\n")
+    await fileSystem.remove("README.md")
+    await index.refresh(["src/new.ts", "README.md"])
+
+    assert.deepEqual(
+      (await index.search({ query: "fresh" })).results.map((result) => result.path),
+      ["src/new.ts"],
+    )
+    assert.deepEqual(
+      (await index.search({ query: "hello" })).results.map((result) => result.path),
+      ["src/app.ts"],
+    )
+  })
+
+  it("applies watcher events once they settle", async () => {
+    await fileSystem.writeFile("src/watched.ts", "const watched = 1\n")
+    const updated = new Promise((resolve) => index.once("updated", resolve))
+    watcher.emit("change", { type: "add", path: "src/watched.ts" })
+    assert.equal(index.getStats().ready, false)
+
+    await updated
+    assert.equal(index.getStats().ready, true)
+    assert.equal((await index.search({ query: "watched" })).results.length, 1)
+  })
+
+  it("starts over after a failed build", async () => {
+    // The first listing is malformed, which fails the whole build
+    let listings = 0
+    const flaky: NodeFileSystem = Object.create(fileSystem)
+    flaky.readdir = (dirPath) =>
+      listings++ === 0 ? Promise.resolve([null] as unknown as string[]) : fileSystem.readdir(dirPath)
+
+    const retried = new SearchIndex(flaky, new FileWatcher(workspace))
+    const errors: Error[] = []
+    retried.on("error", (error: Error) => errors.push(error))
+
+    await assert.rejects(retried.start())
+    assert.equal(errors.length, 1)
+    assert.equal(retried.getStats().ready, false)
+
+    assert.equal((await retried.search({ query: "fresh" })).results.length, 1)
+    assert.equal(retried.getStats().ready, true)
+    retried.dispose()
+  })
+})
@@ -0,0 +1,441 @@
+import { EventEmitter } from "events"
+import path from "path"
+import type { LocalFileSystem } from "./types"
+import type { FileWatcher, FileChangeEvent } from "./file-watcher"
+import { createPathMatcher } from "./ignore"
+import { isTextFile } from "./file-types"
+
+export interface SearchQuery {
+  query: string
+  isRegex?: boolean
+  caseSensitive?: boolean
+  wholeWord?: boolean
+  // Gitignore-style globs: a file must match an include (when any are given) and no exclude
+  include?: string[]
+  exclude?: string[]
+  // Stop after this many matching files
+  maxResults?: number
+  maxMatchesPerFile?: number
+}
+
+export interface SearchMatch {
+  line: number
+  content: string
+  start: number
+  end: number
+}
+
+export interface SearchFileResult {
+  path: string
+  name: string
+  matches: SearchMatch[]
+}
+
+export interface SearchSummary {
+  files: number
+  matches: number
+  // Files whose content was checked after the index narrowed the candidates
+  searched: number
+  truncated: boolean
+  durationMs: number
+}
+
+export interface SearchIndexOptions {
+  // Larger files are not indexed or searched
+  maxFileBytes?: number
+}
+
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SearchQueryError"
+  }
+}
+
+const DEFAULT_MAX_FILE_BYTES = 1024 * 1024
+const DEFAULT_MAX_RESULTS = 500
+const DEFAULT_MAX_MATCHES_PER_FILE = 200
+// Watcher events are applied in batches once they settle
+const UPDATE_DEBOUNCE = 200
+// Files indexed between yields to the event loop while building
+const BUILD_BATCH_SIZE = 50
+
+// Trigram index over the text files of the workspace, kept current by the file watcher.
+// Queries use it to narrow the files whose content is actually scanned, so a search reads
+// a handful of candidates instead of the whole workspace. Matching is line based.
+export class SearchIndex extends EventEmitter {
+  private fs: LocalFileSystem
+  private watcher: FileWatcher
+  private maxFileBytes: number
+  // Lower-cased trigram -> files containing it
+  private postings: Map<string, Set<string>> = new Map()
+  // File -> its trigrams, to unindex it without rereading
+  private fileTrigrams: Map<string, string[]> = new Map()
+  private building: Promise<void> | null = null
+  private built = false
+  private pendingEvents: Map<string, FileChangeEvent["type"]> = new Map()
+  private updateTimer: NodeJS.Timeout | null = null
+  private updateTask: Promise<void> = Promise.resolve()
+  private handleWatcherChange = (event: FileChangeEvent) => this.queueUpdate(event)
+
+  constructor(fs: LocalFileSystem, watcher: FileWatcher, options: SearchIndexOptions = {}) {
+    super()
+    this.fs = fs
+    this.watcher = watcher
+    this.maxFileBytes = options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES
+  }
+
+  // Build in the background; searches issued meanwhile wait for it. A failed build is
+  // forgotten, so the next call starts over.
+  start(): Promise<void> {
+    if (!this.building) {
+      this.watcher.on("change", this.handleWatcherChange)
+
+      const startTime = Date.now()
+      this.building = this.indexDirectory(".").then(
+        () => {
+          this.built = true
+          this.emit("ready", { files: this.fileTrigrams.size, durationMs: Date.now() - startTime })
+        },
+        (error) => {
+          this.watcher.off("change", this.handleWatcherChange)
+          this.building = null
+          if (this.listenerCount("error") > 0) this.emit("error", error)
+          throw error
+        },
+      )
+    }
+    return this.building
+  }
+
+  getStats(): { files: number; trigrams: number; ready: boolean } {
+    return {
+      files: this.fileTrigrams.size,
+      trigrams: this.postings.size,
+      ready: this.built && this.pendingEvents.size === 0,
+    }
+  }
+
+  // Results are passed to onResult as soon as each file is scanned, and returned together
+  async search(
+    query: SearchQuery,
+    onResult?: (result: SearchFileResult) => void,
+  ): Promise<{ results: SearchFileResult[]; summary: SearchSummary }> {
+    const startTime = Date.now()
+    const pattern = compileSearchPattern(query)
+    const include = query.include?.length ? createPathMatcher(query.include) : null
+    const exclude = query.exclude?.length ? createPathMatcher(query.exclude) : null
+    const maxResults = query.maxResults || DEFAULT_MAX_RESULTS
+    const maxMatchesPerFile = query.maxMatchesPerFile || DEFAULT_MAX_MATCHES_PER_FILE
+
+    await this.start()
+    await this.updateTask
+
+    const results: SearchFileResult[] = []
+    const summary: SearchSummary = { files: 0, matches: 0, searched: 0, truncated: false, durationMs: 0 }
+
+    for (const filePath of this.candidates(query)) {
+      if (include && !include(filePath)) continue
+      if (exclude && exclude(filePath)) continue
+
+      if (results.length >= maxResults) {
+        summary.truncated = true
+        break
+      }
+
+      let content: string
+      try {
+        content = await this.fs.readFile(filePath)
+      } catch {
+        continue // Deleted since it was indexed
+      }
+
+      summary.searched++
+      const matches = findMatches(content, pattern, maxMatchesPerFile)
+      if (matches.length === 0) continue
+
+      const result: SearchFileResult = { path: filePath, name: path.posix.basename(filePath), matches }
+      results.push(result)
+      summary.files++
+      summary.matches += matches.length
+      onResult?.(result)
+    }
+
+    summary.durationMs = Date.now() - startTime
+    return { results, summary }
+  }
+
+  // Indexed files that can contain the query, in path order
+  private candidates(query: SearchQuery): string[] {
+    const literals = query.isRegex ? requiredLiterals(query.query) : [query.query]
+    const trigrams = new Set<string>()
+    literals.forEach((literal) => extractTrigrams(literal.toLowerCase()).forEach((trigram) => trigrams.add(trigram)))
+
+    let files: string[]
+    if (trigrams.size === 0) {
+      files = Array.from(this.fileTrigrams.keys())
+    } else {
+      // Intersect posting lists, smallest first
+      const lists = Array.from(trigrams).map((trigram) => this.postings.get(trigram) || new Set<string>())
+      lists.sort((a, b) => a.size - b.size)
+      files = Array.from(lists[0]).filter((file) => lists.every((list) => list.has(file)))
+    }
+
+    return files.sort()
+  }
+
+  // Reindex files written by this process now, rather than when their watcher events arrive
+  refresh(filePaths: string[]): Promise<void> {
+    this.updateTask = this.updateTask.then(async () => {
+      await this.building?.catch(() => undefined)
+      for (const filePath of filePaths.map(toIndexPath)) {
+        try {
+          await this.indexFile(filePath)
+        } catch {
+          this.removeFile(filePath)
+        }
+      }
+    })
+    return this.updateTask
+  }
+
+  private async indexDirectory(dirPath: string): Promise<void> {
+    const queue = [dirPath]
+    let indexed = 0
+
+    while (queue.length > 0) {
+      const current = queue.shift() as string
+      let entries: string[]
+      try {
+        entries = await this.fs.readdir(current)
+      } catch {
+        continue
+      }
+
+      for (const entry of entries) {
+        const entryPath = toIndexPath(path.join(current, entry))
+        try {
+          const stats = await this.fs.stat(entryPath)
+          if (this.watcher.ignore.isIgnored(entryPath, stats.isDirectory())) continue
+
+          if (stats.isDirectory()) {
+            queue.push(entryPath)
+          } else if (await this.indexFile(entryPath, stats.size)) {
+            // Stay responsive to requests while a large workspace is indexed
+            if (++indexed % BUILD_BATCH_SIZE === 0) {
+              await new Promise((resolve) => setImmediate(resolve))
+            }
+          }
+        } catch (error) {
+          console.warn(`Failed to index ${entryPath}:`, error)
+        }
+      }
+    }
+  }
+
+  private async indexFile(filePath: string, size?: number): Promise<boolean> {
+    this.removeFile(filePath)
+    if (!isTextFile(filePath)) return false
+
+    const fileSize = size ?? (await this.fs.stat(filePath)).size
+    if (fileSize > this.maxFileBytes) return false
+
+    // Raw reads skip the content cache, which indexing would otherwise flush
+    const content = (await this.fs.readFileBuffer(filePath)).toString("utf-8")
+    const trigrams = Array.from(extractTrigrams(content.toLowerCase()))
+
+    trigrams.forEach((trigram) => {
+      let files = this.postings.get(trigram)
+      if (!files) {
+        files = new Set()
+        this.postings.set(trigram, files)
+      }
+      files.add(filePath)
+    })
+    this.fileTrigrams.set(filePath, trigrams)
+    return true
+  }
+
+  private removeFile(filePath: string): void {
+    const trigrams = this.fileTrigrams.get(filePath)
+    if (!trigrams) return
+
+    trigrams.forEach((trigram) => {
+      const files = this.postings.get(trigram)
+      if (!files) return
+      files.delete(filePath)
+      if (files.size === 0) this.postings.delete(trigram)
+    })
+    this.fileTrigrams.delete(filePath)
+  }
+
+  private queueUpdate(event: FileChangeEvent): void {
+    const filePath = toIndexPath(event.path)
+    if (!filePath) return
+
+    this.pendingEvents.delete(filePath)
+    this.pendingEvents.set(filePath, event.type)
+
+    if (this.updateTimer) clearTimeout(this.updateTimer)
+    this.updateTimer = setTimeout(() => this.flushUpdates(), UPDATE_DEBOUNCE)
+  }
+
+  private flushUpdates(): void {
+    this.updateTimer = null
+    const events = Array.from(this.pendingEvents.entries())
+    this.pendingEvents.clear()
+
+    this.updateTask = this.updateTask.then(async () => {
+      // Events from before the initial build are covered by it
+      await this.building?.catch(() => undefined)
+
+      for (const [filePath, type] of events) {
+        try {
+          if (type === "unlink") {
+            this.removeFile(filePath)
+          } else if (type === "unlinkDir") {
+            const prefix = `${filePath}/`
+            Array.from(this.fileTrigrams.keys())
+              .filter((file) => file.startsWith(prefix))
+              .forEach((file) => this.removeFile(file))
+          } else if (type === "addDir") {
+            await this.indexDirectory(filePath)
+          } else if (!this.watcher.ignore.isIgnored(filePath, false)) {
+            await this.indexFile(filePath)
+          }
+        } catch {
+          // Gone again before the batch ran; its own unlink event follows
+          this.removeFile(filePath)
+        }
+      }
+
+      this.emit("updated", { files: events.length })
+    })
+  }
+
+  dispose(): void {
+    if (this.updateTimer) clearTimeout(this.updateTimer)
+    this.watcher.off("change", this.handleWatcherChange)
+    this.pendingEvents.clear()
+    this.built = false
+    this.postings.clear()
+    this.fileTrigrams.clear()
+    this.removeAllListeners()
+  }
+}
+
+// The global regular expression a query matches with. Throws SearchQueryError for an
+// empty query or invalid regex.
+export function compileSearchPattern(query: SearchQuery): RegExp {
+  if (!query.query) {
+    throw new SearchQueryError("Search query is empty")
+  }
+
+  let source = query.isRegex ? query.query : escapeRegExp(query.query)
+  if (query.wholeWord) {
+    source = `\\b(?:${source})\\b`
+  }
+
+  try {
+    return new RegExp(source, query.caseSensitive ? "g" : "gi")
+  } catch (error) {
+    throw new SearchQueryError((error as Error).message)
+  }
+}
+
+// Every match of a global pattern, line by line. Empty matches (e.g. "^") are skipped.
+export function findMatches(content: string, pattern: RegExp, limit = Number.POSITIVE_INFINITY): SearchMatch[] {
+  const matches: SearchMatch[] = []
+  const lines = content.split("\n")
+
+  for (let index = 0; index < lines.length && matches.length < limit; index++) {
+    const line = lines[index].replace(/\r$/, "")
+    pattern.lastIndex = 0
+
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(line)) !== null) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++
+        continue
+      }
+
+      matches.push({ line: index + 1, content: line, start: match.index, end: match.index + match[0].length })
+      if (matches.length >= limit) break
+    }
+  }
+
+  return matches
+}
+
+function extractTrigrams(text: string): Set<string> {
+  const trigrams = new Set<string>()
+  for (let i = 0; i + 3 <= text.length; i++) {
+    trigrams.add(text.slice(i, i + 3))
+  }
+  return trigrams
+}
+
+// Literal runs every match of a regex must contain, used to pick candidates from the
+// index. Conservative: anything unclear (alternation, groups, unusual escapes) yields
+// fewer literals, which only means more files are scanned.
+function requiredLiterals(source: string): string[] {
+  if (source.includes("|")) return []
+
+  const literals: string[] = []
+  let current = ""
+  let depth = 0
+  const flush = () => {
+    if (current) literals.push(current)
+    current = ""
+  }
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (char === "\\") {
+      const next = source[++i]
+      if (next === undefined) break
+      if (/[xucpPk]/.test(next)) return literals // Escapes with arguments; stop here
+      if (/[A-Za-z0-9]/.test(next)) {
+        flush() // Character classes, anchors and backreferences
+      } else if (depth === 0) {
+        current += next
+      }
+    } else if (char === "[") {
+      flush()
+      let end = i + 1
+      while (end < source.length && (source[end] !== "]" || source[end - 1] === "\\" || end === i + 1)) end++
+      i = end
+    } else if (char === "(") {
+      flush()
+      depth++
+    } else if (char === ")") {
+      flush()
+      depth = Math.max(0, depth - 1)
+    } else if (char === "*" || char === "?" || char === "{") {
+      // The quantified character is optional
+      current = current.slice(0, -1)
+      flush()
+      if (char === "{") {
+        const end = source.indexOf("}", i)
+        i = end === -1 ? source.length : end
+      }
+    } else if (char === "." || char === "^" || char === "$" || char === "+") {
+      flush()
+    } else if (depth === 0) {
+      current += char
+    }
+  }
+
+  flush()
+  return literals
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function toIndexPath(filePath: string): string {
+  const normalized = path.normalize(filePath).split(path.sep).join("/")
+  return normalized === "." ? "" : normalized
+}
@@ -0,0 +1,107 @@
+import path from "path"
+import { LocalContainerImpl } from "./container"
+import { OptimizedFileSystem } from "./optimized-file-system"
+import { PerformanceMonitor } from "./performance-monitor"
+import { FileManager } from "./file-manager"
+import { FileWatcher } from "./file-watcher"
+import { TerminalManager } from "./terminal-manager"
+import { PreviewManager, type PreviewManagerOptions } from "./preview-manager"
+import { ProjectManager } from "./project-manager"
+import { IgnoreEngine } from "./ignore"
+import type { SymlinkPolicy } from "./path-security"
+
+export interface LocalServices {
+  container: LocalContainerImpl
+  fs: OptimizedFileSystem
+  performanceMonitor: PerformanceMonitor
+  // .gitignore/.boltignore rules shared by the watcher, file tree and project export
+  ignore: IgnoreEngine
+  fileManager: FileManager
+  terminalManager: TerminalManager
+  previewManager: PreviewManager
+  projectManager: ProjectManager
+}
+
+export interface ServiceOptions {
+  // Workspace directory, relative to the process cwd
+  workdir?: string
+  // Use an existing monitor instead of creating one
+  performanceMonitor?: PerformanceMonitor
+  preview?: PreviewManagerOptions
+  // Defaults to "mounts": symlinks may point into the workspace or mounted directories
+  symlinkPolicy?: SymlinkPolicy
+}
+
+// Kept on globalThis so every Next route bundle, the legacy api/ handlers and the Express
+// app share one set of services, and dev-mode module reloads don't start a second one
+const registry = globalThis as typeof globalThis & {
+  __boltLocalServices?: Promise<LocalServices>
+}
+
+// Resolve the process-wide services, creating them on first use. Options only apply to
+// that first call.
+export function getServices(options: ServiceOptions = {}): Promise<LocalServices> {
+  if (!registry.__boltLocalServices) {
+    registry.__boltLocalServices = createServices(options).catch((error) => {
+      // Let the next caller retry instead of caching the failure
+      registry.__boltLocalServices = undefined
+      throw error
+    })
+  }
+  return registry.__boltLocalServices
+}
+
+export function hasServices(): boolean {
+  return !!registry.__boltLocalServices
+}
+
+async function createServices(options: ServiceOptions): Promise<LocalServices> {
+  const workdir = path.resolve(process.cwd(), options.workdir || process.env.WORKSPACE || "workspace")
+
+  const container = (await LocalContainerImpl.boot({ workdirName: workdir })) as LocalContainerImpl
+  const performanceMonitor = options.performanceMonitor || new PerformanceMonitor()
+  const fs = new OptimizedFileSystem(container.workdir, performanceMonitor, {
+    symlinkPolicy: options.symlinkPolicy,
+    mountRoots: () => container.getMountRoots(),
+  })
+
+  // Everything that goes through the container (previews, projects) uses the cached fs too
+  container.fs = fs
+
+  // One watcher feeds both cache invalidation and the file manager. The fs subscribes first
+  // so file manager listeners never read stale cache entries.
+  const ignore = new IgnoreEngine(container.workdir)
+  const watcher = new FileWatcher(container.workdir, ignore)
+  fs.watch(watcher)
+
+  const services: LocalServices = {
+    container,
+    fs,
+    performanceMonitor,
+    ignore,
+    fileManager: new FileManager(fs, container.workdir, watcher),
+    terminalManager: new TerminalManager(container.workdir),
+    previewManager: new PreviewManager(container, options.preview),
+    projectManager: new ProjectManager(container, ignore),
+  }
+
+  performanceMonitor.start()
+  await services.fileManager.initialize()
+
+  return services
+}
+
+// Stop previews and watchers and forget the instances, so the next getServices() starts fresh
+export async function disposeServices(): Promise<void> {
+  const pending = registry.__boltLocalServices
+  if (!pending) return
+
+  registry.__boltLocalServices = undefined
+
+  const services = await pending
+  await services.previewManager.stopAllPreviews()
+  services.previewManager.dispose()
+  services.fileManager.dispose()
+  services.fs.dispose()
+  services.performanceMonitor.dispose()
+}
@@ -1,4 +1,4 @@
-import type { LocalTerminal, Process } from "./types"
+import type { LocalTerminal, Process, PtyProcess } from "./types"
 import { NodeTerminal } from "./terminal"
 
 export interface TerminalSession {
@@ -7,6 +7,14 @@ export interface TerminalSession {
   processes: Map<number, Process>
   history: string[]
   cwd: string
+  pty?: PtyProcess
+}
+
+// Control characters the line discipline turns into signals for the foreground job
+const SIGNAL_CONTROL_CHARS: Record<string, string> = {
+  SIGINT: "\x03",
+  SIGQUIT: "\x1c",
+  SIGTSTP: "\x1a",
 }
 
 export class TerminalManager {
@@ -37,6 +45,63 @@ export class TerminalManager {
     return this.sessions.get(sessionId)
   }
 
+  async openPty(sessionId: string, options: { cols?: number; rows?: number } = {}): Promise<PtyProcess> {
+    const session = this.getSession(sessionId) || this.createSession(sessionId)
+
+    if (session.pty) {
+      if (options.cols && options.rows) {
+        session.pty.resize(options.cols, options.rows)
+      }
+      return session.pty
+    }
+
+    const pty = await session.terminal.spawnPty({
+      cwd: session.cwd,
+      cols: options.cols,
+      rows: options.rows,
+    })
+
+    session.pty = pty
+    pty.onExit(() => {
+      if (session.pty === pty) {
+        session.pty = undefined
+      }
+    })
+
+    return pty
+  }
+
+  writeInput(sessionId: string, data: string): boolean {
+    const pty = this.getSession(sessionId)?.pty
+    if (!pty) return false
+
+    pty.write(data)
+    return true
+  }
+
+  resizeSession(sessionId: string, cols: number, rows: number): boolean {
+    const pty = this.getSession(sessionId)?.pty
+    if (!pty || cols <= 0 || rows <= 0) return false
+
+    pty.resize(cols, rows)
+    return true
+  }
+
+  sendSignal(sessionId: string, signal = "SIGINT"): boolean {
+    const pty = this.getSession(sessionId)?.pty
+    if (!pty) return false
+
+    // Job-control signals go through the terminal so they reach the foreground
+    // process group rather than the shell itself
+    const controlChar = SIGNAL_CONTROL_CHARS[signal]
+    if (controlChar) {
+      pty.write(controlChar)
+    } else {
+      pty.kill(signal)
+    }
+    return true
+  }
+
   async executeCommand(
     sessionId: string,
     command: string,
@@ -211,6 +276,8 @@ export class TerminalManager {
       process.kill()
     }
 
+    session.pty?.kill()
+
     this.sessions.delete(sessionId)
     return true
   }
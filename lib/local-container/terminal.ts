@@ -1,5 +1,6 @@
 import { spawn as nodeSpawn, exec as nodeExec } from "child_process"
-import type { LocalTerminal, Process, SpawnOptions } from "./types"
+import { spawn as ptySpawn } from "node-pty"
+import type { LocalTerminal, Process, SpawnOptions, PtyOptions, PtyProcess } from "./types"
 
 export class NodeTerminal implements LocalTerminal {
   private workingDirectory: string
@@ -82,4 +83,39 @@ export class NodeTerminal implements LocalTerminal {
       })
     })
   }
+
+  async spawnPty(options: PtyOptions = {}): Promise<PtyProcess> {
+    const shell = options.shell || getDefaultShell()
+    const env = { ...process.env, ...options.env, TERM: "xterm-256color" } as Record<string, string>
+
+    const ptyProcess = ptySpawn(shell, options.args || [], {
+      name: "xterm-256color",
+      cols: options.cols || 80,
+      rows: options.rows || 24,
+      cwd: options.cwd || this.workingDirectory,
+      env,
+    })
+
+    return {
+      pid: ptyProcess.pid,
+      write: (data) => ptyProcess.write(data),
+      resize: (cols, rows) => ptyProcess.resize(cols, rows),
+      kill: (signal) => ptyProcess.kill(signal),
+      onData: (callback) => {
+        const subscription = ptyProcess.onData(callback)
+        return () => subscription.dispose()
+      },
+      onExit: (callback) => {
+        const subscription = ptyProcess.onExit(({ exitCode, signal }) => callback(exitCode, signal))
+        return () => subscription.dispose()
+      },
+    }
+  }
+}
+
+function getDefaultShell(): string {
+  if (process.platform === "win32") {
+    return process.env.COMSPEC || "powershell.exe"
+  }
+  return process.env.SHELL || "/bin/bash"
 }
@@ -0,0 +1,122 @@
+import { describe, it, beforeEach, afterEach } from "node:test"
+import assert from "node:assert/strict"
+import { promises as fs } from "fs"
+import os from "os"
+import path from "path"
+import { Trash, TrashConflictError } from "./trash"
+import { NodeFileSystem } from "./file-system"
+
+describe("Trash", () => {
+  let workspace: string
+  let fileSystem: NodeFileSystem
+  let trash: Trash
+
+  beforeEach(async () => {
+    workspace = await fs.mkdtemp(path.join(os.tmpdir(), "trash-"))
+    fileSystem = new NodeFileSystem(workspace)
+    trash = new Trash(fileSystem)
+    await fileSystem.writeFile("src/a.txt", "a")
+    await fileSystem.writeFile("src/b.txt", "b")
+  })
+
+  afterEach(async () => {
+    trash.dispose()
+    await fs.rm(workspace, { recursive: true, force: true })
+  })
+
+  it("moves a file out and restores it to its original path", async () => {
+    const item = await trash.put("src/a.txt")
+    assert.equal(item.originalPath, "src/a.txt")
+    assert.equal(item.type, "file")
+    assert.equal(item.size, 1)
+    assert.equal(await fileSystem.exists("src/a.txt"), false)
+    assert.deepEqual((await trash.list()).map((entry) => entry.id), [item.id])
+
+    const restored = await trash.restore(item.id)
+    assert.equal(restored.path, "src/a.txt")
+    assert.equal(await fileSystem.readFile("src/a.txt"), "a")
+    assert.deepEqual(await trash.list(), [])
+  })
+
+  it("restores a directory with its contents", async () => {
+    const item = await trash.put("src")
+    assert.equal(item.type, "directory")
+
+    await trash.restore(item.id)
+    assert.deepEqual((await fileSystem.readdir("src")).sort(), ["a.txt", "b.txt"])
+  })
+
+  it("applies the conflict policy when the original path is taken", async () => {
+    const first = await trash.put("src/a.txt")
+    await fileSystem.writeFile("src/a.txt", "new")
+
+    await assert.rejects(trash.restore(first.id), TrashConflictError)
+    assert.equal((await trash.restore(first.id, { conflict: "rename" })).path, "src/a (restored).txt")
+    assert.equal(await fileSystem.readFile("src/a (restored).txt"), "a")
+
+    const second = await trash.put("src/b.txt")
+    await fileSystem.writeFile("src/b.txt", "new")
+    await trash.restore(second.id, { conflict: "overwrite" })
+    assert.equal(await fileSystem.readFile("src/b.txt"), "b")
+  })
+
+  it("refuses to trash the metadata directory", async () => {
+    await assert.rejects(trash.put(".bolt"), /can't be moved to the trash/)
+    await assert.rejects(trash.put("."), /can't be moved to the trash/)
+  })
+
+  it("keeps no row for an entry that could not be moved", async () => {
+    await assert.rejects(trash.put("missing.txt"))
+    assert.deepEqual(await trash.list(), [])
+  })
+
+  it("deletes items for good and empties", async () => {
+    const first = await trash.put("src/a.txt")
+    await trash.put("src/b.txt")
+
+    await trash.delete(first.id)
+    assert.equal((await trash.list()).length, 1)
+    assert.equal(await trash.empty(), 1)
+    assert.deepEqual(await fileSystem.readdir(".bolt/trash/files"), [])
+  })
+
+  it("purges items older than maxAge", async () => {
+    trash.dispose()
+    trash = new Trash(fileSystem, { maxAge: 50 })
+    await trash.put("src/a.txt")
+    await new Promise((resolve) => setTimeout(resolve, 80))
+    await trash.put("src/b.txt")
+
+    assert.equal(await trash.purge(), 1)
+    assert.deepEqual((await trash.list()).map((entry) => entry.originalPath), ["src/b.txt"])
+  })
+
+  it("survives a reload, keeping entries the index lost", async () => {
+    const kept = await trash.put("src/a.txt")
+    const orphaned = await trash.put("src/b.txt")
+    trash.dispose()
+
+    // As if the row had been lost from the index
+    const index: Array<{ id: string }> = JSON.parse(await fileSystem.readFile(".bolt/trash/index.json"))
+    await fileSystem.writeFile(".bolt/trash/index.json", JSON.stringify(index.filter((row) => row.id === kept.id)))
+
+    trash = new Trash(fileSystem)
+    const items = await trash.list()
+    assert.deepEqual(items.map((entry) => entry.id).sort(), [kept.id, orphaned.id].sort())
+    assert.equal(items.find((entry) => entry.id === kept.id)?.originalPath, "src/a.txt")
+
+    // Without its row the original path is unknown, so it comes back at the root
+    const restored = await trash.restore(orphaned.id)
+    assert.equal(restored.path, orphaned.id)
+    assert.equal(await fileSystem.readFile(orphaned.id), "b")
+  })
+
+  it("drops rows whose stored entry is gone", async () => {
+    const item = await trash.put("src/a.txt")
+    trash.dispose()
+    await fs.rm(path.join(workspace, ".bolt", "trash", "files", item.id))
+
+    trash = new Trash(fileSystem)
+    assert.deepEqual(await trash.list(), [])
+  })
+})
@@ -0,0 +1,269 @@
+import path from "path"
+import type { LocalFileSystem } from "./types"
+import { METADATA_DIR } from "./ignore"
+
+export interface TrashItem {
+  id: string
+  // Workspace-relative path the entry was deleted from
+  originalPath: string
+  name: string
+  type: "file" | "directory"
+  // Bytes for a file, 0 for a directory
+  size: number
+  deletedAt: number
+}
+
+// What restore does when something already exists at the original path:
+// - "error": fail with a TrashConflictError
+// - "overwrite": replace it (a directory is merged into an existing directory)
+// - "rename": restore next to it as "name (restored).ext"
+export type RestoreConflictPolicy = "error" | "overwrite" | "rename"
+
+export interface RestoreOptions {
+  conflict?: RestoreConflictPolicy
+}
+
+export interface TrashOptions {
+  // Items older than this are deleted for good
+  maxAge?: number
+}
+
+export class TrashConflictError extends Error {
+  readonly item: TrashItem
+
+  constructor(item: TrashItem) {
+    super(`${item.originalPath} already exists`)
+    this.name = "TrashConflictError"
+    this.item = item
+  }
+}
+
+const TRASH_DIR = path.posix.join(METADATA_DIR, "trash")
+const FILES_DIR = path.posix.join(TRASH_DIR, "files")
+const INDEX_FILE = path.posix.join(TRASH_DIR, "index.json")
+
+// How often old items are purged while the workspace is open
+const PURGE_INTERVAL = 60 * 60 * 1000
+
+// Deleted entries, moved into <workspace>/.bolt/trash rather than removed. Each item is kept
+// under its id with the original path and deletion time in an index.
+export class Trash {
+  private fs: LocalFileSystem
+  private maxAge: number
+  private items: TrashItem[] = []
+  private loaded: Promise<void> | null = null
+  private purgeTimer: NodeJS.Timeout | null = null
+  // Serializes moves and index writes
+  private task: Promise<unknown> = Promise.resolve()
+
+  constructor(fs: LocalFileSystem, options: TrashOptions = {}) {
+    this.fs = fs
+    this.maxAge = options.maxAge ?? 30 * 24 * 60 * 60 * 1000
+
+    this.purgeTimer = setInterval(() => {
+      this.purge().catch((error) => console.warn("Failed to purge trash:", error))
+    }, PURGE_INTERVAL)
+    this.purgeTimer.unref?.()
+  }
+
+  // Move an entry into the trash
+  put(filePath: string): Promise<TrashItem> {
+    return this.run(async () => {
+      const originalPath = toRelative(filePath)
+      if (!originalPath || originalPath === METADATA_DIR || originalPath.startsWith(`${METADATA_DIR}/`)) {
+        throw new Error(`${filePath} can't be moved to the trash`)
+      }
+
+      const stats = await this.fs.stat(originalPath)
+      const item: TrashItem = {
+        id: `trash_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        originalPath,
+        name: path.posix.basename(originalPath),
+        type: stats.isDirectory() ? "directory" : "file",
+        size: stats.isDirectory() ? 0 : stats.size,
+        deletedAt: Date.now(),
+      }
+
+      // The row goes in first: a crash after the move then still finds the entry in the index
+      this.items.push(item)
+      await this.saveIndex()
+      try {
+        await this.fs.move(originalPath, this.itemPath(item))
+      } catch (error) {
+        this.items = this.items.filter((entry) => entry.id !== item.id)
+        await this.saveIndex()
+        throw error
+      }
+      return item
+    })
+  }
+
+  // Newest first
+  async list(): Promise<TrashItem[]> {
+    await this.load()
+    return this.items.slice().sort((a, b) => b.deletedAt - a.deletedAt)
+  }
+
+  // Move an item back. Resolves to the path it was restored to.
+  restore(id: string, options: RestoreOptions = {}): Promise<{ item: TrashItem; path: string }> {
+    return this.run(async () => {
+      const item = this.find(id)
+      const conflict = options.conflict ?? "error"
+
+      let targetPath = item.originalPath
+      if (await this.fs.exists(targetPath)) {
+        if (conflict === "error") throw new TrashConflictError(item)
+        if (conflict === "rename") targetPath = await this.availablePath(targetPath)
+      }
+
+      await this.fs.move(this.itemPath(item), targetPath, { overwrite: conflict === "overwrite" ? "overwrite" : "error" })
+      this.items = this.items.filter((entry) => entry.id !== id)
+      await this.saveIndex()
+      return { item, path: targetPath }
+    })
+  }
+
+  // Delete one item for good
+  delete(id: string): Promise<TrashItem> {
+    return this.run(async () => {
+      const item = this.find(id)
+      await this.removeItems([item])
+      return item
+    })
+  }
+
+  // Delete everything in the trash. Resolves to the number of items removed.
+  empty(): Promise<number> {
+    return this.run(async () => {
+      const count = this.items.length
+      await this.removeItems(this.items.slice())
+      return count
+    })
+  }
+
+  // Delete items older than maxAge. Resolves to the number of items removed.
+  purge(): Promise<number> {
+    return this.run(() => this.purgeExpired())
+  }
+
+  dispose(): void {
+    if (this.purgeTimer) clearInterval(this.purgeTimer)
+    this.purgeTimer = null
+  }
+
+  private run<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.task.then(() => this.load()).then(task)
+    this.task = result.catch(() => undefined)
+    return result
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readIndex().then(() => this.purgeExpired().then(() => undefined))
+    }
+    return this.loaded
+  }
+
+  // The index and the stored entries are reconciled: index rows without a stored entry are
+  // dropped, and stored entries without a row (e.g. a lost index) are listed again. Their
+  // original path is gone, so they restore to the workspace root under their id.
+  private async readIndex(): Promise<void> {
+    try {
+      this.items = JSON.parse(await this.fs.readFile(INDEX_FILE))
+    } catch {
+      this.items = []
+    }
+
+    const stored = await this.fs.readdir(FILES_DIR).catch(() => [] as string[])
+    const known = new Set(this.items.map((item) => item.id))
+    const before = this.items.length
+    this.items = this.items.filter((item) => stored.includes(item.id))
+    let changed = this.items.length !== before
+
+    for (const id of stored.filter((entry) => !known.has(entry))) {
+      const item = await this.adopt(id).catch(() => null)
+      if (item) {
+        this.items.push(item)
+        changed = true
+      }
+    }
+
+    if (changed) {
+      await this.saveIndex()
+    }
+  }
+
+  private async adopt(id: string): Promise<TrashItem> {
+    const stats = await this.fs.stat(path.posix.join(FILES_DIR, id))
+    // Ids start with the deletion time; anything else counts as deleted now so it isn't purged at once
+    const deletedAt = Number(/^trash_(\d+)_/.exec(id)?.[1]) || Date.now()
+    return {
+      id,
+      originalPath: id,
+      name: id,
+      type: stats.isDirectory() ? "directory" : "file",
+      size: stats.isDirectory() ? 0 : stats.size,
+      deletedAt,
+    }
+  }
+
+  private async purgeExpired(): Promise<number> {
+    const cutoff = Date.now() - this.maxAge
+    const expired = this.items.filter((item) => item.deletedAt < cutoff)
+    if (expired.length > 0) {
+      await this.removeItems(expired)
+    }
+    return expired.length
+  }
+
+  private async removeItems(items: TrashItem[]): Promise<void> {
+    const ids = new Set(items.map((item) => item.id))
+    await Promise.all(
+      items.map(async (item) => {
+        try {
+          await this.fs.remove(this.itemPath(item))
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+        }
+      }),
+    )
+    this.items = this.items.filter((item) => !ids.has(item.id))
+    await this.saveIndex()
+  }
+
+  private find(id: string): TrashItem {
+    const item = this.items.find((entry) => entry.id === id)
+    if (!item) {
+      const error: NodeJS.ErrnoException = new Error(`No trash item ${id}`)
+      error.code = "ENOENT"
+      throw error
+    }
+    return item
+  }
+
+  private async availablePath(filePath: string): Promise<string> {
+    const dir = path.posix.dirname(filePath)
+    const name = path.posix.basename(filePath)
+    const dot = name.lastIndexOf(".")
+    const base = dot > 0 ? name.slice(0, dot) : name
+    const extension = dot > 0 ? name.slice(dot) : ""
+
+    for (let attempt = 1; ; attempt++) {
+      const candidate = path.posix.join(dir, `${base} (restored${attempt > 1 ? ` ${attempt}` : ""})${extension}`)
+      if (!(await this.fs.exists(candidate))) return candidate
+    }
+  }
+
+  private async saveIndex(): Promise<void> {
+    await this.fs.writeFile(INDEX_FILE, JSON.stringify(this.items, null, 2))
+  }
+
+  private itemPath(item: TrashItem): string {
+    return path.posix.join(FILES_DIR, item.id)
+  }
+}
+
+function toRelative(filePath: string): string {
+  const normalized = path.posix.normalize(filePath.split(path.sep).join("/")).replace(/^\.\/+/, "")
+  return normalized === "." || normalized.startsWith("../") || normalized === ".." ? "" : normalized.replace(/\/+$/, "")
+}
@@ -1,13 +1,55 @@
 export interface LocalFileSystem {
   readFile(path: string): Promise<string>
-  writeFile(path: string, content: string): Promise<void>
+  writeFile(path: string, content: string, preconditions?: WritePreconditions): Promise<void>
+  readFileBuffer(path: string): Promise<Buffer>
+  writeFileBuffer(path: string, content: Buffer | Uint8Array, preconditions?: WritePreconditions): Promise<void>
+  // Written to a temp file as chunks arrive, then renamed into place
+  writeFileStream(path: string, content: AsyncIterable<Uint8Array>, options?: WriteStreamOptions): Promise<void>
+  // Creates the file (not its directory) if missing; not atomic, so for append-only logs
+  appendFile(path: string, content: string): Promise<void>
+  getFileVersion(path: string): Promise<FileVersion>
   readdir(path: string): Promise<string[]>
   mkdir(path: string, options?: { recursive?: boolean }): Promise<void>
   exists(path: string): Promise<boolean>
   remove(path: string): Promise<void>
+  // Fails with EEXIST when newPath is taken
+  rename(oldPath: string, newPath: string): Promise<void>
+  // Recursive, keeping permissions and timestamps
+  copy(srcPath: string, destPath: string, options?: CopyOptions): Promise<void>
+  // A rename when possible, otherwise copy and remove (e.g. across devices or onto a directory)
+  move(srcPath: string, destPath: string, options?: CopyOptions): Promise<void>
   stat(path: string): Promise<FileStats>
 }
 
+// What copy and move do when the destination exists:
+// - "error": fail with EEXIST
+// - "overwrite": replace files; a directory is merged into an existing directory
+export type OverwritePolicy = "error" | "overwrite"
+
+export interface CopyOptions {
+  overwrite?: OverwritePolicy
+}
+
+// Optimistic concurrency: a write fails with a WriteConflictError unless the file on disk
+// still matches what the writer last read
+export interface WritePreconditions {
+  expectedMtime?: Date | number | string
+  // sha256 hex digest of the expected content
+  expectedHash?: string
+}
+
+export interface WriteStreamOptions {
+  // Fail with EEXIST if the path is taken, before any content is read. The check and the
+  // create are one step, so of two writers racing for a name only one gets it.
+  exclusive?: boolean
+}
+
+export interface FileVersion {
+  mtime: Date
+  size: number
+  hash: string
+}
+
 export interface FileStats {
   isFile(): boolean
   isDirectory(): boolean
@@ -18,6 +60,7 @@ export interface FileStats {
 export interface LocalTerminal {
   spawn(command: string, args?: string[], options?: SpawnOptions): Promise<Process>
   exec(command: string): Promise<{ stdout: string; stderr: string; exitCode: number }>
+  spawnPty(options?: PtyOptions): Promise<PtyProcess>
 }
 
 export interface SpawnOptions {
@@ -34,6 +77,25 @@ export interface Process {
   onExit: (callback: (code: number) => void) => void
 }
 
+export interface PtyOptions {
+  shell?: string
+  args?: string[]
+  cwd?: string
+  env?: Record<string, string>
+  cols?: number
+  rows?: number
+}
+
+export interface PtyProcess {
+  pid: number
+  write(data: string): void
+  resize(cols: number, rows: number): void
+  kill(signal?: string): void
+  // Both return a function that removes the listener
+  onData: (callback: (data: string) => void) => () => void
+  onExit: (callback: (code: number, signal?: number) => void) => () => void
+}
+
 export interface LocalContainer {
   fs: LocalFileSystem
   terminal: LocalTerminal